@@ -1,58 +1,124 @@
 
-import React, { useState, useEffect, useRef } from 'react';
-import { ViewType, DailyLog, ModelStatus, ConversationSegment } from './types';
-import { getLog, saveLog, getAllLogs, saveAudio, deleteDayData, autoCleanupAndCompress } from './db';
-import { transcribeAudioChunk, generateDailySummary } from './geminiService';
-import Timeline from './components/Timeline';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { ViewType, DailyLog, ModelStatus, ConversationSegment, AppSettings, RecordingSession, TranscriptionJob, Person, SegmentTopic } from './types';
+import { 
+  getLog, updateLog, getAllLogs, saveAudio, deleteDayData,
+  appendSessionSlice, getUnfinishedSessions, getSessionAudio, deleteSession, getJobs, indexUnindexedLogs, getPeople
+} from './db';
+import { AssignScope, scopeSegmentIds, assignSpeaker, resetSpeaker } from './people';
+import { SegmentEdit, editSegment, deleteSegment } from './segmentEdits';
+import { promoteActionItems } from './tasks';
+import { generateDailySummary, scoreSentiment } from './aiService';
+import { applySentiment } from './sentiment';
+import { tagSegments, setSegmentTopics, allTopicNames, topicLabels } from './topics';
+import { addBookmark, labelBookmark, attachBookmarks, startBookmarkShortcuts } from './bookmarks';
+import { runRetention, setDayStarred } from './retention';
+import { hasGeminiKey } from './providers';
+import { createChunkedRecorder, ChunkedRecorder, RecordedChunk } from './recorder';
+import { loadSettings, saveSettings } from './settings';
+import { analyseSpeech, SpeechAnalysis } from './vad';
+import { enqueueTranscription, startTranscriptionWorker } from './transcriptionQueue';
+import { syncEmbeddings } from './embeddings';
+import { localDateKey, currentTimeZone, todayKey } from './localTime';
+import Timeline, { TimelineJump } from './components/Timeline';
 import CalendarView from './components/CalendarView';
 import SummaryView from './components/SummaryView';
 import SearchView from './components/SearchView';
-import StatsOverview from './components/StatsOverview';
 import ModelManager from './components/ModelManager';
+import JobQueueView from './components/JobQueueView';
+import AskView from './components/AskView';
+import PeopleView from './components/PeopleView';
+import PeriodView from './components/PeriodView';
+import TasksView from './components/TasksView';
+import InsightsView from './components/InsightsView';
+import TopicsView from './components/TopicsView';
 
-const checkKey = () => !!process.env.API_KEY;
 
 type PermissionState = 'prompt' | 'granted' | 'denied' | 'error' | 'unknown';
 
 const App: React.FC = () => {
   const [activeView, setActiveView] = useState<ViewType>('timeline');
-  const [selectedDate, setSelectedDate] = useState(new Date().toISOString().split('T')[0]);
+  const [selectedDate, setSelectedDate] = useState(todayKey());
+  const [periodRequest, setPeriodRequest] = useState<{ kind: 'week' | 'month'; anchorDate: string }>({ kind: 'week', anchorDate: todayKey() });
+  const [topicRequest, setTopicRequest] = useState<string | null>(null);
   const [isRecording, setIsRecording] = useState(false);
   const [recordingSeconds, setRecordingSeconds] = useState(0);
   const [isProcessing, setIsProcessing] = useState(false);
   const [logs, setLogs] = useState<DailyLog[]>([]);
+  const [people, setPeople] = useState<Person[]>([]);
   const [currentLog, setCurrentLog] = useState<DailyLog | null>(null);
   const [offlineMode, setOfflineMode] = useState(false);
-  const [apiKeyMissing, setApiKeyMissing] = useState(false);
   const [micError, setMicError] = useState<string | null>(null);
   const [permissionStatus, setPermissionStatus] = useState<PermissionState>('unknown');
   const [diagInfo, setDiagInfo] = useState<string>('');
   
-  const mediaRecorderRef = useRef<MediaRecorder | null>(null);
+  const [settings, setSettings] = useState<AppSettings>(loadSettings);
+  const [pendingChunks, setPendingChunks] = useState(0); // Chunks still being analysed and stored
+  const [unfinishedSessions, setUnfinishedSessions] = useState<RecordingSession[]>([]);
+  const [jobs, setJobs] = useState<TranscriptionJob[]>([]);
+  const [timelineJump, setTimelineJump] = useState<TimelineJump | null>(null);
+  const [lastBookmark, setLastBookmark] = useState<{ id: string; at: number } | null>(null);
+  const [bookmarkLabel, setBookmarkLabel] = useState('');
+  
+  const mediaRecorderRef = useRef<ChunkedRecorder | null>(null);
+  const pipelineRef = useRef<Promise<void>>(Promise.resolve());
+  const offlineModeRef = useRef(offlineMode);
   const timerRef = useRef<number | null>(null);
   const streamRef = useRef<MediaStream | null>(null);
   const audioContextRef = useRef<AudioContext | null>(null);
+  const stopShortcutsRef = useRef<(() => void) | null>(null);
 
   useEffect(() => {
-    if (!checkKey()) setApiKeyMissing(true);
     loadData();
-    autoCleanupAndCompress();
+    // Picks up a run the last session didn't finish, or starts one with the saved rules
+    runRetention(settings.retention, { inBackground: true })
+      .then(report => { if (report.actions > 0) loadData(); })
+      .catch(e => console.error("Retention run failed", e));
+    // Logs saved before the search index existed
+    indexUnindexedLogs().catch(e => console.error("Search indexing failed", e));
     runDiagnostics();
+    // Nothing is recording yet, so any session still on disk was cut short by a crash
+    getUnfinishedSessions()
+      .then(setUnfinishedSessions)
+      .catch(e => console.error("Unfinished sessions could not be read", e));
     
     // Auto-check permissions on load
     initialPermissionCheck();
 
+    // Push the current slice to IndexedDB before the WebView gets backgrounded (and possibly killed)
+    const onVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') mediaRecorderRef.current?.flush();
+    };
+    document.addEventListener('visibilitychange', onVisibilityChange);
+
+    const worker = startTranscriptionWorker({
+      getContext: () => ({ offlineMode: offlineModeRef.current, audioContext: audioContextRef.current }),
+      onChange: () => { loadJobs(); loadData(); }
+    });
+
     return () => {
       if (timerRef.current) clearInterval(timerRef.current);
+      worker.stop();
+      document.removeEventListener('visibilitychange', onVisibilityChange);
       stopTracks();
+      stopShortcutsRef.current?.();
     };
   }, []);
 
+  useEffect(() => {
+    offlineModeRef.current = offlineMode;
+  }, [offlineMode]);
+
   useEffect(() => {
     const log = logs.find(l => l.date === selectedDate);
     setCurrentLog(log || null);
   }, [selectedDate, logs]);
 
+  // New or edited segments get their vectors here; unchanged ones are skipped cheaply
+  useEffect(() => {
+    if (logs.length > 0) syncEmbeddings(offlineMode);
+  }, [logs, offlineMode, settings.embedding]);
+
   const runDiagnostics = () => {
     const isWebView = /wv|Version\/[\d\.]+/.test(navigator.userAgent);
     const info = [
@@ -131,55 +197,16 @@ const App: React.FC = () => {
       streamRef.current = stream;
       setPermissionStatus('granted');
 
-      // Use a more standard mimeType for Android WebView
-      const mimeType = MediaRecorder.isTypeSupported('audio/webm') ? 'audio/webm' : 'audio/aac';
-      const recorder = new MediaRecorder(stream);
-      mediaRecorderRef.current = recorder;
-      
-      const chunks: Blob[] = [];
-      recorder.ondataavailable = (e) => { if (e.data.size > 0) chunks.push(e.data); };
-      
-      recorder.onstop = async () => {
-        const audioBlob = new Blob(chunks, { type: mimeType });
-        const audioId = `audio_${Date.now()}`;
-        await saveAudio(audioId, audioBlob);
-
-        setIsProcessing(true);
-        const reader = new FileReader();
-        reader.readAsDataURL(audioBlob);
-        reader.onloadend = async () => {
-          const base64 = (reader.result as string).split(',')[1];
-          const newSegments = await transcribeAudioChunk(base64, offlineMode, mimeType);
-          
-          const segmentsWithAudio = newSegments.map(s => ({ ...s, audioId }));
-          const today = new Date().toISOString().split('T')[0];
-          
-          const existing = await getLog(today);
-          let updatedLog: DailyLog;
-          
-          if (existing) {
-            updatedLog = {
-              ...existing,
-              transcripts: [...existing.transcripts, ...segmentsWithAudio],
-              recordingDurationMinutes: existing.recordingDurationMinutes + (recordingSeconds / 60)
-            };
-          } else {
-            updatedLog = {
-              date: today,
-              transcripts: segmentsWithAudio,
-              recordingDurationMinutes: recordingSeconds / 60
-            };
-          }
-          
-          await saveLog(updatedLog);
-          await loadData();
-          setIsProcessing(false);
-          setRecordingSeconds(0);
-        };
-      };
-
-      recorder.start();
+      mediaRecorderRef.current = createChunkedRecorder(stream, {
+        chunkSeconds: settings.continuousMode ? settings.chunkMinutes * 60 : null,
+        onSlice: (info, slice) => {
+          appendSessionSlice(info, slice).catch(err => console.error("Slice persist failed:", err));
+        },
+        onChunk: enqueueChunk
+      });
+
       setIsRecording(true);
+      stopShortcutsRef.current = startBookmarkShortcuts(handleBookmark);
       if (navigator.vibrate) navigator.vibrate(50);
       timerRef.current = window.setInterval(() => {
         setRecordingSeconds(s => s + 1);
@@ -199,28 +226,142 @@ const App: React.FC = () => {
     }
   };
 
+  // Decoding can fail on formats the WebView can't read back; the chunk is then kept whole
+  const analyseChunk = async (chunk: RecordedChunk): Promise<SpeechAnalysis | null> => {
+    try {
+      const context = audioContextRef.current || new OfflineAudioContext(1, 1, 44100);
+      return await analyseSpeech(chunk.blob, context);
+    } catch (e) {
+      console.warn("Speech analysis skipped:", e);
+      return null;
+    }
+  };
+
+  // Chunks are processed one at a time so concurrent log updates can't overwrite each other
+  const enqueueChunk = (chunk: RecordedChunk) => {
+    setPendingChunks(n => n + 1);
+    pipelineRef.current = pipelineRef.current
+      .then(() => processChunk(chunk))
+      .catch(err => console.error("Chunk processing failed:", err))
+      .finally(() => setPendingChunks(n => n - 1));
+  };
+
+  const processChunk = async (chunk: RecordedChunk) => {
+    const analysis = await analyseChunk(chunk);
+
+    // Nothing but silence: don't spend storage or an API call on it. Bookmarks pressed during it can
+    // still land on speech just before; otherwise they end up unmatched.
+    if (analysis && analysis.regions.length === 0) {
+      await deleteSession(chunk.id);
+      await attachBookmarks(chunk.startedAt, chunk.endedAt, currentTimeZone());
+      return;
+    }
+
+    // Once the audio and its job are stored, the in-progress session is no longer needed
+    const timeZone = currentTimeZone();
+    await saveAudio(chunk.id, chunk.blob, false, analysis?.regions);
+    await enqueueTranscription({
+      audioId: chunk.id,
+      date: localDateKey(chunk.startedAt, timeZone),
+      mimeType: chunk.mimeType,
+      recordedMinutes: (chunk.endedAt - chunk.startedAt) / 60000,
+      startedAt: chunk.startedAt,
+      timeZone
+    });
+    await deleteSession(chunk.id);
+  };
+
+  const recoverSessions = async () => {
+    const sessions = unfinishedSessions;
+    setUnfinishedSessions([]);
+    const allLogs = await getAllLogs();
+
+    for (const session of sessions) {
+      // A crash between saveLog and deleteSession leaves a session that is already attached
+      const alreadyAttached = allLogs.some(l => l.transcripts.some(t => t.audioId === session.id));
+      const blob = alreadyAttached ? null : await getSessionAudio(session);
+      if (!blob) {
+        await deleteSession(session.id);
+        continue;
+      }
+      enqueueChunk({ ...session, blob, endedAt: session.updatedAt });
+    }
+  };
+
+  const discardSessions = async () => {
+    if (!window.confirm(`Discard ${unfinishedSessions.length} unfinished recording(s)? This cannot be undone.`)) return;
+    await Promise.all(unfinishedSessions.map(s => deleteSession(s.id)));
+    setUnfinishedSessions([]);
+  };
+
   const stopRecording = () => {
-    if (mediaRecorderRef.current && mediaRecorderRef.current.state !== 'inactive') {
+    if (mediaRecorderRef.current) {
       mediaRecorderRef.current.stop();
+      mediaRecorderRef.current = null;
     }
     stopTracks();
+    stopShortcutsRef.current?.();
+    stopShortcutsRef.current = null;
     if (timerRef.current) clearInterval(timerRef.current);
     setIsRecording(false);
+    setLastBookmark(null);
+    setRecordingSeconds(0);
     if (navigator.vibrate) navigator.vibrate([30, 30]);
   };
 
+  // Also reached from the headset button and the recording notification (see bookmarks.ts)
+  const handleBookmark = async (at: number = Date.now()) => {
+    try {
+      const bookmark = await addBookmark(at);
+      setLastBookmark({ id: bookmark.id, at: bookmark.at });
+      setBookmarkLabel('');
+      if (navigator.vibrate) navigator.vibrate(20);
+    } catch (e) {
+      console.error("Bookmark could not be saved", e);
+    }
+  };
+
+  // The first on-screen press asks for notifications, which adds the Bookmark action to the recording notification
+  const handleBookmarkButton = async () => {
+    await handleBookmark();
+    if (!('Notification' in window) || Notification.permission !== 'default') return;
+    if (await Notification.requestPermission() === 'granted' && stopShortcutsRef.current) {
+      stopShortcutsRef.current();
+      stopShortcutsRef.current = startBookmarkShortcuts(handleBookmark);
+    }
+  };
+
+  const saveBookmarkLabel = () => {
+    if (!lastBookmark || !bookmarkLabel.trim()) return;
+    labelBookmark(lastBookmark.id, bookmarkLabel).catch(e => console.error("Bookmark label not saved", e));
+  };
+
+  const updateSettings = (next: AppSettings) => {
+    setSettings(next);
+    saveSettings(next);
+  };
+
   const loadData = async () => {
-    const allLogs = await getAllLogs();
+    const [allLogs, allPeople] = await Promise.all([getAllLogs(), getPeople()]);
     setLogs(allLogs);
+    setPeople(allPeople);
+  };
+
+  const loadJobs = async () => {
+    setJobs(await getJobs());
   };
 
   const handleSummarize = async () => {
     if (!currentLog || currentLog.transcripts.length === 0) return;
+    const { date, transcripts } = currentLog;
     setIsProcessing(true);
     try {
-      const summary = await generateDailySummary(currentLog.transcripts);
-      const updatedLog = { ...currentLog, summary };
-      await saveLog(updatedLog);
+      const summary = await generateDailySummary(transcripts, offlineMode);
+      const sentiment = await scoreSentiment(transcripts.map(s => s.text), offlineMode);
+      // Recording may have added segments to the day while the models ran; they are kept
+      await updateLog(date, log => tagSegments({ ...applySentiment(log, transcripts, sentiment), summary }));
+      const updatedLog = await getLog(date);
+      if (updatedLog) await promoteActionItems(updatedLog);
       await loadData();
     } catch (error) {
       console.error(error);
@@ -232,13 +373,75 @@ const App: React.FC = () => {
   const handleDelete = async () => {
     if (!currentLog) return;
     if (window.confirm(`Delete data for ${currentLog.date}?`)) {
-      const audioIds = currentLog.transcripts.map(t => t.audioId).filter((id): id is string => !!id);
+      // A recording that runs past midnight is on the next day too, which still needs it
+      const elsewhere = new Set((await getAllLogs())
+        .filter(log => log.date !== currentLog.date)
+        .flatMap(log => log.transcripts.map(t => t.audioId)));
+      const audioIds = currentLog.transcripts
+        .map(t => t.audioId)
+        .filter((id, i, all): id is string => !!id && all.indexOf(id) === i && !elsewhere.has(id));
       await deleteDayData(currentLog.date, audioIds);
       await loadData();
       setCurrentLog(null);
     }
   };
 
+  const handleSpeakerChange = async (segment: ConversationSegment, name: string | null, scope: AssignScope) => {
+    if (!currentLog) return;
+    const ids = scopeSegmentIds(currentLog, segment, scope);
+    if (name === null) await resetSpeaker(currentLog.date, ids);
+    else await assignSpeaker(currentLog.date, ids, name);
+    await loadData();
+  };
+
+  const handleSegmentEdit = async (edit: SegmentEdit) => {
+    if (!currentLog) return;
+    if (edit.kind === 'delete') {
+      const segment = currentLog.transcripts.find(s => s.id === edit.segmentId);
+      if (!segment || !window.confirm("Delete this segment?")) return;
+      const audioShared = !segment.audioId || logs.some(l => l.transcripts.some(s => s.audioId === segment.audioId && s.id !== segment.id));
+      const removeAudio = !audioShared && window.confirm("No other segment uses this recording. Delete the audio too?");
+      await deleteSegment(currentLog.date, segment, removeAudio);
+    } else {
+      await editSegment(currentLog.date, edit);
+    }
+    await loadData();
+  };
+
+  const handleTopicsChange = async (segment: ConversationSegment, topics: SegmentTopic[]) => {
+    if (!currentLog) return;
+    await setSegmentTopics(currentLog.date, segment.id, topics);
+    await loadData();
+  };
+
+  const handleToggleStar = async () => {
+    if (!currentLog) return;
+    await setDayStarred(currentLog.date, !currentLog.starred);
+    await loadData();
+  };
+
+  const knownTopics = useMemo(() => [...new Set(topicLabels(allTopicNames(logs)).values())].sort(), [logs]);
+
+  const openDay = (date: string) => {
+    setSelectedDate(date);
+    setActiveView('timeline');
+  };
+
+  const openTopic = (topic: string | null) => {
+    setTopicRequest(topic);
+    setActiveView('topics');
+  };
+
+  const openSegment = (date: string, segmentId: string, play = true) => {
+    setSelectedDate(date);
+    setActiveView('timeline');
+    setTimelineJump({ segmentId, play });
+  };
+
+  const apiKeyMissing = settings.transcription.provider === 'gemini' && !hasGeminiKey(settings.transcription.apiKey);
+  const failedJobs = jobs.filter(j => j.status === 'failed');
+  const transcribingSelectedDay = jobs.some(j => j.date === selectedDate && (j.status === 'pending' || j.status === 'running'));
+
   return (
     <div className="min-h-screen bg-[#020d0a] text-emerald-50 font-sans selection:bg-emerald-500/30 overflow-x-hidden pb-12">
       
@@ -257,6 +460,19 @@ const App: React.FC = () => {
           </div>
         )}
 
+        {unfinishedSessions.length > 0 && (
+          <div className="bg-amber-500 text-slate-950 px-4 py-3 flex items-center justify-between gap-3 shadow-2xl pointer-events-auto">
+            <span className="text-[10px] font-black uppercase leading-tight">
+              {unfinishedSessions.length} unfinished recording{unfinishedSessions.length > 1 ? 's' : ''} found
+              <span className="opacity-60"> • {Math.round(unfinishedSessions.reduce((sum, s) => sum + (s.updatedAt - s.startedAt), 0) / 60000)} min</span>
+            </span>
+            <div className="flex gap-2">
+              <button onClick={discardSessions} className="px-3 py-1.5 rounded-xl text-[9px] font-black uppercase border border-slate-950/30">Discard</button>
+              <button onClick={recoverSessions} className="bg-slate-950 text-amber-400 px-4 py-1.5 rounded-xl text-[9px] font-black uppercase">Recover & Transcribe</button>
+            </div>
+          </div>
+        )}
+
         {micError && (
           <div className="bg-rose-600 text-white px-4 py-3 flex items-start gap-3 shadow-2xl pointer-events-auto">
             <i className="fas fa-microchip mt-1 text-xs"></i>
@@ -268,6 +484,30 @@ const App: React.FC = () => {
         )}
       </div>
 
+      {isRecording && (
+        <div className="fixed bottom-32 left-0 right-0 z-50 px-6">
+          <div className="max-w-xl mx-auto flex items-center justify-center gap-2">
+            <button
+              onClick={handleBookmarkButton}
+              title="Flag this moment"
+              className="shrink-0 px-4 py-2.5 bg-amber-400 text-slate-950 rounded-2xl text-[10px] font-black uppercase tracking-widest shadow-xl shadow-amber-400/20"
+            >
+              <i className="fas fa-bookmark mr-2"></i>Bookmark
+            </button>
+            {lastBookmark && (
+              <input
+                value={bookmarkLabel}
+                onChange={(e) => setBookmarkLabel(e.target.value)}
+                onBlur={saveBookmarkLabel}
+                onKeyDown={(e) => e.key === 'Enter' && (e.target as HTMLInputElement).blur()}
+                placeholder={`Label for ${new Date(lastBookmark.at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' })} (optional)`}
+                className="flex-1 min-w-0 glass-effect border border-amber-400/20 rounded-2xl px-4 py-2.5 text-xs text-emerald-50 placeholder:text-emerald-800 focus:outline-none focus:border-amber-400/50"
+              />
+            )}
+          </div>
+        </div>
+      )}
+
       <nav className="fixed bottom-0 left-0 right-0 z-50 px-6 pb-8 pt-4 bg-gradient-to-t from-[#020d0a] via-[#020d0a]/90 to-transparent">
         <div className="max-w-xl mx-auto glass-effect rounded-[32px] p-2 flex items-center justify-between border border-emerald-500/10 shadow-2xl">
           <NavBtn icon="fa-stream" active={activeView === 'timeline'} onClick={() => setActiveView('timeline')} />
@@ -291,18 +531,42 @@ const App: React.FC = () => {
             <h1 className="text-xl font-black tracking-tighter text-emerald-50 leading-none">DAYTRACK</h1>
             <p className="text-[8px] font-black text-emerald-800 uppercase tracking-[0.2em] mt-2 opacity-60">{diagInfo}</p>
           </div>
-          {isRecording && (
-            <div className="flex items-center gap-2 text-rose-500 animate-pulse bg-rose-500/10 px-3 py-1 rounded-full border border-rose-500/20">
-               <span className="text-[10px] font-mono font-black">{Math.floor(recordingSeconds/60)}:{(recordingSeconds%60).toString().padStart(2, '0')}</span>
-            </div>
-          )}
+          <div className="flex items-center gap-2">
+            {isRecording && (
+              <div className="flex items-center gap-2 text-rose-500 animate-pulse bg-rose-500/10 px-3 py-1 rounded-full border border-rose-500/20">
+                 <span className="text-[10px] font-mono font-black">{Math.floor(recordingSeconds/60)}:{(recordingSeconds%60).toString().padStart(2, '0')}</span>
+                 {settings.continuousMode && <span className="text-[8px] font-black uppercase tracking-widest opacity-60">{settings.chunkMinutes}m chunks</span>}
+              </div>
+            )}
+            {failedJobs.length > 0 && (
+              <button 
+                onClick={() => setActiveView('queue')}
+                className="flex items-center gap-1.5 bg-rose-500/10 text-rose-400 border border-rose-500/20 px-3 py-1.5 rounded-full text-[9px] font-black uppercase tracking-widest"
+              >
+                <i className="fas fa-triangle-exclamation"></i> {failedJobs.length} failed
+              </button>
+            )}
+            <NavBtn icon="fa-chart-line" active={activeView === 'insights'} onClick={() => setActiveView('insights')} />
+            <NavBtn icon="fa-list-check" active={activeView === 'tasks'} onClick={() => setActiveView('tasks')} />
+            <NavBtn icon="fa-hashtag" active={activeView === 'topics'} onClick={() => openTopic(null)} />
+            <NavBtn icon="fa-user-group" active={activeView === 'people'} onClick={() => setActiveView('people')} />
+            <NavBtn icon="fa-comments" active={activeView === 'ask'} onClick={() => setActiveView('ask')} />
+            <NavBtn icon="fa-sliders" active={activeView === 'settings'} onClick={() => setActiveView('settings')} />
+          </div>
         </header>
 
-        {activeView === 'timeline' && <Timeline log={currentLog} onSummarize={handleSummarize} onDelete={handleDelete} isProcessing={isProcessing} isViewingPast={selectedDate !== new Date().toISOString().split('T')[0]} />}
-        {activeView === 'calendar' && <CalendarView logs={logs} selectedDate={selectedDate} onSelectDate={(d) => { setSelectedDate(d); setActiveView('timeline'); }} />}
-        {activeView === 'summary' && <SummaryView summary={currentLog?.summary} />}
-        {activeView === 'search' && <SearchView logs={logs} />}
-        {activeView === 'settings' && <ModelManager offlineMode={offlineMode} setOfflineMode={setOfflineMode} initialModels={[]} onStatusChange={() => {}} />}
+        {activeView === 'timeline' && <Timeline log={currentLog} jumpTo={timelineJump} onJumpHandled={() => setTimelineJump(null)} onSummarize={handleSummarize} onDelete={handleDelete} onToggleStar={handleToggleStar} people={people} onSpeakerChange={handleSpeakerChange} onSegmentEdit={handleSegmentEdit} knownTopics={knownTopics} onTopicsChange={handleTopicsChange} onOpenTopic={openTopic} isProcessing={isProcessing || pendingChunks > 0 || transcribingSelectedDay} isViewingPast={selectedDate !== todayKey()} />}
+        {activeView === 'calendar' && <CalendarView logs={logs} selectedDate={selectedDate} onSelectDate={openDay} onOpenPeriod={(kind, anchorDate) => { setPeriodRequest({ kind, anchorDate }); setActiveView('period'); }} />}
+        {activeView === 'period' && <PeriodView key={`${periodRequest.kind}-${periodRequest.anchorDate}`} logs={logs} offlineMode={offlineMode} initialKind={periodRequest.kind} anchorDate={periodRequest.anchorDate} onSelectDate={openDay} />}
+        {activeView === 'summary' && <SummaryView summary={currentLog?.summary} onOpenTopic={openTopic} />}
+        {activeView === 'search' && <SearchView logs={logs} offlineMode={offlineMode} onOpenSegment={openSegment} />}
+        {activeView === 'people' && <PeopleView logs={logs} people={people} onOpenSegment={openSegment} onChanged={loadData} />}
+        {activeView === 'insights' && <InsightsView logs={logs} onSelectDate={openDay} onOpenTopic={openTopic} />}
+        {activeView === 'topics' && <TopicsView key={topicRequest || ''} logs={logs} initialTopic={topicRequest} onOpenSegment={openSegment} onSelectDate={openDay} />}
+        {activeView === 'tasks' && <TasksView onOpenSegment={openSegment} onSelectDate={openDay} />}
+        {activeView === 'ask' && <AskView offlineMode={offlineMode} onOpenSegment={openSegment} />}
+        {activeView === 'queue' && <JobQueueView jobs={jobs} onChange={loadJobs} />}
+        {activeView === 'settings' && <ModelManager offlineMode={offlineMode} setOfflineMode={setOfflineMode} settings={settings} onSettingsChange={updateSettings} onDataChanged={() => { loadData(); loadJobs(); }} isRecording={isRecording} />}
       </main>
     </div>
   );
@@ -0,0 +1,110 @@
+import { ConversationSegment, DailySummary, ProviderConfig, SegmentSentiment } from "./types";
+import { PROVIDERS, hasGeminiKey, AnswerRequest, PeriodDay, PeriodNarrative } from "./providers";
+import { TranscriptionError } from "./providers/errors";
+import { loadSettings } from "./settings";
+import { normalizeSegments, normalizeSummary, normalizePeriodNarrative, normalizeSentimentReadings } from "./validation";
+import { lexiconSentiment } from "./sentiment";
+
+export { TranscriptionError } from "./providers";
+
+const MOCK_CONFIG: ProviderConfig = { provider: 'mock', model: 'mock' };
+
+// Offline mode runs the installed on-device model, or the mock when there is none.
+// A Gemini task without a key can't run; it falls back to the mock like the original demo mode did.
+const resolveConfig = (config: ProviderConfig, offlineMode: boolean, localModelId?: string): ProviderConfig => {
+  if (offlineMode) return localModelId ? { provider: 'local', model: localModelId } : MOCK_CONFIG;
+  if (config.provider === 'local') return { provider: 'local', model: localModelId || '' };
+  if (config.provider === 'gemini' && !hasGeminiKey(config.apiKey)) {
+    console.warn("API_KEY missing. Falling back to mock data.");
+    return MOCK_CONFIG;
+  }
+  return config;
+};
+
+export const transcribeAudioChunk = async (
+  audio: Blob, 
+  offlineMode: boolean = false, 
+  mimeType: string = "audio/webm"
+): Promise<ConversationSegment[]> => {
+  const settings = loadSettings();
+  const config = resolveConfig(settings.transcription, offlineMode, settings.localModelId);
+  const raw: unknown = await PROVIDERS[config.provider].transcribe({ audio, mimeType }, config);
+  if (!Array.isArray(raw)) throw new TranscriptionError('invalid_response', "Model did not return a segment array");
+  // Silence legitimately yields nothing, but segments that all turn out unusable mean the response was garbage
+  const segments = normalizeSegments(raw);
+  if (raw.length > 0 && segments.length === 0) {
+    throw new TranscriptionError('invalid_response', "Model returned segments without any usable text");
+  }
+  return segments;
+};
+
+// Vectors from different models can't be compared, so each stored vector records the model that made it
+export const embeddingModelKey = (config: ProviderConfig) => `${config.provider}:${config.model}`;
+
+// Null when semantic search can't run right now. Unlike transcription there is no mock fallback:
+// switching models would mean re-embedding every segment, so it's better to wait for the real one.
+export const resolveEmbeddingConfig = (offlineMode: boolean): ProviderConfig | null => {
+  const config = loadSettings().embedding;
+  if (offlineMode && config.provider !== 'local' && config.provider !== 'mock') return null;
+  if (config.provider === 'gemini' && !hasGeminiKey(config.apiKey)) return null;
+  return config;
+};
+
+export const embedTexts = (texts: string[], config: ProviderConfig): Promise<number[][]> =>
+  PROVIDERS[config.provider].embed(texts, config);
+
+// Uses the summary model with the mock as fallback, like the other summary-model tasks
+export const generateDailySummary = async (transcripts: ConversationSegment[], offlineMode: boolean = false): Promise<DailySummary> => {
+  const settings = loadSettings();
+  const config = resolveConfig(settings.summary, offlineMode, settings.localModelId);
+  try {
+    return normalizeSummary(await PROVIDERS[config.provider].summarize(transcripts, config));
+  } catch (error) {
+    console.error("Summary generation failed:", error);
+    return { overview: "Summary generation failed.", keyEvents: [], actionItems: [], mood: "N/A", topics: [] };
+  }
+};
+
+// Uses the summary model with the mock as fallback. Unlike the daily summary a failure is thrown, since a
+// stored period summary replaces the previous one for the same range.
+export const generatePeriodNarrative = async (days: PeriodDay[], offlineMode: boolean = false): Promise<PeriodNarrative> => {
+  const settings = loadSettings();
+  const config = resolveConfig(settings.summary, offlineMode, settings.localModelId);
+  return normalizePeriodNarrative(await PROVIDERS[config.provider].summarizePeriod(days, config));
+};
+
+const SENTIMENT_BATCH_SIZE = 40;
+const SENTIMENT_MAX_CHARS = 600;
+
+// Uses the summary model, in batches. Every text gets a score: whatever the model skips, or a batch that
+// fails, is scored by the lexicon. The mock and on-device providers use the lexicon themselves.
+export const scoreSentiment = async (texts: string[], offlineMode: boolean = false): Promise<SegmentSentiment[]> => {
+  const settings = loadSettings();
+  const config = resolveConfig(settings.summary, offlineMode, settings.localModelId);
+  const source = config.provider === 'mock' || config.provider === 'local' ? 'lexicon' : 'model';
+  const scores: SegmentSentiment[] = [];
+  for (let start = 0; start < texts.length; start += SENTIMENT_BATCH_SIZE) {
+    const batch = texts.slice(start, start + SENTIMENT_BATCH_SIZE);
+    let readings: ReturnType<typeof normalizeSentimentReadings> = [];
+    try {
+      const raw = await PROVIDERS[config.provider].scoreSentiment(batch.map(text => text.slice(0, SENTIMENT_MAX_CHARS)), config);
+      readings = normalizeSentimentReadings(raw, batch.length);
+    } catch (error) {
+      console.warn("Sentiment scoring failed, using the lexicon:", error);
+    }
+    batch.forEach((text, i) => {
+      const reading = readings[i];
+      scores.push(reading
+        ? { score: reading.score, source, ...(reading.emotion ? { emotion: reading.emotion } : {}) }
+        : lexiconSentiment(text));
+    });
+  }
+  return scores;
+};
+
+// Uses the summary model; like transcription it falls back to the extractive mock when that can't run
+export const answerQuestion = async (request: AnswerRequest, offlineMode: boolean = false): Promise<string> => {
+  const settings = loadSettings();
+  const config = resolveConfig(settings.summary, offlineMode, settings.localModelId);
+  return PROVIDERS[config.provider].answer(request, config);
+};
@@ -0,0 +1,157 @@
+import { createOpusWebm, readOpusWebm, OpusPacket } from './webm';
+
+// Re-encodes old recordings for the archive: decoded, mixed down to mono and encoded again as
+// low-bitrate Opus in WebM. Speech stays clear at this rate and a recording shrinks several times over,
+// where gzip over the recorder's Opus saved next to nothing. The result is still plain audio/webm, so
+// playback, VAD and re-transcription read it like any other recording.
+
+// Wideband speech; Opus is transparent for voice well below music bitrates
+const ARCHIVE_BITRATE = 16000;
+// Rates the WebCodecs Opus encoder is asked for, lowest first; 48 kHz is always accepted
+const ENCODER_RATES = [16000, 48000];
+const FEED_SECONDS = 1;
+const RECORDER_TYPE = 'audio/webm;codecs=opus';
+
+const hasWebCodecs = () => typeof AudioEncoder !== 'undefined' && typeof AudioData !== 'undefined';
+const hasRecorder = () => typeof MediaRecorder !== 'undefined' && MediaRecorder.isTypeSupported(RECORDER_TYPE);
+
+// Whether this browser can re-encode; without it the retention job leaves old audio as it is. The
+// recorder fallback plays each recording through in real time, so it is kept out of background runs.
+export const canArchiveAudio = (inBackground = false) =>
+  typeof OfflineAudioContext !== 'undefined' && (hasWebCodecs() || (!inBackground && hasRecorder()));
+
+const decodeMono = async (blob: Blob, sampleRate: number): Promise<Float32Array> => {
+  // decodeAudioData resamples to the context's rate
+  const buffer = await new OfflineAudioContext(1, 1, sampleRate).decodeAudioData(await blob.arrayBuffer());
+  const mono = new Float32Array(buffer.length);
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const data = buffer.getChannelData(c);
+    for (let i = 0; i < data.length; i++) mono[i] += data[i] / buffer.numberOfChannels;
+  }
+  return mono;
+};
+
+const encoderConfig = (sampleRate: number): AudioEncoderConfig => ({
+  codec: 'opus',
+  sampleRate,
+  numberOfChannels: 1,
+  bitrate: ARCHIVE_BITRATE,
+  bitrateMode: 'variable',
+  opus: { format: 'opus', frameDuration: 20000 }
+});
+
+const supportedRate = async (): Promise<number | null> => {
+  for (const rate of ENCODER_RATES) {
+    try {
+      if ((await AudioEncoder.isConfigSupported(encoderConfig(rate))).supported) return rate;
+    } catch {
+      // Not this one
+    }
+  }
+  return null;
+};
+
+// Runs faster than real time and muxes itself (see webm.ts)
+const encodeWithWebCodecs = async (blob: Blob, sampleRate: number): Promise<Blob> => {
+  const samples = await decodeMono(blob, sampleRate);
+  const packets: OpusPacket[] = [];
+  let codecPrivate: Uint8Array | undefined;
+  let failure: DOMException | null = null;
+
+  const encoder = new AudioEncoder({
+    output: (chunk, metadata) => {
+      const data = new Uint8Array(chunk.byteLength);
+      chunk.copyTo(data);
+      packets.push({ data, timestamp: chunk.timestamp });
+      const description = metadata?.decoderConfig?.description;
+      if (description && !codecPrivate) {
+        codecPrivate = description instanceof ArrayBuffer
+          ? new Uint8Array(description.slice(0))
+          : new Uint8Array(description.buffer.slice(description.byteOffset, description.byteOffset + description.byteLength));
+      }
+    },
+    error: (e) => { failure = e; }
+  });
+  try {
+    encoder.configure(encoderConfig(sampleRate));
+    const step = sampleRate * FEED_SECONDS;
+    for (let start = 0; start < samples.length; start += step) {
+      const frame = samples.slice(start, start + step);
+      const data = new AudioData({
+        format: 'f32-planar',
+        sampleRate,
+        numberOfChannels: 1,
+        numberOfFrames: frame.length,
+        timestamp: Math.round(start / sampleRate * 1e6),
+        data: frame
+      });
+      encoder.encode(data);
+      data.close();
+    }
+    await encoder.flush();
+  } finally {
+    if (encoder.state !== 'closed') encoder.close();
+  }
+  if (failure) throw failure;
+  if (packets.length === 0) throw new Error("The encoder produced no audio");
+
+  return createOpusWebm(packets, {
+    channels: 1,
+    inputSampleRate: sampleRate,
+    codecPrivate,
+    durationMs: samples.length / sampleRate * 1000
+  });
+};
+
+// The fallback plays the decoded audio into a MediaRecorder, so it takes as long as the recording lasts.
+// It needs a running AudioContext, which browsers only allow after the user has interacted with the page.
+// The recorder's file has no duration or cues, so its packets are written again (see webm.ts).
+const encodeWithRecorder = async (blob: Blob): Promise<Blob> => {
+  const context = new AudioContext();
+  try {
+    if (context.state !== 'running') await Promise.race([context.resume(), new Promise(resolve => setTimeout(resolve, 1000))]);
+    if (context.state !== 'running') throw new Error("Audio playback is blocked until the page is interacted with");
+
+    const samples = await decodeMono(blob, context.sampleRate);
+    const buffer = context.createBuffer(1, Math.max(1, samples.length), context.sampleRate);
+    buffer.copyToChannel(samples, 0);
+    const source = context.createBufferSource();
+    source.buffer = buffer;
+    const destination = context.createMediaStreamDestination();
+    destination.channelCount = 1;
+    source.connect(destination);
+
+    const recorder = new MediaRecorder(destination.stream, { mimeType: RECORDER_TYPE, audioBitsPerSecond: ARCHIVE_BITRATE });
+    const parts: Blob[] = [];
+    recorder.ondataavailable = (event) => { if (event.data.size > 0) parts.push(event.data); };
+    const stopped = new Promise<void>((resolve, reject) => {
+      recorder.onstop = () => resolve();
+      recorder.onerror = (event) => reject(event.error || new Error("Recording failed"));
+    });
+    source.onended = () => { if (recorder.state !== 'inactive') recorder.stop(); };
+    recorder.start();
+    source.start();
+    await stopped;
+
+    const { packets, codecPrivate } = readOpusWebm(new Uint8Array(await new Blob(parts).arrayBuffer()));
+    if (packets.length === 0) throw new Error("The recorder produced no audio");
+    return createOpusWebm(packets, {
+      channels: codecPrivate && codecPrivate.length >= 19 ? codecPrivate[9] : 1,
+      inputSampleRate: context.sampleRate,
+      codecPrivate,
+      durationMs: samples.length / context.sampleRate * 1000
+    });
+  } finally {
+    context.close().catch(() => {});
+  }
+};
+
+// Throws when no pipeline works here (in the background, none but WebCodecs); callers keep the original then
+export const encodeArchiveAudio = async (blob: Blob, inBackground = false): Promise<Blob> => {
+  if (hasWebCodecs()) {
+    const rate = await supportedRate();
+    if (rate) return encodeWithWebCodecs(blob, rate);
+  }
+  if (!inBackground && hasRecorder()) return encodeWithRecorder(blob);
+  throw new Error("No Opus encoder available in this browser");
+};
@@ -0,0 +1,90 @@
+import { ChatMessage, Citation, DailyLog } from './types';
+import { getLog, saveChatMessage } from './db';
+import { runSearch } from './search';
+import { answerQuestion } from './aiService';
+import { addDays, periodRange, shiftPeriod } from './periods';
+
+// "Ask my days": retrieve the segments most relevant to a question across all logs (keywords and
+// meaning), hand them to the LLM as numbered excerpts and keep the numbering as citations.
+
+const MAX_SOURCES = 12;
+const MAX_EXCERPT_CHARS = 600;
+const HISTORY_MESSAGES = 6;
+
+const pad = (n: number) => n.toString().padStart(2, '0');
+const localDate = (d: Date) => `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+
+const previous = (kind: 'week' | 'month', today: string): [string, string] => {
+  const { from, to } = shiftPeriod(kind, periodRange(kind, today), -1);
+  return [from, to];
+};
+
+// Relative periods become a date: filter, so "last week" restricts the search instead of matching the word "week".
+// Weeks and months are the ones the period summaries use.
+const RELATIVE_PERIODS: { pattern: RegExp; range: (today: string) => [string, string] }[] = [
+  { pattern: /\btoday\b/i, range: today => [today, today] },
+  { pattern: /\byesterday\b/i, range: today => [addDays(today, -1), addDays(today, -1)] },
+  { pattern: /\bthis week\b/i, range: today => [periodRange('week', today).from, today] },
+  { pattern: /\blast week\b/i, range: today => previous('week', today) },
+  { pattern: /\bthis month\b/i, range: today => [periodRange('month', today).from, today] },
+  { pattern: /\blast month\b/i, range: today => previous('month', today) }
+];
+
+export const dateRangeFor = (question: string, today: Date): [string, string] | null => {
+  const period = RELATIVE_PERIODS.find(p => p.pattern.test(question));
+  return period ? period.range(localDate(today)) : null;
+};
+
+export const createMessage = (role: ChatMessage['role'], text: string): ChatMessage => ({
+  id: `msg_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 6)}`,
+  role,
+  text,
+  createdAt: Date.now()
+});
+
+const retrieve = async (question: string, offlineMode: boolean): Promise<Citation[]> => {
+  const range = dateRangeFor(question, new Date());
+  const query = range ? `${question} date:${range[0]}..${range[1]}` : question;
+  const { hits } = await runSearch(query, { semantic: true, offlineMode, matchAny: true });
+
+  const logs = new Map<string, DailyLog | null>();
+  const citations: Citation[] = [];
+  for (const hit of hits.slice(0, MAX_SOURCES)) {
+    if (!logs.has(hit.date)) logs.set(hit.date, await getLog(hit.date));
+    const segment = logs.get(hit.date)?.transcripts.find(s => s.id === hit.segmentId);
+    if (!segment) continue;
+    citations.push({
+      date: hit.date,
+      segmentId: segment.id,
+      startTime: segment.startTime,
+      speaker: segment.speaker,
+      excerpt: segment.text.length > MAX_EXCERPT_CHARS ? `${segment.text.slice(0, MAX_EXCERPT_CHARS)}…` : segment.text
+    });
+  }
+  // Chronological order reads better in the prompt and in the citation list
+  return citations.sort((a, b) => a.date.localeCompare(b.date) || a.startTime.localeCompare(b.startTime));
+};
+
+// Persists the question and the reply. Never throws: a failure comes back as a failed assistant message.
+export const askQuestion = async (question: ChatMessage, history: ChatMessage[], offlineMode: boolean): Promise<ChatMessage> => {
+  await saveChatMessage(question);
+  let reply: ChatMessage;
+  try {
+    const citations = await retrieve(question.text, offlineMode);
+    const text = await answerQuestion({
+      question: question.text,
+      sources: citations.map(c => ({ date: c.date, startTime: c.startTime, speaker: c.speaker, text: c.excerpt })),
+      history: history.filter(m => !m.failed).slice(-HISTORY_MESSAGES).map(m => ({ role: m.role, text: m.text }))
+    }, offlineMode);
+    reply = { ...createMessage('assistant', text || "No answer was returned."), citations };
+  } catch (e) {
+    console.error("Ask failed", e);
+    reply = { ...createMessage('assistant', e instanceof Error ? e.message : String(e)), failed: true };
+  }
+  await saveChatMessage(reply);
+  return reply;
+};
+
+// Numbers the assistant actually cited, in order of first appearance
+export const citedNumbers = (text: string): number[] =>
+  [...new Set([...text.matchAll(/\[(\d+)\]/g)].map(m => Number(m[1])))];
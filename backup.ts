@@ -0,0 +1,273 @@
+import { DailyLog, StoredAudio, SpeechRegion, Person, Task, PeriodSummary, Bookmark, RetentionPolicy, RetentionRun } from './types';
+import {
+  DB_VERSION, getAllLogs, getLog, saveLog, getAllStoredAudio, putStoredAudio, wipeAllData, getPeople, savePerson, getTasks, saveTask,
+  getPeriodSummaries, savePeriodSummary, getBookmarks, saveBookmark, getRetentionRun, saveRetentionRun
+} from './db';
+import { createZip, readZip, crc32OfBlob, ZipReadEntry } from './zip';
+import { ExportFile } from './exporters';
+import { normalizeLog } from './validation';
+import { DEFAULT_SETTINGS, loadSettings } from './settings';
+
+// A backup is a stored-only zip:
+//   manifest.json   format, schema version, and one entry per audio file with its stored flags
+//   logs.json       every daily_logs record
+//   people.json     the people registry (absent in backups made before it existed)
+//   tasks.json      tracked action items (likewise optional)
+//   periods.json    week and month summaries (likewise optional)
+//   bookmarks.json  bookmark presses, attached or not (likewise optional)
+//   retention.json  the retention rules and the run in progress, if any (likewise optional)
+//   audio/<n>.bin   each audio_files blob exactly as stored (still gzip-compressed if it was)
+// Search index and embeddings are derived data and get rebuilt after a restore.
+// Everything is written opened, even with the vault on; BackupPanel warns before it does that.
+
+export const BACKUP_FORMAT = 'daytrack-backup';
+const MANIFEST_FILE = 'manifest.json';
+const LOGS_FILE = 'logs.json';
+const PEOPLE_FILE = 'people.json';
+const TASKS_FILE = 'tasks.json';
+const PERIODS_FILE = 'periods.json';
+const BOOKMARKS_FILE = 'bookmarks.json';
+const RETENTION_FILE = 'retention.json';
+
+interface BackupAudioEntry {
+  id: string;
+  file: string;
+  size: number;
+  mimeType: string;
+  compressed: boolean;
+  archived?: boolean;
+  timestamp: number;
+  speechRegions?: SpeechRegion[];
+}
+
+export interface BackupManifest {
+  format: typeof BACKUP_FORMAT;
+  schemaVersion: number; // DB_VERSION of the app that wrote it
+  createdAt: string;
+  logCount: number;
+  audio: BackupAudioEntry[];
+}
+
+export type RestoreMode = 'merge' | 'replace';
+
+export interface RestoreSummary {
+  logs: number;
+  audio: number;
+  skippedAudio: number; // Merge mode keeps audio already on the device
+  retention?: RetentionPolicy; // Rules to adopt; only a replace brings them back, and settings are the caller's
+}
+
+interface BackupRetention {
+  policy: RetentionPolicy;
+  run: RetentionRun | null;
+}
+
+export type BackupProgress = (done: number, total: number) => void;
+
+export const createBackup = async (onProgress?: BackupProgress): Promise<ExportFile> => {
+  const [logs, audio, people, tasks, periods, bookmarks, run] = await Promise.all([
+    getAllLogs(), getAllStoredAudio(), getPeople(), getTasks(), getPeriodSummaries(), getBookmarks(), getRetentionRun()
+  ]);
+  const retention: BackupRetention = { policy: loadSettings().retention, run };
+  const audioEntries: BackupAudioEntry[] = audio.map(({ id, record }, i) => ({
+    id,
+    file: `audio/${i}.bin`,
+    size: record.blob.size,
+    mimeType: record.blob.type,
+    compressed: !!record.compressed,
+    archived: !!record.archived,
+    timestamp: record.timestamp,
+    speechRegions: record.speechRegions
+  }));
+  const manifest: BackupManifest = {
+    format: BACKUP_FORMAT,
+    schemaVersion: DB_VERSION,
+    createdAt: new Date().toISOString(),
+    logCount: logs.length,
+    audio: audioEntries
+  };
+
+  onProgress?.(0, 1);
+  const blob = await createZip([
+    { name: MANIFEST_FILE, data: JSON.stringify(manifest, null, 2) },
+    { name: LOGS_FILE, data: JSON.stringify(logs) },
+    { name: PEOPLE_FILE, data: JSON.stringify(people) },
+    { name: TASKS_FILE, data: JSON.stringify(tasks) },
+    { name: PERIODS_FILE, data: JSON.stringify(periods) },
+    { name: BOOKMARKS_FILE, data: JSON.stringify(bookmarks) },
+    { name: RETENTION_FILE, data: JSON.stringify(retention) },
+    ...audio.map(({ record }, i) => ({ name: audioEntries[i].file, data: record.blob, modifiedAt: new Date(record.timestamp) }))
+  ]);
+  onProgress?.(1, 1);
+
+  const stamp = new Date().toISOString().slice(0, 10);
+  return { blob, filename: `daytrack_backup_${stamp}.zip` };
+};
+
+const readJson = async (entries: Map<string, ZipReadEntry>, name: string) => {
+  const entry = entries.get(name);
+  if (!entry) throw new Error(`Backup is missing ${name}`);
+  try {
+    return JSON.parse(await entry.data.text());
+  } catch (e) {
+    throw new Error(`${name} is not valid JSON`);
+  }
+};
+
+// Checks everything before anything is written, so a bad file can't leave a half-restored database
+export const readBackup = async (file: Blob, onProgress?: BackupProgress) => {
+  let entries: Map<string, ZipReadEntry>;
+  try {
+    entries = await readZip(file);
+  } catch (e) {
+    throw new Error(`Not a DayTrack backup: ${e instanceof Error ? e.message : e}`);
+  }
+
+  const manifest: BackupManifest = await readJson(entries, MANIFEST_FILE);
+  if (manifest?.format !== BACKUP_FORMAT || !Array.isArray(manifest.audio)) throw new Error("Not a DayTrack backup");
+  if (!Number.isInteger(manifest.schemaVersion) || manifest.schemaVersion > DB_VERSION) {
+    throw new Error(`Backup was made by a newer version of DayTrack (schema ${manifest.schemaVersion}, this app supports ${DB_VERSION})`);
+  }
+
+  const rawLogs = await readJson(entries, LOGS_FILE);
+  if (!Array.isArray(rawLogs)) throw new Error(`${LOGS_FILE} is not a list of logs`);
+  // Fixable problems (string numbers, missing or repeated segment ids) are fixed; a log without a date isn't
+  const logs = rawLogs.map(normalizeLog);
+  const invalid = logs.filter(log => log === null);
+  if (invalid.length > 0) throw new Error(`${invalid.length} log(s) in the backup are malformed`);
+  if (logs.length !== manifest.logCount) throw new Error(`Manifest lists ${manifest.logCount} logs but ${logs.length} were found`);
+
+  const people = entries.has(PEOPLE_FILE) ? await readJson(entries, PEOPLE_FILE) : [];
+  if (!Array.isArray(people) || !people.every((p: any) => p && typeof p.id === 'string' && typeof p.name === 'string')) {
+    throw new Error(`${PEOPLE_FILE} is malformed`);
+  }
+
+  const tasks = entries.has(TASKS_FILE) ? await readJson(entries, TASKS_FILE) : [];
+  if (!Array.isArray(tasks) || !tasks.every((t: any) => t && typeof t.id === 'string' && typeof t.text === 'string' && typeof t.sourceDate === 'string')) {
+    throw new Error(`${TASKS_FILE} is malformed`);
+  }
+
+  const periods = entries.has(PERIODS_FILE) ? await readJson(entries, PERIODS_FILE) : [];
+  if (!Array.isArray(periods) || !periods.every((p: any) =>
+    p && typeof p.id === 'string' && typeof p.from === 'string' && typeof p.to === 'string' && typeof p.overview === 'string')) {
+    throw new Error(`${PERIODS_FILE} is malformed`);
+  }
+
+  const bookmarks = entries.has(BOOKMARKS_FILE) ? await readJson(entries, BOOKMARKS_FILE) : [];
+  if (!Array.isArray(bookmarks) || !bookmarks.every((b: any) =>
+    b && typeof b.id === 'string' && Number.isFinite(b.at) && ['pending', 'attached', 'unmatched'].includes(b.status))) {
+    throw new Error(`${BOOKMARKS_FILE} is malformed`);
+  }
+
+  const retention = entries.has(RETENTION_FILE) ? await readJson(entries, RETENTION_FILE) : null;
+  const isRun = (run: any) => run === null || (run && Array.isArray(run.actions) && Number.isInteger(run.done));
+  if (retention !== null && !(retention?.policy && typeof retention.policy === 'object' && isRun(retention.run))) {
+    throw new Error(`${RETENTION_FILE} is malformed`);
+  }
+
+  for (let i = 0; i < manifest.audio.length; i++) {
+    const audio = manifest.audio[i];
+    const entry = entries.get(audio.file);
+    if (!entry) throw new Error(`Audio ${audio.id} is missing from the backup`);
+    if (entry.size !== audio.size) throw new Error(`Audio ${audio.id} has the wrong size`);
+    if (await crc32OfBlob(entry.data) !== entry.crc) throw new Error(`Audio ${audio.id} is corrupt`);
+    onProgress?.(i + 1, manifest.audio.length);
+  }
+
+  return {
+    manifest,
+    logs: logs as DailyLog[],
+    people: people as Person[],
+    tasks: tasks as Task[],
+    periods: periods as PeriodSummary[],
+    bookmarks: bookmarks as Bookmark[],
+    // Rules from an older build lack the newer fields
+    retention: retention && { policy: { ...DEFAULT_SETTINGS.retention, ...retention.policy }, run: retention.run } as BackupRetention | null,
+    entries
+  };
+};
+
+// Segments are matched by id; a day only present on one side is taken as-is
+const mergeLogs = (existing: DailyLog, incoming: DailyLog): DailyLog => {
+  const known = new Set(existing.transcripts.map(t => t.id));
+  const added = incoming.transcripts.filter(t => !known.has(t.id));
+  const audioIds = [...new Set([...(existing.audioIds || []), ...(incoming.audioIds || [])])];
+  if (added.length === 0) return { ...existing, summary: existing.summary || incoming.summary, ...(audioIds.length > 0 && { audioIds }) };
+  return {
+    ...existing,
+    ...(audioIds.length > 0 && { audioIds }),
+    transcripts: [...existing.transcripts, ...added].sort((a, b) => a.startTime.localeCompare(b.startTime)),
+    // Entirely new recordings add up; a partial overlap is most likely the same recording
+    recordingDurationMinutes: added.length === incoming.transcripts.length
+      ? existing.recordingDurationMinutes + incoming.recordingDurationMinutes
+      : Math.max(existing.recordingDurationMinutes, incoming.recordingDurationMinutes),
+    summary: existing.summary || incoming.summary
+  };
+};
+
+export const restoreBackup = async (file: Blob, mode: RestoreMode, onProgress?: BackupProgress): Promise<RestoreSummary> => {
+  const { manifest, logs, people, tasks, periods, bookmarks, retention, entries } = await readBackup(file);
+  if (mode === 'replace') {
+    await wipeAllData();
+    // A run planned against the wiped data must not carry on over the restored days; the backup's own
+    // run was planned against exactly those
+    await saveRetentionRun(retention?.run ?? null);
+  }
+
+  const total = manifest.audio.length + logs.length;
+  let done = 0;
+  let restoredAudio = 0;
+  const before = mode === 'merge' ? new Set((await getAllStoredAudio()).map(a => a.id)) : new Set<string>();
+
+  for (const audio of manifest.audio) {
+    const entry = entries.get(audio.file)!;
+    const record: StoredAudio = {
+      // Re-typed slice of the archive: the bytes are copied into IndexedDB unchanged
+      blob: entry.data.slice(0, entry.size, audio.mimeType),
+      compressed: audio.compressed,
+      archived: !!audio.archived,
+      timestamp: audio.timestamp,
+      speechRegions: audio.speechRegions
+    };
+    await putStoredAudio(audio.id, record, mode === 'merge');
+    if (!before.has(audio.id)) restoredAudio++;
+    onProgress?.(++done, total);
+  }
+
+  // Merge keeps names already on the device; segments carry their own display name either way
+  const knownPeople = new Set((await getPeople()).map(p => p.id));
+  for (const person of people) {
+    if (!knownPeople.has(person.id)) await savePerson(person);
+  }
+
+  // Likewise tasks: one already on the device keeps its current status and notes
+  const knownTasks = new Set((await getTasks()).map(t => t.id));
+  for (const task of tasks) {
+    if (!knownTasks.has(task.id)) await saveTask(task);
+  }
+
+  // And period summaries: the one on the device may have been regenerated since
+  const knownPeriods = new Set((await getPeriodSummaries()).map(p => p.id));
+  for (const period of periods) {
+    if (!knownPeriods.has(period.id)) await savePeriodSummary(period);
+  }
+
+  // And bookmarks: one on the device may have been labelled or attached since
+  const knownBookmarks = new Set((await getBookmarks()).map(b => b.id));
+  for (const bookmark of bookmarks) {
+    if (!knownBookmarks.has(bookmark.id)) await saveBookmark(bookmark);
+  }
+
+  for (const log of logs) {
+    const existing = mode === 'merge' ? await getLog(log.date) : null;
+    await saveLog(existing ? mergeLogs(existing, log) : log);
+    onProgress?.(++done, total);
+  }
+
+  return {
+    logs: logs.length,
+    audio: restoredAudio,
+    skippedAudio: manifest.audio.length - restoredAudio,
+    retention: mode === 'replace' ? retention?.policy : undefined
+  };
+};
@@ -0,0 +1,141 @@
+import { Bookmark, ConversationSegment, SegmentBookmark } from './types';
+import { getBookmarks, saveBookmark, getLog, updateLog } from './db';
+import { localDateKey } from './localTime';
+
+// Moments flagged while recording. A bookmark is only a timestamp until the audio around it has been
+// transcribed; the transcription queue then attaches it to the segments it falls on (see runJob).
+
+// A press usually comes just after the moment that mattered, so the window reaches back further than forward
+const LEAD_MS = 20 * 1000;
+const TRAIL_MS = 3 * 1000;
+// With nothing said inside the window, the nearest segment this close still gets it
+const NEAREST_MS = 60 * 1000;
+
+const NOTIFICATION_TAG = 'daytrack-recording';
+
+export const addBookmark = async (at: number = Date.now()): Promise<Bookmark> => {
+  const bookmark: Bookmark = { id: crypto.randomUUID(), at, status: 'pending', createdAt: Date.now() };
+  await saveBookmark(bookmark);
+  return bookmark;
+};
+
+const withBookmark = (segment: ConversationSegment, entry: SegmentBookmark): ConversationSegment => ({
+  ...segment,
+  bookmarks: [...(segment.bookmarks || []).filter(b => b.id !== entry.id), entry]
+});
+
+// The label may be typed while the bookmark is being attached, so this works from the stored record
+export const labelBookmark = async (id: string, label: string): Promise<void> => {
+  const current = (await getBookmarks()).find(b => b.id === id);
+  if (!current) return;
+  const next: Bookmark = { ...current, label: label.trim() || undefined };
+  await saveBookmark(next);
+  if (next.status !== 'attached' || !next.date) return;
+  await updateLog(next.date, log => ({
+    ...log,
+    transcripts: log.transcripts.map(segment =>
+      segment.bookmarks?.some(b => b.id === id) ? withBookmark(segment, { id, label: next.label }) : segment)
+  }));
+};
+
+const spanOf = (segment: ConversationSegment) => ({ start: segment.recordedAt!, end: segment.recordedAt! + segment.duration * 1000 });
+
+const distanceTo = (segment: ConversationSegment, at: number) => {
+  const { start, end } = spanOf(segment);
+  return at < start ? start - at : at > end ? at - end : 0;
+};
+
+const pressedBetween = async (from: number, to: number) =>
+  (await getBookmarks()).filter(b => b.at >= from && b.at <= to + TRAIL_MS);
+
+// Attaches the bookmarks pressed between `from` and `to` (epoch ms), once the audio for that stretch is in
+// the logs. Runs after every transcribed chunk; attached ones are skipped, unmatched ones get another look
+// in case their chunk gave up and was retried by hand.
+export const attachBookmarks = async (from: number, to: number, timeZone: string): Promise<void> => {
+  const due = (await pressedBetween(from, to)).filter(b => b.status !== 'attached');
+  for (const bookmark of due) {
+    const dates = [...new Set([localDateKey(bookmark.at - NEAREST_MS, timeZone), localDateKey(bookmark.at + NEAREST_MS, timeZone)])];
+    const candidates = (await Promise.all(dates.map(getLog)))
+      .flatMap(log => log ? log.transcripts.filter(s => s.recordedAt !== undefined).map(segment => ({ date: log.date, segment })) : []);
+
+    let chosen = candidates.filter(({ segment }) => {
+      const { start, end } = spanOf(segment);
+      return start <= bookmark.at + TRAIL_MS && end >= bookmark.at - LEAD_MS;
+    });
+    if (chosen.length === 0) {
+      const nearest = candidates
+        .filter(({ segment }) => distanceTo(segment, bookmark.at) <= NEAREST_MS)
+        .sort((a, b) => distanceTo(a.segment, bookmark.at) - distanceTo(b.segment, bookmark.at));
+      chosen = nearest.slice(0, 1);
+    }
+    if (chosen.length === 0) {
+      await saveBookmark({ ...bookmark, status: 'unmatched' });
+      continue;
+    }
+
+    const entry: SegmentBookmark = { id: bookmark.id, label: bookmark.label };
+    for (const date of new Set(chosen.map(c => c.date))) {
+      const ids = new Set(chosen.filter(c => c.date === date).map(c => c.segment.id));
+      await updateLog(date, log => ({
+        ...log,
+        transcripts: log.transcripts.map(segment => ids.has(segment.id) ? withBookmark(segment, entry) : segment)
+      }));
+    }
+    // Dated by the segment closest to the press, for a recording that runs over midnight
+    const closest = [...chosen].sort((a, b) => distanceTo(a.segment, bookmark.at) - distanceTo(b.segment, bookmark.at))[0];
+    await saveBookmark({ ...bookmark, status: 'attached', date: closest.date });
+  }
+};
+
+// A chunk that is discarded or gives up will never be transcribed, so its bookmarks have nothing to attach to
+export const abandonBookmarks = async (from: number, to: number): Promise<void> => {
+  const due = (await pressedBetween(from, to)).filter(b => b.status === 'pending');
+  for (const bookmark of due) await saveBookmark({ ...bookmark, status: 'unmatched' });
+};
+
+// Ways to bookmark without the on-screen button, each where the platform has it: a headset or Bluetooth
+// remote's "next" button (media session action or media key) and an action on a recording notification
+// (needs notification permission; the service worker relays the tap). Returns a function that undoes them.
+export const startBookmarkShortcuts = (onBookmark: (at: number) => void): (() => void) => {
+  const cleanups: (() => void)[] = [];
+
+  if ('mediaSession' in navigator) {
+    try {
+      navigator.mediaSession.setActionHandler('nexttrack', () => onBookmark(Date.now()));
+      cleanups.push(() => navigator.mediaSession.setActionHandler('nexttrack', null));
+    } catch (e) {
+      console.warn("Media session actions unavailable:", e);
+    }
+  }
+
+  const onKey = (event: KeyboardEvent) => {
+    if (event.key === 'MediaTrackNext') onBookmark(Date.now());
+  };
+  window.addEventListener('keydown', onKey);
+  cleanups.push(() => window.removeEventListener('keydown', onKey));
+
+  if ('serviceWorker' in navigator && 'Notification' in window && Notification.permission === 'granted') {
+    const onMessage = (event: MessageEvent) => {
+      if (event.data?.type === 'bookmark') onBookmark(typeof event.data.at === 'number' ? event.data.at : Date.now());
+    };
+    navigator.serviceWorker.addEventListener('message', onMessage);
+    navigator.serviceWorker.ready
+      .then(registration => registration.showNotification('DayTrack is recording', {
+        body: 'Tap Bookmark to flag this moment.',
+        tag: NOTIFICATION_TAG,
+        requireInteraction: true,
+        silent: true,
+        actions: [{ action: 'bookmark', title: 'Bookmark' }]
+      } as NotificationOptions))
+      .catch(e => console.warn("Recording notification not shown:", e));
+    cleanups.push(() => {
+      navigator.serviceWorker.removeEventListener('message', onMessage);
+      navigator.serviceWorker.ready
+        .then(registration => registration.getNotifications({ tag: NOTIFICATION_TAG }))
+        .then(notifications => notifications.forEach(n => n.close()))
+        .catch(() => {});
+    });
+  }
+
+  return () => cleanups.forEach(cleanup => cleanup());
+};
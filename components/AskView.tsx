@@ -0,0 +1,170 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { ChatMessage, Citation } from '../types';
+import { getChatMessages, clearChatMessages } from '../db';
+import { askQuestion, createMessage, citedNumbers } from '../ask';
+
+interface AskViewProps {
+  offlineMode: boolean;
+  onOpenSegment: (date: string, segmentId: string) => void;
+}
+
+const SUGGESTIONS = [
+  "What did I talk about yesterday?",
+  "What did the client say about latency last week?",
+  "Which tasks did I promise to do this week?"
+];
+
+const AskView: React.FC<AskViewProps> = ({ offlineMode, onOpenSegment }) => {
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [input, setInput] = useState('');
+  const [isAsking, setIsAsking] = useState(false);
+  const bottomRef = useRef<HTMLDivElement | null>(null);
+
+  useEffect(() => {
+    getChatMessages().then(setMessages);
+  }, []);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: 'smooth', block: 'end' });
+  }, [messages, isAsking]);
+
+  const send = async (text: string) => {
+    if (!text.trim() || isAsking) return;
+    const question = createMessage('user', text.trim());
+    const history = messages;
+    setMessages([...history, question]);
+    setInput('');
+    setIsAsking(true);
+    try {
+      const reply = await askQuestion(question, history, offlineMode);
+      setMessages(current => [...current, reply]);
+    } finally {
+      setIsAsking(false);
+    }
+  };
+
+  const clearHistory = async () => {
+    if (!window.confirm("Clear the whole conversation?")) return;
+    await clearChatMessages();
+    setMessages([]);
+  };
+
+  const openCitation = (citation?: Citation) => {
+    if (citation) onOpenSegment(citation.date, citation.segmentId);
+  };
+
+  // Turns [n] markers into buttons that open the cited segment
+  const renderAnswer = (message: ChatMessage) => message.text.split(/(\[\d+\])/g).map((part, i) => {
+    const marker = part.match(/^\[(\d+)\]$/);
+    const citation = marker ? message.citations?.[Number(marker[1]) - 1] : undefined;
+    if (!citation) return <React.Fragment key={i}>{part}</React.Fragment>;
+    return (
+      <button
+        key={i}
+        onClick={() => openCitation(citation)}
+        title={`${citation.date} ${citation.startTime} • ${citation.speaker}`}
+        className="inline-flex items-center justify-center min-w-[18px] h-[18px] px-1 mx-0.5 rounded-md bg-emerald-500/15 text-emerald-300 text-[9px] font-black align-super hover:bg-emerald-500/30"
+      >
+        {marker![1]}
+      </button>
+    );
+  });
+
+  return (
+    <div className="space-y-6 animate-in fade-in slide-in-from-bottom-4 duration-500">
+      <div className="glass-effect rounded-[32px] p-6 flex items-center justify-between">
+        <div>
+          <h2 className="text-xl font-black text-emerald-50 tracking-tight">ASK MY DAYS</h2>
+          <p className="text-[10px] font-black text-emerald-700 uppercase tracking-widest mt-1">
+            Answers from your recordings, with sources
+          </p>
+        </div>
+        {messages.length > 0 && (
+          <button onClick={clearHistory} className="px-4 py-2 bg-rose-500/5 text-rose-500 border border-rose-500/10 rounded-2xl font-black text-[10px] uppercase tracking-tighter">
+            Clear
+          </button>
+        )}
+      </div>
+
+      {messages.length === 0 && !isAsking && (
+        <div className="space-y-2">
+          {SUGGESTIONS.map(suggestion => (
+            <button
+              key={suggestion}
+              onClick={() => send(suggestion)}
+              className="w-full text-left glass-effect rounded-2xl px-5 py-4 text-sm text-emerald-100/60 hover:text-emerald-100 transition-colors"
+            >
+              {suggestion}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-4">
+        {messages.map(message => message.role === 'user' ? (
+          <div key={message.id} className="flex justify-end">
+            <p className="max-w-[85%] bg-emerald-500 text-slate-950 rounded-[24px] rounded-br-md px-5 py-3 text-sm font-medium">{message.text}</p>
+          </div>
+        ) : (
+          <div key={message.id} className={`glass-effect rounded-[24px] rounded-bl-md p-5 ${message.failed ? 'border-l-4 border-rose-500' : ''}`}>
+            <p className={`text-sm leading-relaxed whitespace-pre-wrap ${message.failed ? 'text-rose-300/80' : 'text-emerald-50/90'}`}>
+              {message.failed ? `Couldn't answer: ${message.text}` : renderAnswer(message)}
+            </p>
+            {citedNumbers(message.text).some(n => message.citations?.[n - 1]) && (
+              <div className="mt-4 pt-4 border-t border-emerald-500/10 space-y-2">
+                {citedNumbers(message.text).map(n => {
+                  const citation = message.citations?.[n - 1];
+                  if (!citation) return null;
+                  return (
+                    <button
+                      key={n}
+                      onClick={() => openCitation(citation)}
+                      className="w-full text-left flex gap-3 items-start rounded-xl p-2 hover:bg-emerald-500/5 transition-colors"
+                    >
+                      <span className="text-[9px] font-black text-emerald-300 bg-emerald-500/15 rounded-md px-1.5 py-0.5">{n}</span>
+                      <span className="flex-1 min-w-0">
+                        <span className="block text-[9px] font-black text-emerald-700 uppercase tracking-widest">
+                          {citation.date} • {citation.startTime} • {citation.speaker}
+                        </span>
+                        <span className="block text-xs text-emerald-100/50 truncate">{citation.excerpt}</span>
+                      </span>
+                    </button>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        ))}
+
+        {isAsking && (
+          <div className="flex items-center gap-3 px-5 py-4 text-[10px] font-black text-emerald-700 uppercase tracking-widest animate-pulse">
+            <i className="fas fa-circle-notch animate-spin"></i> Searching your days...
+          </div>
+        )}
+        <div ref={bottomRef}></div>
+      </div>
+
+      <form
+        onSubmit={(e) => { e.preventDefault(); send(input); }}
+        className="glass-effect rounded-[28px] p-2 flex items-center gap-2 sticky bottom-28"
+      >
+        <input
+          type="text"
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          placeholder="Ask about anything you've recorded..."
+          className="flex-1 bg-transparent px-4 py-3 text-sm text-emerald-50 placeholder:text-emerald-800 focus:outline-none"
+        />
+        <button
+          type="submit"
+          disabled={!input.trim() || isAsking}
+          className="w-11 h-11 rounded-2xl bg-emerald-500 text-slate-950 flex items-center justify-center disabled:opacity-30"
+        >
+          <i className="fas fa-paper-plane text-sm"></i>
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default AskView;
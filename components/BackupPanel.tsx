@@ -0,0 +1,147 @@
+import React, { useState, useRef } from 'react';
+import { createBackup, readBackup, restoreBackup, RestoreMode, RestoreSummary, BackupManifest } from '../backup';
+import { downloadFile } from '../exporters';
+import { formatBytes } from '../modelStore';
+import { isVaultEnabled } from '../vault';
+
+interface BackupPanelProps {
+  onRestored: (summary: RestoreSummary) => void;
+  isRecording: boolean;
+}
+
+type Busy = { label: string; progress: number } | null;
+
+const BackupPanel: React.FC<BackupPanelProps> = ({ onRestored, isRecording }) => {
+  const [busy, setBusy] = useState<Busy>(null);
+  const [message, setMessage] = useState<{ text: string; error?: boolean } | null>(null);
+  const [pending, setPending] = useState<{ file: File; manifest: BackupManifest } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+
+  const progress = (label: string) => (done: number, total: number) =>
+    setBusy({ label, progress: total > 0 ? Math.round((done / total) * 100) : 0 });
+
+  const handleBackup = async () => {
+    // The backup is a plain zip: everything the vault seals comes out of it readable
+    if (isVaultEnabled() && !window.confirm("Encryption is on, but the backup file is not encrypted: anyone with the file can read every log and play every recording. Create it anyway?")) return;
+    setMessage(null);
+    setBusy({ label: 'Packing', progress: 0 });
+    try {
+      const file = await createBackup(progress('Packing'));
+      downloadFile(file);
+      setMessage({ text: `Backup saved (${formatBytes(file.blob.size)})` });
+    } catch (e) {
+      setMessage({ text: e instanceof Error ? e.message : String(e), error: true });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleFile = async (file?: File) => {
+    if (!file) return;
+    setMessage(null);
+    setPending(null);
+    setBusy({ label: 'Checking', progress: 0 });
+    try {
+      const { manifest } = await readBackup(file, progress('Checking'));
+      setPending({ file, manifest });
+    } catch (e) {
+      setMessage({ text: e instanceof Error ? e.message : String(e), error: true });
+    } finally {
+      setBusy(null);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  const handleRestore = async (mode: RestoreMode) => {
+    if (!pending) return;
+    if (mode === 'replace' && !window.confirm("Replace deletes every log, recording and chat on this device before restoring, and takes the backup's retention rules. Continue?")) return;
+    setBusy({ label: 'Restoring', progress: 0 });
+    try {
+      const result = await restoreBackup(pending.file, mode, progress('Restoring'));
+      setMessage({
+        text: `Restored ${result.logs} days and ${result.audio} recordings` +
+          (result.skippedAudio > 0 ? ` (${result.skippedAudio} already on this device)` : '')
+      });
+      setPending(null);
+      onRestored(result);
+    } catch (e) {
+      setMessage({ text: e instanceof Error ? e.message : String(e), error: true });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <div className="glass-effect rounded-3xl p-8">
+      <h2 className="text-xl font-bold">Backup & Restore</h2>
+      <p className="text-sm text-slate-400 mb-6">One file with every log and recording. Keep it somewhere safe before clearing storage or switching phones.</p>
+      {isVaultEnabled() && (
+        <p className="text-[11px] font-bold text-amber-400 -mt-3 mb-6">
+          <i className="fas fa-triangle-exclamation mr-2"></i>Backups are not encrypted, even with encryption on.
+        </p>
+      )}
+
+      <div className="flex gap-3">
+        <button
+          onClick={handleBackup}
+          disabled={!!busy}
+          className="flex-1 py-3 bg-emerald-500 text-slate-950 rounded-2xl font-black text-[10px] uppercase tracking-widest disabled:opacity-50"
+        >
+          <i className="fas fa-box-archive mr-2"></i>Create Backup
+        </button>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={!!busy || isRecording}
+          title={isRecording ? 'Stop recording before restoring' : undefined}
+          className="flex-1 py-3 bg-emerald-500/10 text-emerald-400 border border-emerald-500/20 rounded-2xl font-black text-[10px] uppercase tracking-widest disabled:opacity-50"
+        >
+          <i className="fas fa-clock-rotate-left mr-2"></i>Restore
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".zip,application/zip"
+          className="hidden"
+          onChange={(e) => handleFile(e.target.files?.[0])}
+        />
+      </div>
+
+      {busy && (
+        <div className="mt-4">
+          <div className="flex justify-between text-[10px] font-black text-emerald-700 uppercase tracking-widest mb-1">
+            <span>{busy.label}...</span><span>{busy.progress}%</span>
+          </div>
+          <div className="h-1.5 bg-emerald-950/50 rounded-full overflow-hidden">
+            <div className="h-full bg-emerald-400 transition-all" style={{ width: `${busy.progress}%` }}></div>
+          </div>
+        </div>
+      )}
+
+      {pending && !busy && (
+        <div className="mt-4 bg-emerald-500/5 border border-emerald-500/10 rounded-2xl p-4 space-y-3">
+          <p className="text-xs text-emerald-100/70">
+            Backup from {new Date(pending.manifest.createdAt).toLocaleString()}: {pending.manifest.logCount} days, {pending.manifest.audio.length} recordings
+            {' '}({formatBytes(pending.file.size)}).
+          </p>
+          <div className="flex gap-2">
+            <button onClick={() => handleRestore('merge')} className="flex-1 py-2 bg-emerald-500/10 hover:bg-emerald-500/20 text-emerald-400 rounded-xl text-[10px] font-black uppercase tracking-widest">
+              Merge
+            </button>
+            <button onClick={() => handleRestore('replace')} className="flex-1 py-2 bg-rose-500/5 hover:bg-rose-500/10 text-rose-500 border border-rose-500/10 rounded-xl text-[10px] font-black uppercase tracking-widest">
+              Replace
+            </button>
+            <button onClick={() => setPending(null)} className="px-4 py-2 text-emerald-800 text-[10px] font-black uppercase tracking-widest">
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {message && (
+        <p className={`mt-4 text-[11px] font-bold ${message.error ? 'text-rose-400' : 'text-emerald-400'}`}>{message.text}</p>
+      )}
+    </div>
+  );
+};
+
+export default BackupPanel;
@@ -1,15 +1,20 @@
 
 import React, { useState } from 'react';
 import { DailyLog } from '../types';
+import ExportMenu from './ExportMenu';
+import { todayKey } from '../localTime';
 
 interface CalendarViewProps {
   logs: DailyLog[];
   onSelectDate: (date: string) => void;
+  onOpenPeriod: (kind: 'week' | 'month', anchorDate: string) => void;
   selectedDate: string;
 }
 
-const CalendarView: React.FC<CalendarViewProps> = ({ logs, onSelectDate, selectedDate }) => {
+const CalendarView: React.FC<CalendarViewProps> = ({ logs, onSelectDate, onOpenPeriod, selectedDate }) => {
   const [currentMonth, setCurrentMonth] = useState(new Date());
+  const [exportFrom, setExportFrom] = useState('');
+  const [exportTo, setExportTo] = useState('');
 
   const daysInMonth = (year: number, month: number) => new Date(year, month + 1, 0).getDate();
   const firstDayOfMonth = (year: number, month: number) => new Date(year, month, 1).getDay();
@@ -17,11 +22,17 @@ const CalendarView: React.FC<CalendarViewProps> = ({ logs, onSelectDate, selecte
   const year = currentMonth.getFullYear();
   const month = currentMonth.getMonth();
   const monthName = currentMonth.toLocaleString('default', { month: 'long' });
+  const monthPrefix = `${year}-${String(month + 1).padStart(2, '0')}`;
+
+  // Without an explicit range the export covers the month on screen
+  const rangeFrom = exportFrom || `${monthPrefix}-01`;
+  const rangeTo = exportTo || `${monthPrefix}-${String(new Date(year, month + 1, 0).getDate()).padStart(2, '0')}`;
+  const logsInRange = logs.filter(l => l.date >= rangeFrom && l.date <= rangeTo);
 
   const goToToday = () => {
     const today = new Date();
     setCurrentMonth(today);
-    onSelectDate(today.toISOString().split('T')[0]);
+    onSelectDate(todayKey());
   };
 
   const days = [];
@@ -37,7 +48,7 @@ const CalendarView: React.FC<CalendarViewProps> = ({ logs, onSelectDate, selecte
     const dateStr = `${year}-${String(month + 1).padStart(2, '0')}-${String(d).padStart(2, '0')}`;
     const log = logs.find(l => l.date === dateStr);
     const isSelected = selectedDate === dateStr;
-    const isToday = new Date().toISOString().split('T')[0] === dateStr;
+    const isToday = todayKey() === dateStr;
     
     const duration = log?.recordingDurationMinutes || 0;
     const barWidth = Math.min((duration / 60) * 100, 100);
@@ -119,6 +130,47 @@ const CalendarView: React.FC<CalendarViewProps> = ({ logs, onSelectDate, selecte
         {days}
       </div>
 
+      <div className="mt-8 pt-6 border-t border-emerald-500/5">
+        <p className="text-[10px] font-black text-emerald-700 uppercase tracking-widest mb-3">Rollups</p>
+        <div className="flex gap-2">
+          <button
+            onClick={() => onOpenPeriod('week', selectedDate.startsWith(monthPrefix) ? selectedDate : `${monthPrefix}-01`)}
+            className="flex-1 py-2 bg-emerald-500/10 text-emerald-400 border border-emerald-500/20 rounded-xl text-[10px] font-black uppercase tracking-widest"
+          >
+            <i className="fas fa-calendar-week mr-2"></i>Week
+          </button>
+          <button
+            onClick={() => onOpenPeriod('month', `${monthPrefix}-01`)}
+            className="flex-1 py-2 bg-emerald-500/10 text-emerald-400 border border-emerald-500/20 rounded-xl text-[10px] font-black uppercase tracking-widest"
+          >
+            <i className="fas fa-calendar mr-2"></i>{monthName}
+          </button>
+        </div>
+      </div>
+
+      <div className="mt-6 pt-6 border-t border-emerald-500/5">
+        <p className="text-[10px] font-black text-emerald-700 uppercase tracking-widest mb-3">Export Range</p>
+        <div className="flex items-center gap-2">
+          <input
+            type="date"
+            value={rangeFrom}
+            onChange={(e) => setExportFrom(e.target.value)}
+            className="flex-1 min-w-0 bg-emerald-950/30 border border-emerald-500/10 rounded-xl px-3 py-2 text-xs text-emerald-100 font-mono"
+          />
+          <span className="text-emerald-800 text-xs">→</span>
+          <input
+            type="date"
+            value={rangeTo}
+            onChange={(e) => setExportTo(e.target.value)}
+            className="flex-1 min-w-0 bg-emerald-950/30 border border-emerald-500/10 rounded-xl px-3 py-2 text-xs text-emerald-100 font-mono"
+          />
+          <ExportMenu logs={logsInRange} />
+        </div>
+        <p className="text-[9px] font-black text-emerald-800 uppercase tracking-widest mt-2">
+          {logsInRange.length} {logsInRange.length === 1 ? 'day' : 'days'} with recordings
+        </p>
+      </div>
+
       <div className="mt-8 pt-6 border-t border-emerald-500/5 flex flex-wrap justify-center gap-6 text-[9px] font-black uppercase tracking-widest text-emerald-700">
         <div className="flex items-center gap-2">
           <div className="w-1.5 h-1.5 bg-emerald-400 rounded-full"></div>
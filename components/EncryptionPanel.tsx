@@ -0,0 +1,134 @@
+import React, { useState } from 'react';
+import { enableEncryption, changePassphrase } from '../encryption';
+import { isVaultEnabled, MIN_PASSPHRASE_LENGTH } from '../vault';
+
+interface EncryptionPanelProps {
+  isRecording: boolean;
+}
+
+const inputClass = "w-full bg-emerald-950/30 border border-emerald-500/10 rounded-xl px-3 py-2 text-sm text-emerald-50 placeholder:text-emerald-900 focus:outline-none focus:border-emerald-500/40";
+
+const EncryptionPanel: React.FC<EncryptionPanelProps> = ({ isRecording }) => {
+  const [isEnabled, setIsEnabled] = useState(isVaultEnabled);
+  const [isEditing, setIsEditing] = useState(false);
+  const [current, setCurrent] = useState('');
+  const [next, setNext] = useState('');
+  const [confirm, setConfirm] = useState('');
+  const [progress, setProgress] = useState<number | null>(null);
+  const [message, setMessage] = useState<{ text: string; error?: boolean } | null>(null);
+
+  const reset = () => {
+    setIsEditing(false);
+    setCurrent('');
+    setNext('');
+    setConfirm('');
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (next !== confirm) {
+      setMessage({ text: "Passphrases don't match", error: true });
+      return;
+    }
+    setMessage(null);
+    setProgress(0);
+    const onProgress = (done: number, total: number) => setProgress(total > 0 ? Math.round((done / total) * 100) : 0);
+    try {
+      if (isEnabled) {
+        await changePassphrase(current, next, onProgress);
+        setMessage({ text: "Passphrase changed and everything re-encrypted" });
+      } else {
+        await enableEncryption(next, onProgress);
+        setIsEnabled(true);
+        setMessage({ text: "Logs and recordings are now encrypted" });
+      }
+      reset();
+    } catch (err) {
+      setMessage({ text: err instanceof Error ? err.message : String(err), error: true });
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const isBusy = progress !== null;
+
+  return (
+    <div className="glass-effect rounded-3xl p-8">
+      <div className="flex items-center justify-between mb-1">
+        <h2 className="text-xl font-bold">Encryption</h2>
+        <span className={`text-[9px] font-black uppercase tracking-widest px-2 py-1 rounded-full ${
+          isEnabled ? 'bg-emerald-500/10 text-emerald-400' : 'bg-slate-500/10 text-slate-500'
+        }`}>
+          <i className={`fas ${isEnabled ? 'fa-lock' : 'fa-lock-open'} mr-1`}></i>{isEnabled ? 'On' : 'Off'}
+        </span>
+      </div>
+      <p className="text-sm text-slate-400 mb-6">
+        {isEnabled
+          ? "Logs, recordings, the search index and chat are encrypted on this device and unlock with your passphrase on launch. Backups are not encrypted."
+          : "Encrypt logs and recordings on this device with a passphrase. There is no way to recover them if you forget it."}
+      </p>
+
+      {!isEditing && !isBusy && (
+        <div className="flex gap-3">
+          <button
+            onClick={() => { setIsEditing(true); setMessage(null); }}
+            disabled={isRecording}
+            title={isRecording ? 'Stop recording first' : undefined}
+            className="flex-1 py-3 bg-emerald-500/10 text-emerald-400 border border-emerald-500/20 rounded-2xl font-black text-[10px] uppercase tracking-widest disabled:opacity-50"
+          >
+            <i className={`fas ${isEnabled ? 'fa-key' : 'fa-lock'} mr-2`}></i>{isEnabled ? 'Change Passphrase' : 'Turn On'}
+          </button>
+          {isEnabled && (
+            // Keys only live in memory, so a reload is a lock
+            <button
+              onClick={() => window.location.reload()}
+              disabled={isRecording}
+              className="px-5 py-3 bg-emerald-900/10 text-emerald-600 border border-emerald-900/20 rounded-2xl font-black text-[10px] uppercase tracking-widest disabled:opacity-50"
+            >
+              Lock Now
+            </button>
+          )}
+        </div>
+      )}
+
+      {isEditing && !isBusy && (
+        <form onSubmit={handleSubmit} className="space-y-3">
+          {isEnabled && (
+            <input type="password" autoComplete="current-password" value={current} onChange={(e) => setCurrent(e.target.value)} placeholder="Current passphrase" className={inputClass} />
+          )}
+          <input type="password" autoComplete="new-password" value={next} onChange={(e) => setNext(e.target.value)} placeholder={`New passphrase (${MIN_PASSPHRASE_LENGTH}+ characters)`} className={inputClass} />
+          <input type="password" autoComplete="new-password" value={confirm} onChange={(e) => setConfirm(e.target.value)} placeholder="Repeat new passphrase" className={inputClass} />
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              disabled={!next || !confirm || (isEnabled && !current)}
+              className="flex-1 py-2 bg-emerald-500 text-slate-950 rounded-xl text-[10px] font-black uppercase tracking-widest disabled:opacity-50"
+            >
+              {isEnabled ? 'Re-encrypt' : 'Encrypt'}
+            </button>
+            <button type="button" onClick={reset} className="px-4 py-2 text-emerald-800 text-[10px] font-black uppercase tracking-widest">
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      {isBusy && (
+        <div>
+          <div className="flex justify-between text-[10px] font-black text-emerald-700 uppercase tracking-widest mb-1">
+            <span>Encrypting...</span><span>{progress}%</span>
+          </div>
+          <div className="h-1.5 bg-emerald-950/50 rounded-full overflow-hidden">
+            <div className="h-full bg-emerald-400 transition-all" style={{ width: `${progress}%` }}></div>
+          </div>
+        </div>
+      )}
+
+      {message && (
+        <p className={`mt-4 text-[11px] font-bold ${message.error ? 'text-rose-400' : 'text-emerald-400'}`}>{message.text}</p>
+      )}
+    </div>
+  );
+};
+
+export default EncryptionPanel;
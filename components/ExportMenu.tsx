@@ -0,0 +1,57 @@
+import React, { useState } from 'react';
+import { DailyLog } from '../types';
+import { EXPORT_FORMATS, ExportFormat, exportLogs, downloadFile } from '../exporters';
+
+interface ExportMenuProps {
+  logs: DailyLog[];
+}
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ logs }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [busyFormat, setBusyFormat] = useState<ExportFormat | null>(null);
+
+  const run = async (format: ExportFormat) => {
+    setBusyFormat(format);
+    try {
+      downloadFile(await exportLogs(logs, format));
+      setIsOpen(false);
+    } catch (e) {
+      alert(e instanceof Error ? e.message : String(e));
+    } finally {
+      setBusyFormat(null);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        title="Export"
+        className={`w-11 h-11 flex items-center justify-center rounded-2xl border transition-all ${
+          isOpen ? 'bg-emerald-500/10 text-emerald-400 border-emerald-400/20' : 'bg-emerald-900/5 text-emerald-600 border-emerald-900/10 hover:text-emerald-400'
+        }`}
+      >
+        <i className="fas fa-file-export text-sm"></i>
+      </button>
+      {isOpen && (
+        <div className="absolute top-full right-0 mt-2 z-30 glass-effect rounded-2xl p-2 min-w-[150px] border border-emerald-500/10 shadow-2xl">
+          {EXPORT_FORMATS.map(format => (
+            <button
+              key={format.id}
+              onClick={() => run(format.id)}
+              disabled={busyFormat !== null}
+              className="w-full flex items-center justify-between gap-4 px-3 py-2 rounded-xl text-left text-[10px] font-black uppercase tracking-widest text-emerald-300 hover:bg-emerald-500/10 disabled:opacity-50"
+            >
+              {format.label}
+              <span className="text-emerald-800 font-mono lowercase">
+                {busyFormat === format.id ? <i className="fas fa-circle-notch animate-spin"></i> : `.${format.extension}`}
+              </span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExportMenu;
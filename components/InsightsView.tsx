@@ -0,0 +1,184 @@
+import React, { useState, useMemo } from 'react';
+import { DailyLog } from '../types';
+import { InsightRange, rangeInsights, recordingStreaks } from '../insights';
+import { todayKey } from '../localTime';
+import { moodLabel } from '../sentiment';
+import StatsOverview from './StatsOverview';
+import { moodTone, formatMoodScore } from './MoodRibbon';
+
+interface InsightsViewProps {
+  logs: DailyLog[];
+  onSelectDate: (date: string) => void;
+  onOpenTopic?: (topic: string) => void;
+}
+
+const RANGE_LABELS: Record<InsightRange, string> = { week: '7 Days', month: '30 Days', year: '12 Months' };
+
+const formatTalkTime = (seconds: number) =>
+  seconds >= 3600 ? `${(seconds / 3600).toFixed(1)} h` : `${Math.max(1, Math.round(seconds / 60))} min`;
+
+const Card: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+  <div className="glass-effect rounded-3xl p-6">
+    <p className="text-[10px] font-black text-emerald-700 uppercase tracking-widest mb-4">{title}</p>
+    {children}
+  </div>
+);
+
+const InsightsView: React.FC<InsightsViewProps> = ({ logs, onSelectDate, onOpenTopic }) => {
+  const [range, setRange] = useState<InsightRange>('week');
+  const today = todayKey();
+  const insights = useMemo(() => rangeInsights(logs, range, today), [logs, range, today]);
+  const streaks = useMemo(() => recordingStreaks(logs, today), [logs, today]);
+
+  const maxMinutes = Math.max(1, ...insights.buckets.map(b => b.minutes));
+  const maxHour = Math.max(1, ...insights.hourSeconds);
+  const maxSpeaker = Math.max(1, ...insights.speakers.map(s => s.seconds));
+  const busiestHour = insights.hourSeconds.indexOf(Math.max(...insights.hourSeconds));
+  // Bars are scaled to the strongest day so everyday swings stay visible; the label keeps the real values
+  const maxMood = Math.max(0.1, ...insights.moodTrend.map(d => Math.abs(d.score)));
+  const averageMood = insights.moodTrend.reduce((sum, d) => sum + d.score, 0) / (insights.moodTrend.length || 1);
+
+  return (
+    <div className="space-y-6 animate-in fade-in duration-500">
+      <div className="px-2">
+        <h2 className="text-2xl font-black tracking-tighter">INSIGHTS</h2>
+        <p className="text-[10px] font-black text-emerald-800 uppercase tracking-widest">{insights.from} → {insights.to}</p>
+      </div>
+
+      <div className="flex gap-2">
+        {(Object.keys(RANGE_LABELS) as InsightRange[]).map(option => (
+          <button
+            key={option}
+            onClick={() => setRange(option)}
+            className={`flex-1 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest border ${
+              range === option ? 'bg-emerald-500/10 text-emerald-400 border-emerald-500/20' : 'text-emerald-800 border-emerald-900/20'
+            }`}
+          >
+            {RANGE_LABELS[option]}
+          </button>
+        ))}
+      </div>
+
+      <StatsOverview minutes={insights.totals.minutes} words={insights.totals.words} days={insights.totals.days} />
+
+      <div className="grid grid-cols-2 gap-3">
+        <div className="glass-effect rounded-2xl p-4 flex items-center gap-3">
+          <i className="fas fa-fire text-amber-400"></i>
+          <div>
+            <p className="text-lg font-black leading-none">{streaks.current} day{streaks.current === 1 ? '' : 's'}</p>
+            <p className="text-[8px] font-black text-emerald-800 uppercase tracking-widest mt-1">Current streak</p>
+          </div>
+        </div>
+        <div className="glass-effect rounded-2xl p-4 flex items-center gap-3">
+          <i className="fas fa-trophy text-emerald-400"></i>
+          <div>
+            <p className="text-lg font-black leading-none">{streaks.longest} day{streaks.longest === 1 ? '' : 's'}</p>
+            <p className="text-[8px] font-black text-emerald-800 uppercase tracking-widest mt-1">Longest streak</p>
+          </div>
+        </div>
+      </div>
+
+      <Card title="Minutes Recorded">
+        <div className="flex items-end gap-[2px] h-28">
+          {insights.buckets.map(bucket => (
+            <button
+              key={bucket.from}
+              onClick={() => range !== 'year' && onSelectDate(bucket.from)}
+              title={`${bucket.from}: ${Math.round(bucket.minutes)} min, ${bucket.words} words`}
+              className="flex-1 h-full flex flex-col justify-end items-center gap-1 group"
+            >
+              <div
+                className="w-full bg-emerald-500/60 group-hover:bg-emerald-400 rounded-t"
+                style={{ height: `${(bucket.minutes / maxMinutes) * 100}%`, minHeight: bucket.minutes > 0 ? 2 : 0 }}
+              ></div>
+              {insights.buckets.length <= 12 && <span className="text-[8px] font-mono text-emerald-800">{bucket.label}</span>}
+            </button>
+          ))}
+        </div>
+      </Card>
+
+      <Card title="Talk Time by Speaker">
+        {insights.speakers.length === 0 && <p className="text-sm text-slate-500">Nothing recorded in this range.</p>}
+        <div className="space-y-3">
+          {insights.speakers.slice(0, 8).map(speaker => (
+            <div key={speaker.name}>
+              <div className="flex justify-between text-xs mb-1">
+                <span className="font-bold text-emerald-100/80">{speaker.name}</span>
+                <span className="font-mono text-emerald-700">{formatTalkTime(speaker.seconds)} • {speaker.words.toLocaleString()} words</span>
+              </div>
+              <div className="h-1.5 bg-emerald-950/50 rounded-full overflow-hidden">
+                <div className="h-full bg-emerald-400" style={{ width: `${(speaker.seconds / maxSpeaker) * 100}%` }}></div>
+              </div>
+            </div>
+          ))}
+        </div>
+      </Card>
+
+      <Card title={insights.totals.segments > 0 ? `Busiest Hours • Peak ${String(busiestHour).padStart(2, '0')}:00` : 'Busiest Hours'}>
+        <div className="flex items-end gap-[2px] h-20">
+          {insights.hourSeconds.map((seconds, hour) => (
+            <div key={hour} className="flex-1 h-full flex flex-col justify-end" title={`${String(hour).padStart(2, '0')}:00 • ${formatTalkTime(seconds)}`}>
+              <div className="w-full bg-amber-400/60 rounded-t" style={{ height: `${(seconds / maxHour) * 100}%` }}></div>
+            </div>
+          ))}
+        </div>
+        <div className="flex justify-between text-[8px] font-mono text-emerald-800 mt-1">
+          <span>00</span><span>06</span><span>12</span><span>18</span><span>23</span>
+        </div>
+      </Card>
+
+      {insights.topTopics.length > 0 && (
+        <Card title="Topics Over Time">
+          <div className="space-y-2">
+            {insights.topTopics.map(topic => (
+              <div key={topic} className="flex items-center gap-3">
+                <button onClick={() => onOpenTopic?.(topic)} className="w-24 shrink-0 truncate text-left text-xs text-emerald-100/70 capitalize hover:text-emerald-300">{topic}</button>
+                <div className="flex-1 flex gap-[2px]">
+                  {insights.buckets.map(bucket => {
+                    const count = bucket.topics[topic] || 0;
+                    return (
+                      <div
+                        key={bucket.from}
+                        title={`${bucket.from}: ${count} day${count === 1 ? '' : 's'}`}
+                        className={`flex-1 h-4 rounded-sm ${count > 0 ? 'bg-emerald-400' : 'bg-emerald-950/50'}`}
+                        style={count > 0 ? { opacity: Math.min(1, 0.35 + count * 0.2) } : undefined}
+                      ></div>
+                    );
+                  })}
+                </div>
+              </div>
+            ))}
+          </div>
+        </Card>
+      )}
+
+      {insights.moodTrend.length > 0 && (
+        <Card title={`Mood Trend • ${moodLabel(averageMood)} ${formatMoodScore(averageMood)}`}>
+          <div className="flex gap-[2px] h-24">
+            {insights.moodTrend.map(({ date, score, mood }) => (
+              <button
+                key={date}
+                onClick={() => onSelectDate(date)}
+                title={`${date}: ${moodLabel(score)} ${formatMoodScore(score)}${mood ? ` • "${mood}"` : ''}`}
+                className="flex-1 h-full flex flex-col hover:opacity-80"
+              >
+                <div className="flex-1 flex flex-col justify-end">
+                  {score > 0 && <div className={`w-full rounded-t ${moodTone(score)}`} style={{ height: `${(score / maxMood) * 100}%` }}></div>}
+                </div>
+                <div className="flex-1 border-t border-emerald-900/40">
+                  {score < 0 && <div className={`w-full rounded-b ${moodTone(score)}`} style={{ height: `${(-score / maxMood) * 100}%` }}></div>}
+                </div>
+              </button>
+            ))}
+          </div>
+          <div className="flex justify-between text-[8px] font-mono text-emerald-800 mt-1">
+            <span>{insights.moodTrend[0].date.slice(5)}</span>
+            {insights.moodTrend.length > 1 && <span>{insights.moodTrend[insights.moodTrend.length - 1].date.slice(5)}</span>}
+          </div>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default InsightsView;
@@ -0,0 +1,120 @@
+import React, { useState } from 'react';
+import { TranscriptionJob, TranscriptionFailureKind } from '../types';
+import { retryJob, discardJob } from '../transcriptionQueue';
+
+interface JobQueueViewProps {
+  jobs: TranscriptionJob[];
+  onChange: () => void;
+}
+
+const FAILURE_LABELS: Record<TranscriptionFailureKind, string> = {
+  network: 'Network unavailable',
+  auth: 'API key rejected',
+  config: 'Provider not set up',
+  quota: 'Rate limit / quota',
+  invalid_response: 'Unreadable AI response',
+  missing_audio: 'Audio missing',
+  model_unavailable: 'Local model not installed',
+  unknown: 'Unknown error'
+};
+
+const formatTime = (ms: number) => new Date(ms).toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit' });
+
+const JobQueueView: React.FC<JobQueueViewProps> = ({ jobs, onChange }) => {
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const failed = jobs.filter(j => j.status === 'failed').sort((a, b) => b.createdAt - a.createdAt);
+  const active = jobs.filter(j => j.status === 'pending' || j.status === 'running').sort((a, b) => a.createdAt - b.createdAt);
+
+  const handle = async (job: TranscriptionJob, action: 'retry' | 'discard') => {
+    if (action === 'discard' && !window.confirm(`Discard the ${job.recordedMinutes.toFixed(1)} min chunk from ${job.date}? Its audio will be deleted.`)) return;
+    setBusyId(job.id);
+    try {
+      if (action === 'retry') await retryJob(job);
+      else await discardJob(job);
+    } finally {
+      setBusyId(null);
+      onChange();
+    }
+  };
+
+  const retryAll = async () => {
+    await Promise.all(failed.map(retryJob));
+    onChange();
+  };
+
+  return (
+    <div className="space-y-6 animate-in fade-in slide-in-from-bottom-4 duration-500">
+      <div className="glass-effect rounded-[32px] p-6 flex items-center justify-between">
+        <div>
+          <h2 className="text-xl font-black text-emerald-50 tracking-tight">TRANSCRIPTION QUEUE</h2>
+          <p className="text-[10px] font-black text-emerald-700 uppercase tracking-widest mt-1">
+            {active.length} in progress • {failed.length} failed
+          </p>
+        </div>
+        {failed.length > 1 && (
+          <button onClick={retryAll} className="px-4 py-2 bg-emerald-500 text-slate-950 rounded-2xl font-black text-[10px] uppercase tracking-tighter">
+            Retry All
+          </button>
+        )}
+      </div>
+
+      {failed.length === 0 && active.length === 0 && (
+        <div className="text-center py-20 text-[10px] font-black text-emerald-800 uppercase tracking-[0.3em]">
+          All chunks transcribed
+        </div>
+      )}
+
+      {failed.map(job => (
+        <div key={job.id} className="glass-effect rounded-2xl p-5 border-l-4 border-rose-500">
+          <div className="flex items-center justify-between mb-2">
+            <div className="flex items-center gap-3">
+              <span className="text-xs font-black text-rose-400 uppercase tracking-widest">{job.date}</span>
+              <span className="text-xs text-emerald-800 font-mono">{formatTime(job.createdAt)}</span>
+              <span className="text-xs text-emerald-800 font-mono">{job.recordedMinutes.toFixed(1)} min</span>
+            </div>
+            <span className="text-[9px] font-black text-emerald-800 uppercase">{job.attempts} attempts</span>
+          </div>
+          {job.error && (
+            <p className="text-[11px] text-rose-300/80 mb-4">
+              <span className="font-black uppercase tracking-widest">{FAILURE_LABELS[job.error.kind]}</span>
+              <span className="opacity-60"> — {job.error.message.slice(0, 160)}</span>
+            </p>
+          )}
+          <div className="flex gap-2">
+            <button
+              onClick={() => handle(job, 'retry')}
+              disabled={busyId === job.id}
+              className="flex-1 py-2 bg-emerald-500/10 hover:bg-emerald-500/20 text-emerald-400 rounded-xl text-[10px] font-black uppercase tracking-widest disabled:opacity-50"
+            >
+              Retry
+            </button>
+            <button
+              onClick={() => handle(job, 'discard')}
+              disabled={busyId === job.id}
+              className="flex-1 py-2 bg-rose-500/5 hover:bg-rose-500/10 text-rose-500 border border-rose-500/10 rounded-xl text-[10px] font-black uppercase tracking-widest disabled:opacity-50"
+            >
+              Discard
+            </button>
+          </div>
+        </div>
+      ))}
+
+      {active.map(job => (
+        <div key={job.id} className="glass-effect rounded-2xl p-5 border-l-4 border-emerald-500/40 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <span className="text-xs font-black text-emerald-400 uppercase tracking-widest">{job.date}</span>
+            <span className="text-xs text-emerald-800 font-mono">{formatTime(job.createdAt)}</span>
+          </div>
+          <span className={`text-[9px] font-black uppercase tracking-widest ${job.status === 'running' ? 'text-emerald-400 animate-pulse' : 'text-emerald-800'}`}>
+            {job.status === 'running'
+              ? 'Transcribing...'
+              : job.attempts > 0 ? `Retry at ${formatTime(job.nextAttemptAt)}` : 'Waiting'}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default JobQueueView;
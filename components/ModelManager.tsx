@@ -1,49 +1,162 @@
 
-import React, { useState } from 'react';
-import { ModelStatus } from '../types';
-import { saveLog, saveAudio } from '../db';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { ModelStatus, AppSettings, ProviderConfig, ProviderId, InstalledModel } from '../types';
+import { saveLog, saveAudio, getInstalledModels } from '../db';
+import { CHUNK_MINUTE_OPTIONS } from '../settings';
+import { PROVIDER_DEFAULTS, PROVIDER_LABELS, warmUpLocalModel } from '../providers';
+import { todayKey } from '../localTime';
+import { 
+  MODEL_CATALOG, ModelSource, downloadModel, importModelFiles, checkForUpdate, 
+  verifyInstalledModel, hasModelFiles, removeModel, formatBytes 
+} from '../modelStore';
+import BackupPanel from './BackupPanel';
+import RetentionPanel from './RetentionPanel';
+import EncryptionPanel from './EncryptionPanel';
 
 interface ModelManagerProps {
-  onStatusChange: (models: ModelStatus[]) => void;
-  initialModels: ModelStatus[];
   offlineMode: boolean;
   setOfflineMode: (val: boolean) => void;
+  settings: AppSettings;
+  onSettingsChange: (settings: AppSettings) => void;
+  onDataChanged: () => void;
+  isRecording: boolean;
 }
 
+const slug = (value: string) => value.toLowerCase().replace(/^https?:\/\//, '').replace(/[^a-z0-9.]+/g, '-').replace(/^-|-$/g, '');
+
+const customSource = (url: string): ModelSource => ({
+  id: `custom-${slug(url)}`.slice(0, 80),
+  name: 'Custom Model',
+  baseUrl: url,
+  files: MODEL_CATALOG[0].files,
+  approxSize: 'Unknown size'
+});
+
 const ModelManager: React.FC<ModelManagerProps> = ({ 
-  onStatusChange, 
-  initialModels, 
   offlineMode, 
-  setOfflineMode 
+  setOfflineMode,
+  settings,
+  onSettingsChange,
+  onDataChanged,
+  isRecording
 }) => {
-  const [models, setModels] = useState<ModelStatus[]>(initialModels);
+  const [installed, setInstalled] = useState<InstalledModel[]>([]);
+  const [activity, setActivity] = useState<Record<string, Partial<ModelStatus>>>({});
+  const [customUrl, setCustomUrl] = useState(settings.customModelUrl || '');
   const [isInjecting, setIsInjecting] = useState(false);
+  const folderInputRef = useRef<HTMLInputElement | null>(null);
+
+  const sources = useMemo(() => {
+    return settings.customModelUrl ? [...MODEL_CATALOG, customSource(settings.customModelUrl)] : MODEL_CATALOG;
+  }, [settings.customModelUrl]);
+
+  const models: ModelStatus[] = useMemo(() => {
+    const fromSources = sources.map(source => {
+      const model = installed.find(m => m.id === source.id);
+      return {
+        id: source.id,
+        name: source.name,
+        size: model ? formatBytes(model.totalBytes) : source.approxSize,
+        status: model ? 'ready' as const : 'none' as const,
+        progress: 0
+      };
+    });
+    const imported = installed
+      .filter(m => !sources.some(s => s.id === m.id))
+      .map(m => ({ id: m.id, name: m.name, size: formatBytes(m.totalBytes), status: 'ready' as const, progress: 0 }));
+    return [...fromSources, ...imported].map(m => ({ ...m, ...activity[m.id] }));
+  }, [sources, installed, activity]);
+
+  const refreshInstalled = async () => {
+    const list = await getInstalledModels();
+    // A record whose files were evicted would show as ready and then fail offline; drop it instead
+    const present: InstalledModel[] = [];
+    for (const model of list) {
+      if (await hasModelFiles(model)) {
+        present.push(model);
+        continue;
+      }
+      await removeModel(model);
+      setActivity(prev => ({ ...prev, [model.id]: { ...prev[model.id], error: 'Its files were cleared from storage. Download it again.' } }));
+    }
+    setInstalled(present);
+    return present;
+  };
 
-  const startDownload = (id: string) => {
-    setModels(prev => prev.map(m => 
-      m.id === id ? { ...m, status: 'downloading' as const, progress: 0, error: undefined } : m
-    ));
-
-    let progress = 0;
-    const interval = setInterval(() => {
-      progress += Math.random() * 12;
-      if (progress >= 100) {
-        progress = 100;
-        clearInterval(interval);
-        setModels(prev => {
-          const updated = prev.map(m => m.id === id ? { ...m, status: 'ready' as const, progress: 100 } : m);
-          onStatusChange(updated);
-          return updated;
-        });
-      } else {
-        setModels(prev => prev.map(m => m.id === id ? { ...m, progress } : m));
+  useEffect(() => {
+    refreshInstalled().then(async list => {
+      if (!navigator.onLine) return;
+      for (const model of list) {
+        try {
+          if (await checkForUpdate(model)) setActivity(prev => ({ ...prev, [model.id]: { ...prev[model.id], updateAvailable: true } }));
+        } catch (e) {
+          console.warn(`Update check failed for ${model.id}`, e);
+        }
       }
-    }, 400);
+    });
+  }, []);
+
+  // The first installed model becomes the offline default
+  const selectIfNoneChosen = (id: string) => {
+    if (!settings.localModelId) onSettingsChange({ ...settings, localModelId: id });
+  };
+
+  const startDownload = async (id: string) => {
+    const source = sources.find(s => s.id === id);
+    if (!source) return;
+    setActivity(prev => ({ ...prev, [id]: { status: 'downloading', progress: 0, error: undefined } }));
+    try {
+      await downloadModel(source, (received, total) => {
+        const progress = total > 0 ? (received / total) * 100 : 0;
+        setActivity(prev => ({ ...prev, [id]: { ...prev[id], progress } }));
+      });
+      // Best effort: lets ONNX Runtime cache its WASM files while we are still online
+      await warmUpLocalModel(id).catch(e => console.warn("Model warm-up failed", e));
+      setActivity(prev => ({ ...prev, [id]: {} }));
+      await refreshInstalled();
+      selectIfNoneChosen(id);
+    } catch (e: any) {
+      setActivity(prev => ({ ...prev, [id]: { status: 'none', progress: 0, error: e?.message || String(e) } }));
+    }
+  };
+
+  const deleteModel = async (id: string) => {
+    const model = installed.find(m => m.id === id);
+    if (!model || !window.confirm(`Delete ${model.name} (${formatBytes(model.totalBytes)}) from this device?`)) return;
+    await removeModel(model);
+    if (settings.localModelId === id) onSettingsChange({ ...settings, localModelId: undefined });
+    setActivity(prev => ({ ...prev, [id]: {} }));
+    await refreshInstalled();
+  };
+
+  const verifyModel = async (id: string) => {
+    const model = installed.find(m => m.id === id);
+    if (!model) return;
+    const ok = await verifyInstalledModel(model);
+    setActivity(prev => ({ ...prev, [id]: { ...prev[id], error: ok ? undefined : 'Stored files are corrupt. Delete and download again.' } }));
+    if (ok) window.alert(`${model.name}: all ${model.files.length} files match their checksums.`);
+  };
+
+  const importFolder = async (fileList: FileList | null) => {
+    if (!fileList || fileList.length === 0) return;
+    const files = Array.from(fileList);
+    const folder = files[0].webkitRelativePath.split('/')[0] || 'Local Model';
+    const id = `file-${slug(folder)}`;
+    setActivity(prev => ({ ...prev, [id]: { status: 'downloading', progress: 0, error: undefined } }));
+    try {
+      await importModelFiles(id, folder, files);
+      setActivity(prev => ({ ...prev, [id]: {} }));
+      await refreshInstalled();
+      selectIfNoneChosen(id);
+    } catch (e: any) {
+      window.alert(`Import failed: ${e?.message || e}`);
+      setActivity(prev => ({ ...prev, [id]: {} }));
+    }
   };
 
   const injectDemoData = async () => {
     setIsInjecting(true);
-    const today = new Date().toISOString().split('T')[0];
+    const today = todayKey();
     
     const demoSegments = [
       {
@@ -130,6 +243,9 @@ const ModelManager: React.FC<ModelManagerProps> = ({
             <div>
               <h2 className="text-xl font-bold">Offline Mode</h2>
               <p className="text-sm text-slate-400">Process everything locally in your browser.</p>
+              {offlineMode && !settings.localModelId && (
+                <p className="text-[10px] text-amber-400 font-bold mt-1">No speech model installed — using demo transcripts.</p>
+              )}
             </div>
           </div>
           <button 
@@ -145,11 +261,79 @@ const ModelManager: React.FC<ModelManagerProps> = ({
         </div>
       </div>
 
+      <div className="glass-effect rounded-3xl p-8">
+        <div className="flex items-center justify-between flex-wrap gap-4">
+          <div>
+            <h2 className="text-xl font-bold">Continuous Recording</h2>
+            <p className="text-sm text-slate-400">Save and transcribe audio in chunks while the mic stays open.</p>
+          </div>
+          <button 
+            onClick={() => onSettingsChange({ ...settings, continuousMode: !settings.continuousMode })}
+            className={`px-8 py-3 rounded-2xl font-bold transition-all border ${
+              settings.continuousMode 
+              ? 'bg-emerald-500 border-emerald-400 text-slate-900 shadow-lg shadow-emerald-500/20' 
+              : 'bg-slate-800 border-slate-700 text-slate-300 hover:bg-slate-700'
+            }`}
+          >
+            {settings.continuousMode ? 'Enabled' : 'Disabled'}
+          </button>
+        </div>
+        {settings.continuousMode && (
+          <div className="mt-6">
+            <div className="text-[10px] font-black text-emerald-700 uppercase tracking-widest mb-3">Chunk Length</div>
+            <div className="grid grid-cols-4 gap-2">
+              {CHUNK_MINUTE_OPTIONS.map(minutes => (
+                <button 
+                  key={minutes}
+                  onClick={() => onSettingsChange({ ...settings, chunkMinutes: minutes })}
+                  className={`py-2 rounded-xl text-xs font-black uppercase tracking-widest transition-all border ${
+                    settings.chunkMinutes === minutes 
+                    ? 'bg-emerald-500/20 border-emerald-400/40 text-emerald-300' 
+                    : 'bg-emerald-500/5 border-emerald-500/10 text-emerald-700'
+                  }`}
+                >
+                  {minutes} min
+                </button>
+              ))}
+            </div>
+            {isRecording && (
+              <p className="mt-3 text-[10px] text-emerald-900 font-bold">Changes apply to the next recording.</p>
+            )}
+          </div>
+        )}
+      </div>
+
+      <div className="glass-effect rounded-3xl p-8">
+        <h2 className="text-xl font-bold">AI Providers</h2>
+        <p className="text-sm text-slate-400 mb-6">Choose where audio and transcripts are sent for each task.</p>
+        <div className="space-y-6">
+          <ProviderEditor 
+            label="Transcription" 
+            task="transcription" 
+            config={settings.transcription} 
+            onChange={(transcription) => onSettingsChange({ ...settings, transcription })} 
+          />
+          <ProviderEditor 
+            label="Summaries" 
+            task="summary" 
+            config={settings.summary} 
+            onChange={(summary) => onSettingsChange({ ...settings, summary })} 
+          />
+          <ProviderEditor 
+            label="Semantic Search" 
+            task="embedding" 
+            config={settings.embedding} 
+            onChange={(embedding) => onSettingsChange({ ...settings, embedding })} 
+          />
+        </div>
+      </div>
+
       <div className="glass-effect rounded-3xl p-8">
         <h2 className="text-2xl font-bold mb-2 flex items-center gap-3">
           <i className="fas fa-microchip text-emerald-400"></i>
           AI Models
         </h2>
+        <p className="text-sm text-slate-400">Speech models for offline mode. Audio never leaves the device.</p>
         <div className="grid grid-cols-1 gap-6 mt-8">
           {models.map(model => (
             <div key={model.id} className="bg-slate-800/30 border border-slate-700 rounded-2xl p-6">
@@ -163,24 +347,143 @@ const ModelManager: React.FC<ModelManagerProps> = ({
                     <p className="text-xs text-emerald-800 font-mono">{model.size}</p>
                   </div>
                 </div>
+                {model.status === 'ready' && (
+                  <button 
+                    onClick={() => onSettingsChange({ ...settings, localModelId: model.id })}
+                    className={`px-3 py-1.5 rounded-xl text-[9px] font-black uppercase tracking-widest border transition-all ${
+                      settings.localModelId === model.id 
+                      ? 'bg-emerald-500 border-emerald-400 text-slate-900' 
+                      : 'bg-emerald-500/5 border-emerald-500/10 text-emerald-700'
+                    }`}
+                  >
+                    {settings.localModelId === model.id ? 'In Use' : 'Use'}
+                  </button>
+                )}
               </div>
+              {model.error && (
+                <p className="text-[10px] text-rose-400 font-bold mb-3">{model.error}</p>
+              )}
               {model.status === 'downloading' ? (
                 <div className="space-y-2">
                   <div className="h-1.5 w-full bg-slate-700 rounded-full overflow-hidden">
                     <div className="h-full bg-emerald-500 transition-all duration-300" style={{ width: `${model.progress}%` }}></div>
                   </div>
+                  <div className="text-[9px] font-mono text-emerald-700 text-right">{model.progress.toFixed(0)}%</div>
                 </div>
               ) : model.status === 'ready' ? (
-                <div className="text-[10px] font-black text-emerald-500 uppercase tracking-widest"><i className="fas fa-check mr-2"></i> Installed</div>
+                <div className="flex items-center justify-between gap-2">
+                  <div className="text-[10px] font-black text-emerald-500 uppercase tracking-widest"><i className="fas fa-check mr-2"></i> Installed</div>
+                  <div className="flex gap-2">
+                    {model.updateAvailable && (
+                      <button onClick={() => startDownload(model.id)} className="px-3 py-1.5 bg-amber-500/10 text-amber-400 rounded-xl text-[9px] font-black uppercase tracking-widest">Update</button>
+                    )}
+                    <button onClick={() => verifyModel(model.id)} className="px-3 py-1.5 bg-emerald-500/5 text-emerald-600 rounded-xl text-[9px] font-black uppercase tracking-widest">Verify</button>
+                    <button onClick={() => deleteModel(model.id)} className="px-3 py-1.5 bg-rose-500/5 text-rose-500 rounded-xl text-[9px] font-black uppercase tracking-widest">Delete</button>
+                  </div>
+                </div>
               ) : (
                 <button onClick={() => startDownload(model.id)} className="w-full py-2 bg-emerald-500/10 hover:bg-emerald-500/20 text-emerald-500 rounded-xl text-xs font-black uppercase tracking-widest transition-all">Download</button>
               )}
             </div>
           ))}
         </div>
+
+        <div className="mt-6 space-y-3">
+          <div className="flex gap-2">
+            <input 
+              className={inputClass}
+              placeholder="Custom model URL (folder with config.json and onnx/)"
+              value={customUrl}
+              onChange={(e) => setCustomUrl(e.target.value)}
+            />
+            <button 
+              onClick={() => onSettingsChange({ ...settings, customModelUrl: customUrl.trim() || undefined })}
+              className="px-4 bg-emerald-500/10 text-emerald-500 rounded-xl text-[10px] font-black uppercase tracking-widest"
+            >
+              Add
+            </button>
+          </div>
+          <button 
+            onClick={() => folderInputRef.current?.click()}
+            className="w-full py-2 bg-emerald-500/5 border border-dashed border-emerald-500/20 text-emerald-600 rounded-xl text-[10px] font-black uppercase tracking-widest"
+          >
+            <i className="fas fa-folder-open mr-2"></i> Import Model Folder
+          </button>
+          <input 
+            ref={folderInputRef}
+            type="file"
+            multiple
+            className="hidden"
+            {...{ webkitdirectory: '' }}
+            onChange={(e) => { importFolder(e.target.files); e.target.value = ''; }}
+          />
+        </div>
       </div>
+
+      <RetentionPanel policy={settings.retention} onChange={(retention) => onSettingsChange({ ...settings, retention })} onDataChanged={onDataChanged} />
+
+      <EncryptionPanel isRecording={isRecording} />
+
+      <BackupPanel
+        onRestored={(summary) => {
+          if (summary.retention) onSettingsChange({ ...settings, retention: summary.retention });
+          onDataChanged();
+        }}
+        isRecording={isRecording}
+      />
     </div>
   );
 };
 
+interface ProviderEditorProps {
+  label: string;
+  task: 'transcription' | 'summary' | 'embedding';
+  config: ProviderConfig;
+  onChange: (config: ProviderConfig) => void;
+}
+
+const inputClass = "w-full bg-emerald-950/30 border border-emerald-500/10 rounded-xl px-3 py-2 text-xs text-emerald-100 font-mono focus:outline-none focus:border-emerald-400/40";
+
+const ProviderEditor: React.FC<ProviderEditorProps> = ({ label, task, config, onChange }) => (
+  <div className="bg-emerald-500/5 border border-emerald-500/10 rounded-2xl p-4 space-y-3">
+    <div className="flex items-center justify-between gap-3">
+      <span className="text-[10px] font-black text-emerald-700 uppercase tracking-widest">{label}</span>
+      <select 
+        value={config.provider}
+        onChange={(e) => onChange(PROVIDER_DEFAULTS[task][e.target.value as ProviderId])}
+        className="bg-emerald-950/30 border border-emerald-500/10 rounded-xl px-3 py-1.5 text-xs font-bold text-emerald-300"
+      >
+        {(Object.keys(PROVIDER_LABELS) as ProviderId[]).map(id => (
+          <option key={id} value={id}>{PROVIDER_LABELS[id]}</option>
+        ))}
+      </select>
+    </div>
+    {config.provider !== 'mock' && (
+      <input 
+        className={inputClass} 
+        placeholder="Model" 
+        value={config.model} 
+        onChange={(e) => onChange({ ...config, model: e.target.value })} 
+      />
+    )}
+    {config.provider === 'openai' && (
+      <input 
+        className={inputClass} 
+        placeholder="Base URL, e.g. http://192.168.1.20:8080/v1" 
+        value={config.baseUrl || ''} 
+        onChange={(e) => onChange({ ...config, baseUrl: e.target.value })} 
+      />
+    )}
+    {config.provider !== 'mock' && (
+      <input 
+        className={inputClass} 
+        type="password"
+        placeholder={config.provider === 'gemini' ? 'API key (defaults to API_KEY)' : 'API key (optional)'} 
+        value={config.apiKey || ''} 
+        onChange={(e) => onChange({ ...config, apiKey: e.target.value || undefined })} 
+      />
+    )}
+  </div>
+);
+
 export default ModelManager;
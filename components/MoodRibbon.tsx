@@ -0,0 +1,59 @@
+import React from 'react';
+import { DailyLog } from '../types';
+import { dayMood, hourlyMood, moodLabel } from '../sentiment';
+
+interface MoodRibbonProps {
+  log: DailyLog;
+  onSelectHour?: (hour: number) => void;
+}
+
+// Colour for a -1..1 mood score, shared with the mood trend charts
+export const moodTone = (score: number) =>
+  score <= -0.5 ? 'bg-rose-500' :
+  score <= -0.15 ? 'bg-rose-400/60' :
+  score < 0.15 ? 'bg-slate-400/40' :
+  score < 0.5 ? 'bg-emerald-400/60' : 'bg-emerald-400';
+
+export const formatMoodScore = (score: number) => `${score >= 0 ? '+' : ''}${score.toFixed(2)}`;
+
+const hourLabel = (hour: number) => `${String(hour).padStart(2, '0')}:00`;
+
+// One cell per hour from the first to the last hour with speech; quiet hours in between stay blank
+const MoodRibbon: React.FC<MoodRibbonProps> = ({ log, onSelectHour }) => {
+  const day = dayMood(log);
+  if (day === null) return null;
+  const hours = hourlyMood(log.transcripts);
+  const first = hours.findIndex(score => score !== null);
+  const last = hours.length - 1 - [...hours].reverse().findIndex(score => score !== null);
+
+  return (
+    <div className="glass-effect rounded-3xl px-5 py-4">
+      <div className="flex items-center justify-between mb-3">
+        <p className="text-[10px] font-black text-emerald-700 uppercase tracking-widest">Mood</p>
+        <p className="text-[10px] font-black text-emerald-500 uppercase tracking-widest">
+          {moodLabel(day)} <span className="font-mono text-emerald-700">{formatMoodScore(day)}</span>
+        </p>
+      </div>
+      <div className="flex gap-[3px] h-3">
+        {hours.slice(first, last + 1).map((score, i) => {
+          const hour = first + i;
+          return (
+            <button
+              key={hour}
+              disabled={score === null}
+              onClick={() => onSelectHour?.(hour)}
+              title={score === null ? `${hourLabel(hour)} • nothing recorded` : `${hourLabel(hour)} • ${moodLabel(score)} (${formatMoodScore(score)})`}
+              className={`flex-1 rounded-sm ${score === null ? 'bg-emerald-950/50' : `${moodTone(score)} hover:opacity-80`}`}
+            ></button>
+          );
+        })}
+      </div>
+      <div className="flex justify-between text-[8px] font-mono text-emerald-800 mt-1">
+        <span>{hourLabel(first)}</span>
+        {last > first && <span>{hourLabel(last)}</span>}
+      </div>
+    </div>
+  );
+};
+
+export default MoodRibbon;
@@ -0,0 +1,185 @@
+import React, { useState, useMemo } from 'react';
+import { DailyLog, Person, ConversationSegment } from '../types';
+import { personStats, renamePerson, mergePeople } from '../people';
+
+interface PeopleViewProps {
+  logs: DailyLog[];
+  people: Person[];
+  onOpenSegment: (date: string, segmentId: string, play?: boolean) => void;
+  onChanged: () => Promise<void> | void;
+}
+
+const formatTalkTime = (seconds: number) =>
+  seconds >= 3600 ? `${(seconds / 3600).toFixed(1)} h` : `${Math.max(1, Math.round(seconds / 60))} min`;
+
+const PeopleView: React.FC<PeopleViewProps> = ({ logs, people, onOpenSegment, onChanged }) => {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+  const [mergeTarget, setMergeTarget] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const stats = useMemo(() => personStats(logs), [logs]);
+  const sorted = useMemo(
+    () => [...people].sort((a, b) => (stats.get(b.id)?.seconds || 0) - (stats.get(a.id)?.seconds || 0)),
+    [people, stats]
+  );
+  const selected = people.find(p => p.id === selectedId) || null;
+
+  // Newest day first, segments in spoken order within a day
+  const said = useMemo(() => {
+    if (!selectedId) return [];
+    return [...logs]
+      .sort((a, b) => b.date.localeCompare(a.date))
+      .map(log => ({ date: log.date, segments: log.transcripts.filter(s => s.personId === selectedId) }))
+      .filter(day => day.segments.length > 0);
+  }, [logs, selectedId]);
+
+  const select = (person: Person | null) => {
+    setSelectedId(person?.id || null);
+    setDraftName(person?.name || '');
+    setMergeTarget('');
+    setError(null);
+  };
+
+  const run = async (task: () => Promise<void>) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      await task();
+      await onChanged();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleRename = () => selected && run(() => renamePerson(selected.id, draftName));
+
+  const handleMerge = () => {
+    const target = people.find(p => p.id === mergeTarget);
+    if (!selected || !target) return;
+    if (!window.confirm(`Merge ${selected.name} into ${target.name}? Everything ${selected.name} said will be attributed to ${target.name}.`)) return;
+    run(async () => {
+      await mergePeople(selected.id, target.id);
+      select(target);
+    });
+  };
+
+  if (selected) {
+    const stat = stats.get(selected.id);
+    return (
+      <div className="space-y-6 animate-in fade-in duration-500">
+        <button onClick={() => select(null)} className="text-[10px] font-black text-emerald-700 uppercase tracking-widest hover:text-emerald-400">
+          <i className="fas fa-arrow-left mr-2"></i>People
+        </button>
+
+        <div className="glass-effect rounded-3xl p-6 space-y-4">
+          <div className="flex items-center gap-4">
+            <div className="w-12 h-12 rounded-2xl bg-emerald-500/10 text-emerald-400 flex items-center justify-center text-lg font-black">
+              {selected.name.charAt(0).toUpperCase()}
+            </div>
+            <div>
+              <h2 className="text-xl font-black tracking-tighter">{selected.name}</h2>
+              <p className="text-[10px] font-black text-emerald-800 uppercase tracking-widest">
+                {stat ? `${stat.segments} segments • ${stat.days} days • ${formatTalkTime(stat.seconds)}` : 'Nothing attributed yet'}
+              </p>
+            </div>
+          </div>
+
+          <div className="flex gap-2">
+            <input
+              value={draftName}
+              onChange={(e) => setDraftName(e.target.value)}
+              className="flex-1 bg-emerald-950/30 border border-emerald-500/10 rounded-xl px-3 py-2 text-sm text-emerald-50 focus:outline-none focus:border-emerald-500/40"
+            />
+            <button
+              onClick={handleRename}
+              disabled={isBusy || !draftName.trim() || draftName.trim() === selected.name}
+              className="px-4 py-2 bg-emerald-500/10 text-emerald-400 border border-emerald-500/20 rounded-xl text-[10px] font-black uppercase tracking-widest disabled:opacity-40"
+            >
+              Rename
+            </button>
+          </div>
+
+          {people.length > 1 && (
+            <div className="flex gap-2">
+              <select
+                value={mergeTarget}
+                onChange={(e) => setMergeTarget(e.target.value)}
+                className="flex-1 bg-emerald-950/30 border border-emerald-500/10 rounded-xl px-3 py-2 text-sm text-emerald-50 focus:outline-none"
+              >
+                <option value="">Same person as...</option>
+                {people.filter(p => p.id !== selected.id).map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+              </select>
+              <button
+                onClick={handleMerge}
+                disabled={isBusy || !mergeTarget}
+                className="px-4 py-2 bg-emerald-500/10 text-emerald-400 border border-emerald-500/20 rounded-xl text-[10px] font-black uppercase tracking-widest disabled:opacity-40"
+              >
+                Merge
+              </button>
+            </div>
+          )}
+          {error && <p className="text-[11px] font-bold text-rose-400">{error}</p>}
+        </div>
+
+        {said.map(day => (
+          <div key={day.date} className="space-y-2">
+            <h3 className="text-[10px] font-black text-emerald-700 uppercase tracking-widest px-2">{day.date}</h3>
+            {day.segments.map((segment: ConversationSegment) => (
+              <button
+                key={segment.id}
+                onClick={() => onOpenSegment(day.date, segment.id, false)}
+                className="w-full text-left glass-effect rounded-2xl p-4 border border-emerald-500/5 hover:border-emerald-500/20 transition-all"
+              >
+                <span className="text-[10px] font-mono font-black text-emerald-700 mr-3">{segment.startTime}</span>
+                <span className="text-sm text-emerald-100/70">{segment.text}</span>
+              </button>
+            ))}
+          </div>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4 animate-in fade-in duration-500">
+      <div className="px-2">
+        <h2 className="text-2xl font-black tracking-tighter">PEOPLE</h2>
+        <p className="text-[10px] font-black text-emerald-800 uppercase tracking-widest">Tap a speaker badge in the Timeline to say who it is</p>
+      </div>
+
+      {sorted.length === 0 && (
+        <div className="glass-effect rounded-3xl p-10 text-center text-sm text-slate-500">
+          No one named yet. Transcripts only know "Person 1", "Person 2"... until you tell them.
+        </div>
+      )}
+
+      {sorted.map(person => {
+        const stat = stats.get(person.id);
+        return (
+          <button
+            key={person.id}
+            onClick={() => select(person)}
+            className="w-full flex items-center gap-4 glass-effect rounded-2xl p-4 border border-emerald-500/5 hover:border-emerald-500/20 transition-all text-left"
+          >
+            <div className="w-10 h-10 rounded-xl bg-emerald-500/10 text-emerald-400 flex items-center justify-center font-black">
+              {person.name.charAt(0).toUpperCase()}
+            </div>
+            <div className="flex-1">
+              <p className="font-bold text-emerald-50">{person.name}</p>
+              <p className="text-[10px] font-black text-emerald-800 uppercase tracking-widest">
+                {stat ? `${stat.days} days • ${formatTalkTime(stat.seconds)}` : 'No segments'}
+              </p>
+            </div>
+            <i className="fas fa-chevron-right text-emerald-900"></i>
+          </button>
+        );
+      })}
+    </div>
+  );
+};
+
+export default PeopleView;
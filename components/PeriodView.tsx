@@ -0,0 +1,214 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { DailyLog, PeriodKind, PeriodSummary } from '../types';
+import { getPeriodSummaries } from '../db';
+import { DateRange, periodRange, shiftPeriod, periodId, logsInRange, generatePeriodSummary } from '../periods';
+import { moodTone, formatMoodScore } from './MoodRibbon';
+
+interface PeriodViewProps {
+  logs: DailyLog[];
+  offlineMode: boolean;
+  initialKind: Exclude<PeriodKind, 'custom'>;
+  anchorDate: string;
+  onSelectDate: (date: string) => void;
+}
+
+const KIND_LABELS: Record<PeriodKind, string> = { week: 'Week', month: 'Month', custom: 'Range' };
+
+const formatRange = ({ from, to }: DateRange) => {
+  const format = (date: string) => new Date(`${date}T00:00:00`).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+  return from === to ? format(from) : `${format(from)} – ${format(to)}`;
+};
+
+const PeriodView: React.FC<PeriodViewProps> = ({ logs, offlineMode, initialKind, anchorDate, onSelectDate }) => {
+  const [kind, setKind] = useState<PeriodKind>(initialKind);
+  const [range, setRange] = useState<DateRange>(() => periodRange(initialKind, anchorDate));
+  const [stored, setStored] = useState<PeriodSummary[]>([]);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getPeriodSummaries().then(setStored).catch(e => console.error("Period summaries could not be read", e));
+  }, []);
+
+  const summary = stored.find(s => s.id === periodId(range));
+  const days = useMemo(() => logsInRange(logs, range), [logs, range]);
+  // Cheap staleness check: days recorded or summarized since the rollup was made
+  const isStale = !!summary && (summary.dayCount !== days.length || summary.summarizedDays !== days.filter(d => d.summary).length);
+
+  const switchKind = (next: PeriodKind) => {
+    setKind(next);
+    setError(null);
+    if (next !== 'custom') setRange(periodRange(next, range.from));
+  };
+
+  const handleGenerate = async () => {
+    setIsGenerating(true);
+    setError(null);
+    try {
+      const next = await generatePeriodSummary(kind, range, logs, offlineMode);
+      setStored(prev => [...prev.filter(s => s.id !== next.id), next]);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6 animate-in fade-in duration-500">
+      <div className="px-2 flex items-end justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-black tracking-tighter">{formatRange(range).toUpperCase()}</h2>
+          <p className="text-[10px] font-black text-emerald-800 uppercase tracking-widest">
+            {days.length} day{days.length === 1 ? '' : 's'} recorded • {days.filter(d => d.summary).length} summarized
+          </p>
+        </div>
+        {kind !== 'custom' && (
+          <div className="flex items-center gap-1 bg-emerald-950/30 p-1 rounded-2xl border border-emerald-500/10">
+            <button onClick={() => setRange(shiftPeriod(kind, range, -1))} className="w-9 h-9 flex items-center justify-center rounded-xl text-emerald-500/70 hover:text-emerald-400">
+              <i className="fas fa-chevron-left text-xs"></i>
+            </button>
+            <button onClick={() => setRange(shiftPeriod(kind, range, 1))} className="w-9 h-9 flex items-center justify-center rounded-xl text-emerald-500/70 hover:text-emerald-400">
+              <i className="fas fa-chevron-right text-xs"></i>
+            </button>
+          </div>
+        )}
+      </div>
+
+      <div className="flex gap-2">
+        {(['week', 'month', 'custom'] as PeriodKind[]).map(option => (
+          <button
+            key={option}
+            onClick={() => switchKind(option)}
+            className={`flex-1 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest border ${
+              kind === option ? 'bg-emerald-500/10 text-emerald-400 border-emerald-500/20' : 'text-emerald-800 border-emerald-900/20'
+            }`}
+          >
+            {KIND_LABELS[option]}
+          </button>
+        ))}
+      </div>
+
+      {kind === 'custom' && (
+        <div className="flex items-center gap-2">
+          <input
+            type="date"
+            value={range.from}
+            max={range.to}
+            onChange={(e) => e.target.value && setRange({ ...range, from: e.target.value })}
+            className="flex-1 min-w-0 bg-emerald-950/30 border border-emerald-500/10 rounded-xl px-3 py-2 text-xs text-emerald-100 font-mono"
+          />
+          <span className="text-emerald-800 text-xs">→</span>
+          <input
+            type="date"
+            value={range.to}
+            min={range.from}
+            onChange={(e) => e.target.value && setRange({ ...range, to: e.target.value })}
+            className="flex-1 min-w-0 bg-emerald-950/30 border border-emerald-500/10 rounded-xl px-3 py-2 text-xs text-emerald-100 font-mono"
+          />
+        </div>
+      )}
+
+      <button
+        onClick={handleGenerate}
+        disabled={isGenerating || days.length === 0}
+        className="w-full py-3 bg-emerald-500 text-slate-950 rounded-2xl font-black text-[10px] uppercase tracking-widest disabled:opacity-40"
+      >
+        {isGenerating
+          ? <><i className="fas fa-circle-notch animate-spin mr-2"></i>Summarizing {days.length} days</>
+          : summary ? 'Regenerate Summary' : `Summarize ${KIND_LABELS[kind]}`}
+      </button>
+      {error && <p className="text-[11px] font-bold text-rose-400 px-2">{error}</p>}
+      {isStale && !isGenerating && (
+        <p className="text-[10px] font-black text-amber-400/80 uppercase tracking-widest px-2">
+          <i className="fas fa-clock-rotate-left mr-2"></i>Days were recorded or summarized since this was generated
+        </p>
+      )}
+
+      {!summary && days.length > 0 && !isGenerating && (
+        <div className="glass-effect rounded-3xl p-10 text-center text-sm text-slate-500">
+          Days without a daily summary are read from their transcripts. Summarize them first for a sharper rollup.
+        </div>
+      )}
+
+      {summary && (
+        <>
+          <div className="glass-effect rounded-3xl p-6 space-y-4">
+            <p className="text-[10px] font-black text-emerald-700 uppercase tracking-widest">
+              Overview • {new Date(summary.generatedAt).toLocaleDateString()}
+            </p>
+            <p className="text-slate-300 leading-relaxed">{summary.overview}</p>
+            {summary.themes.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {summary.themes.map(theme => (
+                  <span key={theme} className="bg-emerald-500/10 text-emerald-300 px-3 py-1 rounded-full text-xs font-semibold border border-emerald-500/20">
+                    {theme}
+                  </span>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {summary.recurringTopics.length > 0 && (
+            <div className="glass-effect rounded-3xl p-6">
+              <p className="text-[10px] font-black text-emerald-700 uppercase tracking-widest mb-3">Recurring Topics</p>
+              <div className="space-y-2">
+                {summary.recurringTopics.map(({ topic, days: count }) => (
+                  <div key={topic} className="flex items-center gap-3">
+                    <span className="flex-1 text-sm text-emerald-100/80"># {topic}</span>
+                    <div className="w-24 h-1.5 bg-emerald-950/50 rounded-full overflow-hidden">
+                      <div className="h-full bg-emerald-400" style={{ width: `${(count / summary.dayCount) * 100}%` }}></div>
+                    </div>
+                    <span className="text-[10px] font-mono font-black text-emerald-700 w-12 text-right">{count} days</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {summary.openActionItems.length > 0 && (
+            <div className="glass-effect rounded-3xl p-6">
+              <p className="text-[10px] font-black text-emerald-700 uppercase tracking-widest mb-3">Open Action Items</p>
+              <ul className="space-y-3">
+                {summary.openActionItems.map(item => (
+                  <li key={`${item.date}-${item.text}`} className="flex items-start gap-3 text-slate-300 text-sm">
+                    <i className="fas fa-circle-check mt-1 text-emerald-500/40"></i>
+                    <span className="flex-1">{item.text}</span>
+                    <button onClick={() => onSelectDate(item.date)} className="text-[10px] font-mono font-black text-emerald-700 hover:text-emerald-400">
+                      {item.date.slice(5)}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {summary.moodTrend.length > 0 && (
+            <div className="glass-effect rounded-3xl p-6">
+              <p className="text-[10px] font-black text-emerald-700 uppercase tracking-widest mb-3">Mood Trend</p>
+              <div className="flex gap-2 overflow-x-auto pb-1">
+                {summary.moodTrend.map(({ date, mood, score }) => (
+                  <button
+                    key={date}
+                    onClick={() => onSelectDate(date)}
+                    className="shrink-0 px-3 py-2 rounded-xl bg-emerald-950/30 border border-emerald-500/10 text-left hover:border-emerald-500/30"
+                  >
+                    <p className="text-[9px] font-mono font-black text-emerald-700">{date.slice(5)}</p>
+                    <p className="text-xs font-bold text-emerald-100/80">{mood}</p>
+                    {score !== undefined && (
+                      <p className="flex items-center gap-1.5 text-[9px] font-mono text-emerald-700 mt-1">
+                        <span className={`w-1.5 h-1.5 rounded-full ${moodTone(score)}`}></span>{formatMoodScore(score)}
+                      </p>
+                    )}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default PeriodView;
@@ -0,0 +1,184 @@
+import React, { useState } from 'react';
+import { RetentionPolicy, RetentionAction } from '../types';
+import { previewRetention, runRetention, RetentionPlan } from '../retention';
+import { formatBytes } from '../modelStore';
+import { canArchiveAudio } from '../archiveAudio';
+
+interface RetentionPanelProps {
+  policy: RetentionPolicy;
+  onChange: (policy: RetentionPolicy) => void;
+  onDataChanged: () => void;
+}
+
+type NumberRule = 'compressAudioAfterDays' | 'deleteAudioAfterDays' | 'deleteDaysAfterDays' | 'maxAudioMB';
+
+const RULES: { key: NumberRule; label: string; unit: string }[] = [
+  { key: 'compressAudioAfterDays', label: 'Re-encode audio after', unit: 'days' },
+  { key: 'deleteAudioAfterDays', label: 'Delete audio after', unit: 'days' },
+  { key: 'deleteDaysAfterDays', label: 'Delete whole days after', unit: 'days' },
+  { key: 'maxAudioMB', label: 'Cap total audio at', unit: 'MB' }
+];
+
+const describe = (action: RetentionAction) => {
+  switch (action.kind) {
+    case 'deleteDay': return { date: action.date, text: `Delete the day${action.audioIds.length > 0 ? ` and ${action.audioIds.length} recording${action.audioIds.length === 1 ? '' : 's'}` : ''}` };
+    case 'deleteAudio': return { date: action.dates.join(', '), text: action.reason === 'cap' ? 'Delete audio (over the cap)' : 'Delete audio' };
+    case 'compress': return { date: action.dates.join(', '), text: 'Re-encode audio' };
+  }
+};
+
+const RetentionPanel: React.FC<RetentionPanelProps> = ({ policy, onChange, onDataChanged }) => {
+  const [plan, setPlan] = useState<RetentionPlan | null>(null);
+  const [busy, setBusy] = useState<{ label: string; progress: number } | null>(null);
+  const [message, setMessage] = useState<{ text: string; error?: boolean } | null>(null);
+
+  const update = (next: RetentionPolicy) => {
+    setPlan(null);
+    onChange(next);
+  };
+
+  const setRule = (key: NumberRule, value: string) => {
+    const parsed = parseInt(value, 10);
+    update({ ...policy, [key]: Number.isFinite(parsed) && parsed >= 0 ? parsed : null });
+  };
+
+  const handlePreview = async () => {
+    setMessage(null);
+    setBusy({ label: 'Checking', progress: 0 });
+    try {
+      setPlan(await previewRetention(policy));
+    } catch (e) {
+      setMessage({ text: e instanceof Error ? e.message : String(e), error: true });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleRun = async () => {
+    const removesData = plan ? plan.actions.some(a => a.kind !== 'compress') : true;
+    if (removesData && !window.confirm("Deleted audio and days can't be recovered unless you have a backup. Apply these rules now?")) return;
+    setMessage(null);
+    setBusy({ label: 'Applying', progress: 0 });
+    try {
+      const report = await runRetention(policy, {
+        onProgress: (done, total) => setBusy({ label: 'Applying', progress: total > 0 ? Math.round((done / total) * 100) : 0 })
+      });
+      setMessage({ text: report.actions > 0 ? `Done: ${report.actions} change${report.actions === 1 ? '' : 's'}, ${formatBytes(report.freedBytes)} freed` : 'Nothing to do' });
+      setPlan(null);
+      onDataChanged();
+    } catch (e) {
+      setMessage({ text: e instanceof Error ? e.message : String(e), error: true });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <div className="glass-effect rounded-3xl p-8">
+      <h2 className="text-xl font-bold">Retention</h2>
+      <p className="text-sm text-slate-400 mb-6">Applied in the background each time the app opens. Leave a rule empty to turn it off.</p>
+      {canArchiveAudio() && !canArchiveAudio(true) && (
+        <p className="text-[11px] font-bold text-amber-400 -mt-3 mb-6">
+          This browser re-encodes audio in real time, so that only happens when you press Apply Now.
+        </p>
+      )}
+
+      <div className="space-y-2">
+        {RULES.map(rule => (
+          <label key={rule.key} className="flex items-center justify-between gap-3 bg-emerald-500/5 border border-emerald-500/10 rounded-2xl px-4 py-3">
+            <span className="text-[10px] font-black text-emerald-700 uppercase tracking-widest">{rule.label}</span>
+            <span className="flex items-center gap-2">
+              <input
+                type="number"
+                min={0}
+                value={policy[rule.key] ?? ''}
+                placeholder="Off"
+                onChange={(e) => setRule(rule.key, e.target.value)}
+                className="w-20 bg-emerald-950/30 border border-emerald-500/10 rounded-xl px-3 py-1.5 text-xs text-emerald-100 font-mono text-right placeholder:text-emerald-900 focus:outline-none focus:border-emerald-400/40"
+              />
+              <span className="w-8 text-[10px] font-black text-emerald-800 uppercase tracking-widest">{rule.unit}</span>
+            </span>
+          </label>
+        ))}
+      </div>
+
+      <div className="flex gap-2 mt-3">
+        {([['keepStarredDays', 'fa-star', 'Keep starred days'], ['keepBookmarkedDays', 'fa-bookmark', 'Keep bookmarked days']] as const).map(([key, icon, label]) => (
+          <button
+            key={key}
+            onClick={() => update({ ...policy, [key]: !policy[key] })}
+            className={`flex-1 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest border transition-all ${
+              policy[key] ? 'bg-emerald-500/10 text-emerald-400 border-emerald-500/20' : 'text-emerald-800 border-emerald-900/20'
+            }`}
+          >
+            <i className={`fas ${icon} mr-2`}></i>{label}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex gap-3 mt-6">
+        <button
+          onClick={handlePreview}
+          disabled={!!busy}
+          className="flex-1 py-3 bg-emerald-500/10 text-emerald-400 border border-emerald-500/20 rounded-2xl font-black text-[10px] uppercase tracking-widest disabled:opacity-50"
+        >
+          <i className="fas fa-eye mr-2"></i>Preview
+        </button>
+        <button
+          onClick={handleRun}
+          disabled={!!busy}
+          className="flex-1 py-3 bg-emerald-500 text-slate-950 rounded-2xl font-black text-[10px] uppercase tracking-widest disabled:opacity-50"
+        >
+          <i className="fas fa-broom mr-2"></i>Apply Now
+        </button>
+      </div>
+
+      {busy && (
+        <div className="mt-4">
+          <div className="flex justify-between text-[10px] font-black text-emerald-700 uppercase tracking-widest mb-1">
+            <span>{busy.label}...</span><span>{busy.progress}%</span>
+          </div>
+          <div className="h-1.5 bg-emerald-950/50 rounded-full overflow-hidden">
+            <div className="h-full bg-emerald-400 transition-all" style={{ width: `${busy.progress}%` }}></div>
+          </div>
+        </div>
+      )}
+
+      {plan && !busy && (
+        <div className="mt-4 bg-emerald-500/5 border border-emerald-500/10 rounded-2xl p-4 space-y-3">
+          <p className="text-xs text-emerald-100/70">
+            {plan.actions.length === 0
+              ? `Nothing to do. Audio on your days takes ${formatBytes(plan.audioBytes)}.`
+              : `${plan.actions.length} change${plan.actions.length === 1 ? '' : 's'}, freeing ${formatBytes(plan.freedBytes)} of ${formatBytes(plan.audioBytes)} audio` +
+                (plan.actions.some(a => a.kind === 'compress') ? ', plus whatever re-encoding saves.' : '.')}
+          </p>
+          {plan.overCapBytes > 0 && (
+            <p className="text-[11px] font-bold text-amber-400">
+              Still {formatBytes(plan.overCapBytes)} over the cap: the rest is on kept days.
+            </p>
+          )}
+          {plan.actions.length > 0 && (
+            <ul className="max-h-56 overflow-y-auto space-y-1">
+              {plan.actions.map((action, i) => {
+                const { date, text } = describe(action);
+                return (
+                  <li key={i} className="flex items-center justify-between gap-3 text-[11px]">
+                    <span className="font-mono text-emerald-700">{date}</span>
+                    <span className={`flex-1 ${action.kind === 'compress' ? 'text-emerald-100/60' : 'text-rose-400/80'}`}>{text}</span>
+                    <span className="font-mono text-emerald-800">{formatBytes(action.bytes)}</span>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {message && (
+        <p className={`mt-4 text-[11px] font-bold ${message.error ? 'text-rose-400' : 'text-emerald-400'}`}>{message.text}</p>
+      )}
+    </div>
+  );
+};
+
+export default RetentionPanel;
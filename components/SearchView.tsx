@@ -1,64 +1,181 @@
 
-import React, { useState, useMemo } from 'react';
-import { DailyLog } from '../types';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { DailyLog, ConversationSegment } from '../types';
+import { getAudio } from '../db';
+import { runSearch, highlight, SearchResults } from '../search';
 
 interface SearchViewProps {
   logs: DailyLog[];
+  offlineMode: boolean;
+  onOpenSegment: (date: string, segmentId: string) => void;
 }
 
-const SearchView: React.FC<SearchViewProps> = ({ logs }) => {
+const SEARCH_DEBOUNCE_MS = 150;
+
+const EXAMPLES = ['"action items"', 'arch*', 'speaker:"Person 1"', 'date:2026-10..2026-11', 'topic:work', '-lunch'];
+
+const SearchView: React.FC<SearchViewProps> = ({ logs, offlineMode, onOpenSegment }) => {
   const [query, setQuery] = useState('');
+  const [semantic, setSemantic] = useState(true);
+  const [results, setResults] = useState<SearchResults | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const [playingKey, setPlayingKey] = useState<string | null>(null);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+
+  const stopSnippet = () => {
+    const audio = audioRef.current;
+    if (audio) {
+      audio.pause();
+      URL.revokeObjectURL(audio.src);
+      audioRef.current = null;
+    }
+    setPlayingKey(null);
+  };
+
+  useEffect(() => stopSnippet, []);
+
+  // Plays just the segment's stretch of its chunk, stopping at the end of the segment
+  const playSnippet = async (key: string, segment: ConversationSegment) => {
+    const wasPlaying = playingKey === key;
+    stopSnippet();
+    if (wasPlaying || !segment.audioId) return;
 
-  const results = useMemo(() => {
-    if (!query) return [];
-    const lowerQuery = query.toLowerCase();
-    const matches: { date: string, segment: any }[] = [];
+    const blob = await getAudio(segment.audioId);
+    if (!blob) return;
+    const audio = new Audio(URL.createObjectURL(blob));
+    audioRef.current = audio;
+    const end = segment.offsetInAudio + segment.duration;
+    audio.addEventListener('loadedmetadata', () => { audio.currentTime = segment.offsetInAudio; }, { once: true });
+    audio.ontimeupdate = () => { if (audio.currentTime >= end) stopSnippet(); };
+    audio.onended = stopSnippet;
+    try {
+      await audio.play();
+      setPlayingKey(key);
+    } catch (e) {
+      stopSnippet();
+    }
+  };
 
-    logs.forEach(log => {
-      log.transcripts.forEach(seg => {
-        if (seg.text.toLowerCase().includes(lowerQuery)) {
-          matches.push({ date: log.date, segment: seg });
-        }
-      });
-    });
+  // Re-runs when logs change, so freshly transcribed chunks show up without retyping
+  useEffect(() => {
+    if (!query.trim()) {
+      setResults(null);
+      return;
+    }
+    let cancelled = false;
+    setIsSearching(true);
+    const timer = setTimeout(async () => {
+      try {
+        const next = await runSearch(query, { semantic, offlineMode });
+        if (!cancelled) setResults(next);
+      } catch (e) {
+        console.error("Search failed", e);
+      } finally {
+        if (!cancelled) setIsSearching(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query, logs, semantic, offlineMode]);
 
-    return matches;
-  }, [query, logs]);
+  const segmentsById = useMemo(() => {
+    const map = new Map<string, ConversationSegment>();
+    logs.forEach(log => log.transcripts.forEach(seg => map.set(`${log.date}|${seg.id}`, seg)));
+    return map;
+  }, [logs]);
+
+  const hits = (results?.hits || []).filter(hit => segmentsById.has(`${hit.date}|${hit.segmentId}`));
 
   return (
     <div className="space-y-6">
       <div className="glass-effect rounded-3xl p-6">
         <div className="relative">
-          <i className="fas fa-magnifying-glass absolute left-4 top-1/2 -translate-y-1/2 text-slate-500"></i>
-          <input 
-            type="text" 
+          <i className={`fas ${isSearching ? 'fa-circle-notch animate-spin' : 'fa-magnifying-glass'} absolute left-4 top-1/2 -translate-y-1/2 text-slate-500`}></i>
+          <input
+            type="text"
             placeholder="Search transcripts, speakers, or topics..."
             value={query}
             onChange={(e) => setQuery(e.target.value)}
-            className="w-full bg-slate-800 border border-slate-700 rounded-2xl py-4 pl-12 pr-6 focus:outline-none focus:ring-2 focus:ring-indigo-500/50 transition-all text-slate-200"
+            className="w-full bg-slate-800 border border-slate-700 rounded-2xl py-4 pl-12 pr-14 focus:outline-none focus:ring-2 focus:ring-indigo-500/50 transition-all text-slate-200"
           />
+          <button
+            onClick={() => setSemantic(!semantic)}
+            title={semantic ? 'Matching by meaning and keywords' : 'Matching keywords only'}
+            className={`absolute right-3 top-1/2 -translate-y-1/2 w-9 h-9 rounded-xl flex items-center justify-center transition-colors ${
+              semantic ? 'bg-indigo-500/20 text-indigo-300' : 'text-slate-600 hover:text-slate-400'
+            }`}
+          >
+            <i className="fas fa-wand-magic-sparkles text-xs"></i>
+          </button>
+        </div>
+        <div className="flex flex-wrap gap-2 mt-4">
+          {EXAMPLES.map(example => (
+            <button
+              key={example}
+              onClick={() => setQuery(q => q.trim() ? `${q.trim()} ${example}` : example)}
+              className="text-[10px] font-mono bg-slate-800/60 text-slate-500 hover:text-indigo-300 px-2 py-1 rounded-lg transition-colors"
+            >
+              {example}
+            </button>
+          ))}
         </div>
       </div>
 
       <div className="space-y-4">
-        {query && results.length === 0 && (
+        {query && results && hits.length === 0 && (
           <div className="text-center py-20 text-slate-500">
             No results found for "{query}"
           </div>
         )}
 
-        {results.map((res, idx) => (
-          <div key={idx} className="glass-effect rounded-2xl p-5 border-l-4 border-indigo-500 hover:bg-slate-800/40 transition-colors">
-            <div className="flex items-center justify-between mb-3">
-              <div className="flex items-center gap-3">
-                <span className="text-xs font-bold text-indigo-400 uppercase tracking-widest">{res.date}</span>
-                <span className="text-xs text-slate-600 font-mono">{res.segment.startTime}</span>
+        {results && hits.length > 0 && (
+          <p className="text-[10px] font-bold text-slate-500 uppercase tracking-widest px-2">
+            {results.total > hits.length ? `Top ${hits.length} of ${results.total}` : results.total} matching segments
+          </p>
+        )}
+
+        {hits.map(hit => {
+          const key = `${hit.date}|${hit.segmentId}`;
+          const segment = segmentsById.get(key)!;
+          return (
+            <div
+              key={key}
+              onClick={() => { stopSnippet(); onOpenSegment(hit.date, hit.segmentId); }}
+              className="glass-effect rounded-2xl p-5 border-l-4 border-indigo-500 hover:bg-slate-800/40 transition-colors cursor-pointer"
+            >
+              <div className="flex items-center justify-between mb-3">
+                <div className="flex items-center gap-3">
+                  <span className="text-xs font-bold text-indigo-400 uppercase tracking-widest">{hit.date}</span>
+                  <span className="text-xs text-slate-600 font-mono">{segment.startTime}</span>
+                  {hit.related && (
+                    <span className="text-[9px] text-indigo-300/70 uppercase font-bold tracking-widest">Related</span>
+                  )}
+                </div>
+                <div className="flex items-center gap-2">
+                  <span className="text-[10px] bg-slate-700 text-slate-400 px-2 py-0.5 rounded uppercase font-bold">{segment.speaker}</span>
+                  {segment.audioId && (
+                    <button
+                      onClick={(e) => { e.stopPropagation(); playSnippet(key, segment); }}
+                      title="Play this snippet"
+                      className={`w-7 h-7 rounded-full flex items-center justify-center transition-colors ${
+                        playingKey === key ? 'bg-indigo-500 text-slate-950' : 'bg-slate-700 text-indigo-300 hover:bg-slate-600'
+                      }`}
+                    >
+                      <i className={`fas ${playingKey === key ? 'fa-stop' : 'fa-play'} text-[9px]`}></i>
+                    </button>
+                  )}
+                </div>
               </div>
-              <span className="text-[10px] bg-slate-700 text-slate-400 px-2 py-0.5 rounded uppercase font-bold">{res.segment.speaker}</span>
+              <p className="text-slate-300 italic">
+                "{highlight(segment.text, results!.matchedTerms).map((part, i) => part.match
+                  ? <mark key={i} className="bg-indigo-500/30 text-indigo-100 not-italic rounded px-0.5">{part.text}</mark>
+                  : <React.Fragment key={i}>{part.text}</React.Fragment>)}"
+              </p>
             </div>
-            <p className="text-slate-300 italic">"...{res.segment.text}..."</p>
-          </div>
-        ))}
+          );
+        })}
       </div>
     </div>
   );
@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import { ConversationSegment, Person } from '../types';
+import { AssignScope, originalLabel } from '../people';
+
+interface SpeakerEditorProps {
+  segment: ConversationSegment;
+  people: Person[];
+  onSave: (name: string | null, scope: AssignScope) => Promise<void>; // null resets to the transcriber's label
+  onClose: () => void;
+}
+
+const SpeakerEditor: React.FC<SpeakerEditorProps> = ({ segment, people, onSave, onClose }) => {
+  const [name, setName] = useState(segment.personId ? segment.speaker : '');
+  const [scope, setScope] = useState<AssignScope>(segment.audioId ? 'recording' : 'segment');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const save = async (value: string | null) => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await onSave(value, scope);
+      onClose();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const listId = `people-${segment.id}`;
+
+  return (
+    <form
+      onSubmit={(e) => { e.preventDefault(); if (name.trim()) save(name); }}
+      className="mb-4 p-4 rounded-2xl bg-emerald-950/40 border border-emerald-500/10 space-y-3"
+    >
+      <div className="flex items-center justify-between text-[9px] font-black uppercase tracking-widest text-emerald-700">
+        <span>Who is "{originalLabel(segment)}"?</span>
+        <button type="button" onClick={onClose} className="text-emerald-800 hover:text-emerald-400"><i className="fas fa-times"></i></button>
+      </div>
+      <input
+        autoFocus
+        list={listId}
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        placeholder="Name or pick someone"
+        className="w-full bg-emerald-950/30 border border-emerald-500/10 rounded-xl px-3 py-2 text-sm text-emerald-50 placeholder:text-emerald-900 focus:outline-none focus:border-emerald-500/40"
+      />
+      <datalist id={listId}>
+        {people.map(p => <option key={p.id} value={p.name} />)}
+      </datalist>
+      {segment.audioId && (
+        <div className="flex gap-2">
+          {(['recording', 'segment'] as AssignScope[]).map(option => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => setScope(option)}
+              className={`flex-1 py-1.5 rounded-lg text-[9px] font-black uppercase tracking-widest border ${
+                scope === option ? 'bg-emerald-500/10 text-emerald-400 border-emerald-500/20' : 'text-emerald-800 border-emerald-900/20'
+              }`}
+            >
+              {option === 'recording' ? 'Whole recording' : 'This segment'}
+            </button>
+          ))}
+        </div>
+      )}
+      {error && <p className="text-[11px] font-bold text-rose-400">{error}</p>}
+      <div className="flex gap-2">
+        <button
+          type="submit"
+          disabled={!name.trim() || isSaving}
+          className="flex-1 py-2 bg-emerald-500 text-slate-950 rounded-xl text-[10px] font-black uppercase tracking-widest disabled:opacity-50"
+        >
+          Save
+        </button>
+        {segment.personId && (
+          <button
+            type="button"
+            onClick={() => save(null)}
+            disabled={isSaving}
+            className="px-4 py-2 text-emerald-700 text-[10px] font-black uppercase tracking-widest"
+          >
+            Reset
+          </button>
+        )}
+      </div>
+    </form>
+  );
+};
+
+export default SpeakerEditor;
@@ -1,37 +1,32 @@
 
-import React, { useState, useEffect, useMemo } from 'react';
-import { DailyLog } from '../types';
-import { getStorageStats, getAllLogs } from '../db';
+import React, { useState, useEffect } from 'react';
+import { getStorageStats } from '../db';
 
+// Totals for whatever range the Insights view has selected
 interface StatsProps {
-  currentLog: DailyLog | null;
-  totalLogs: number;
+  minutes: number;
+  words: number;
+  days: number;
 }
 
-const StatsOverview: React.FC<StatsProps> = ({ currentLog, totalLogs }) => {
+const StatsOverview: React.FC<StatsProps> = ({ minutes, words, days }) => {
   const [storage, setStorage] = useState({ usageMB: 0, quotaMB: 0, percentUsed: 0 });
-  const [recentLogs, setRecentLogs] = useState<DailyLog[]>([]);
 
   useEffect(() => {
-    const fetchStats = async () => {
-      const stats = await getStorageStats();
-      setStorage(stats);
-      const all = await getAllLogs();
-      setRecentLogs(all.slice(-5).reverse());
-    };
+    const fetchStats = async () => setStorage(await getStorageStats());
     fetchStats();
     const interval = setInterval(fetchStats, 15000);
     return () => clearInterval(interval);
-  }, [currentLog]);
+  }, []);
 
   const storageProgress = Math.min((storage.usageMB / 5120) * 100, 100);
 
   return (
-    <div className="space-y-4 mb-10">
+    <div className="space-y-4">
       <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
-        <StatItem icon="fa-stopwatch" value={currentLog?.recordingDurationMinutes.toFixed(0) || '0'} label="MINS" />
-        <StatItem icon="fa-comment-dots" value={currentLog?.transcripts.length.toString() || '0'} label="LINES" />
-        <StatItem icon="fa-calendar" value={totalLogs.toString()} label="DAYS" />
+        <StatItem icon="fa-stopwatch" value={minutes.toFixed(0)} label="MINS" />
+        <StatItem icon="fa-comment-dots" value={words >= 10000 ? `${Math.round(words / 1000)}k` : words.toString()} label="WORDS" />
+        <StatItem icon="fa-calendar" value={days.toString()} label="DAYS" />
         <StatItem icon="fa-database" value={`${storage.usageMB}MB`} label="SIZE" />
       </div>
 
@@ -4,9 +4,10 @@ import { DailySummary } from '../types';
 
 interface SummaryViewProps {
   summary: DailySummary | undefined;
+  onOpenTopic?: (topic: string) => void;
 }
 
-const SummaryView: React.FC<SummaryViewProps> = ({ summary }) => {
+const SummaryView: React.FC<SummaryViewProps> = ({ summary, onOpenTopic }) => {
   if (!summary) {
     return (
       <div className="glass-effect rounded-3xl p-12 flex flex-col items-center text-center">
@@ -38,9 +39,13 @@ const SummaryView: React.FC<SummaryViewProps> = ({ summary }) => {
 
         <div className="flex flex-wrap gap-2">
           {summary.topics.map((topic, idx) => (
-            <span key={idx} className="bg-slate-800 text-slate-300 px-3 py-1 rounded-full text-xs font-semibold border border-slate-700">
+            <button
+              key={idx}
+              onClick={() => onOpenTopic?.(topic)}
+              className="bg-slate-800 text-slate-300 px-3 py-1 rounded-full text-xs font-semibold border border-slate-700 hover:border-emerald-500/40 hover:text-emerald-300 transition-colors"
+            >
               # {topic}
-            </span>
+            </button>
           ))}
         </div>
       </div>
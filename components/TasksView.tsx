@@ -0,0 +1,164 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Task } from '../types';
+import { getTasks, deleteTask } from '../db';
+import { updateTask, isOverdue } from '../tasks';
+import { todayKey } from '../localTime';
+
+interface TasksViewProps {
+  onOpenSegment: (date: string, segmentId: string, play?: boolean) => void;
+  onSelectDate: (date: string) => void;
+}
+
+type TaskFilter = 'open' | 'overdue' | 'done' | 'all';
+
+const FILTER_LABELS: Record<TaskFilter, string> = { open: 'Open', overdue: 'Overdue', done: 'Done', all: 'All' };
+
+// Open before done, then soonest due (so overdue comes first), then newest; undated tasks after dated ones
+const byUrgency = (a: Task, b: Task) =>
+  (a.status === b.status ? 0 : a.status === 'open' ? -1 : 1) ||
+  (a.dueDate || '9999').localeCompare(b.dueDate || '9999') ||
+  b.createdAt - a.createdAt;
+
+const TasksView: React.FC<TasksViewProps> = ({ onOpenSegment, onSelectDate }) => {
+  const [tasks, setTasks] = useState<Task[]>([]);
+  const [filter, setFilter] = useState<TaskFilter>('open');
+  const [query, setQuery] = useState('');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [draftNotes, setDraftNotes] = useState('');
+
+  useEffect(() => {
+    getTasks().then(setTasks).catch(e => console.error("Tasks could not be read", e));
+  }, []);
+
+  const today = todayKey();
+  const visible = useMemo(() => {
+    const needle = query.trim().toLowerCase();
+    return tasks
+      .filter(task =>
+        filter === 'all' ? true :
+        filter === 'overdue' ? isOverdue(task, today) :
+        task.status === filter)
+      .filter(task => !needle || task.text.toLowerCase().includes(needle) || task.notes?.toLowerCase().includes(needle))
+      .sort(byUrgency);
+  }, [tasks, filter, query, today]);
+
+  const counts = useMemo(() => ({
+    open: tasks.filter(t => t.status === 'open').length,
+    overdue: tasks.filter(t => isOverdue(t, today)).length,
+    done: tasks.filter(t => t.status === 'done').length,
+    all: tasks.length
+  }), [tasks, today]);
+
+  const change = async (task: Task, changes: Parameters<typeof updateTask>[1]) => {
+    const next = await updateTask(task, changes);
+    setTasks(prev => prev.map(t => (t.id === next.id ? next : t)));
+  };
+
+  const remove = async (task: Task) => {
+    if (!window.confirm(`Delete "${task.text}"?`)) return;
+    await deleteTask(task.id);
+    setTasks(prev => prev.filter(t => t.id !== task.id));
+  };
+
+  const toggleExpanded = (task: Task) => {
+    setExpandedId(expandedId === task.id ? null : task.id);
+    setDraftNotes(task.notes || '');
+  };
+
+  return (
+    <div className="space-y-4 animate-in fade-in duration-500">
+      <div className="px-2">
+        <h2 className="text-2xl font-black tracking-tighter">TASKS</h2>
+        <p className="text-[10px] font-black text-emerald-800 uppercase tracking-widest">Action items from your daily summaries</p>
+      </div>
+
+      <div className="flex gap-2">
+        {(Object.keys(FILTER_LABELS) as TaskFilter[]).map(option => (
+          <button
+            key={option}
+            onClick={() => setFilter(option)}
+            className={`flex-1 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest border ${
+              filter === option ? 'bg-emerald-500/10 text-emerald-400 border-emerald-500/20' : 'text-emerald-800 border-emerald-900/20'
+            }`}
+          >
+            {FILTER_LABELS[option]} <span className="opacity-60">{counts[option]}</span>
+          </button>
+        ))}
+      </div>
+
+      <input
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        placeholder="Filter tasks..."
+        className="w-full bg-emerald-950/30 border border-emerald-500/10 rounded-2xl px-4 py-3 text-sm text-emerald-50 placeholder:text-emerald-900 focus:outline-none focus:border-emerald-500/40"
+      />
+
+      {visible.length === 0 && (
+        <div className="glass-effect rounded-3xl p-10 text-center text-sm text-slate-500">
+          {tasks.length === 0 ? 'Generate a daily summary and its action items will show up here.' : 'Nothing matches.'}
+        </div>
+      )}
+
+      {visible.map(task => {
+        const overdue = isOverdue(task, today);
+        const isExpanded = expandedId === task.id;
+        return (
+          <div key={task.id} className={`glass-effect rounded-2xl p-4 border ${overdue ? 'border-rose-500/20' : 'border-emerald-500/5'}`}>
+            <div className="flex items-start gap-3">
+              <button
+                onClick={() => change(task, { status: task.status === 'open' ? 'done' : 'open' })}
+                className={`mt-0.5 w-5 h-5 shrink-0 rounded-md border flex items-center justify-center ${
+                  task.status === 'done' ? 'bg-emerald-500 border-emerald-500 text-slate-950' : 'border-emerald-700'
+                }`}
+              >
+                {task.status === 'done' && <i className="fas fa-check text-[10px]"></i>}
+              </button>
+              <button onClick={() => toggleExpanded(task)} className="flex-1 text-left">
+                <p className={`text-sm ${task.status === 'done' ? 'text-emerald-100/30 line-through' : 'text-emerald-50'}`}>{task.text}</p>
+                <p className="text-[9px] font-black uppercase tracking-widest mt-1 text-emerald-800">
+                  {task.sourceDate}
+                  {task.dueDate && <span className={overdue ? 'text-rose-400' : ''}> • due {task.dueDate}</span>}
+                  {task.notes && <i className="fas fa-note-sticky ml-2"></i>}
+                </p>
+              </button>
+              <button
+                onClick={() => task.sourceSegmentId ? onOpenSegment(task.sourceDate, task.sourceSegmentId, false) : onSelectDate(task.sourceDate)}
+                title={task.sourceSegmentId ? 'Where it was said' : 'Open the day'}
+                className="text-emerald-800 hover:text-emerald-400 px-1"
+              >
+                <i className={`fas ${task.sourceSegmentId ? 'fa-quote-right' : 'fa-calendar-day'} text-xs`}></i>
+              </button>
+            </div>
+
+            {isExpanded && (
+              <div className="mt-4 pl-8 space-y-3">
+                <label className="flex items-center gap-3 text-[10px] font-black text-emerald-700 uppercase tracking-widest">
+                  Due
+                  <input
+                    type="date"
+                    value={task.dueDate || ''}
+                    onChange={(e) => change(task, { dueDate: e.target.value || undefined })}
+                    className="bg-emerald-950/30 border border-emerald-500/10 rounded-xl px-3 py-1.5 text-xs text-emerald-100 font-mono"
+                  />
+                </label>
+                <textarea
+                  value={draftNotes}
+                  onChange={(e) => setDraftNotes(e.target.value)}
+                  onBlur={() => draftNotes !== (task.notes || '') && change(task, { notes: draftNotes.trim() || undefined })}
+                  placeholder="Notes"
+                  rows={3}
+                  className="w-full bg-emerald-950/30 border border-emerald-500/10 rounded-xl px-3 py-2 text-sm text-emerald-50 placeholder:text-emerald-900 focus:outline-none focus:border-emerald-500/40"
+                />
+                <button onClick={() => remove(task)} className="text-[10px] font-black text-rose-500/70 uppercase tracking-widest">
+                  <i className="fas fa-trash mr-2"></i>Delete
+                </button>
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default TasksView;
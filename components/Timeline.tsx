@@ -1,21 +1,58 @@
 
 import React, { useState, useRef, useEffect, useMemo } from 'react';
-import { DailyLog, ConversationSegment } from '../types';
-import { getAudio } from '../db';
+import { DailyLog, ConversationSegment, SpeechRegion, Person, SegmentTopic } from '../types';
+import { getAudio, getSpeechRegions } from '../db';
+import { nextSpeechTime } from '../vad';
+import { AssignScope } from '../people';
+import { SegmentEdit, canMergeWithNext } from '../segmentEdits';
+import { canonicalTopic } from '../topics';
+import ExportMenu from './ExportMenu';
+import SpeakerEditor from './SpeakerEditor';
+import MoodRibbon, { moodTone, formatMoodScore } from './MoodRibbon';
+
+// Set by other views (e.g. a search hit) to bring one segment into view, optionally playing it
+export interface TimelineJump {
+  segmentId: string;
+  play: boolean;
+}
 
 interface TimelineProps {
   log: DailyLog | null;
+  jumpTo?: TimelineJump | null;
+  onJumpHandled?: () => void;
   onSummarize: () => void;
   onDelete: () => void;
+  onToggleStar?: () => void;
+  people?: Person[];
+  onSpeakerChange?: (segment: ConversationSegment, name: string | null, scope: AssignScope) => Promise<void>;
+  onSegmentEdit?: (edit: SegmentEdit) => Promise<void>;
+  knownTopics?: string[]; // Offered while tagging, and typed names that match one take its spelling
+  onTopicsChange?: (segment: ConversationSegment, topics: SegmentTopic[]) => Promise<void>;
+  onOpenTopic?: (topic: string) => void;
   isProcessing: boolean;
   offlineMode?: boolean;
   isViewingPast?: boolean;
 }
 
-const Timeline: React.FC<TimelineProps> = ({ log, onSummarize, onDelete, isProcessing, isViewingPast = false }) => {
+const Timeline: React.FC<TimelineProps> = ({ log, jumpTo, onJumpHandled, onSummarize, onDelete, onToggleStar, people = [], onSpeakerChange, onSegmentEdit, knownTopics = [], onTopicsChange, onOpenTopic, isProcessing, isViewingPast = false }) => {
   const [playingAudioId, setPlayingAudioId] = useState<string | null>(null);
+  const [editingSpeakerId, setEditingSpeakerId] = useState<string | null>(null);
+  const [editingTextId, setEditingTextId] = useState<string | null>(null);
+  const [draftText, setDraftText] = useState('');
+  const [editError, setEditError] = useState<{ segmentId: string; message: string } | null>(null);
+  const [taggingId, setTaggingId] = useState<string | null>(null);
+  const [draftTopic, setDraftTopic] = useState('');
+  const textareaRef = useRef<HTMLTextAreaElement | null>(null);
   const [currentTime, setCurrentTime] = useState(0);
+  const [skipSilence, setSkipSilence] = useState(true);
+  const [highlightsOnly, setHighlightsOnly] = useState(false);
   const audioRef = useRef<HTMLAudioElement | null>(null);
+  const speechRegionsRef = useRef<SpeechRegion[] | undefined>(undefined);
+  const skipSilenceRef = useRef(skipSilence);
+
+  useEffect(() => {
+    skipSilenceRef.current = skipSilence;
+  }, [skipSilence]);
 
   const activeSegmentId = useMemo(() => {
     if (!playingAudioId || !log) return null;
@@ -36,9 +73,29 @@ const Timeline: React.FC<TimelineProps> = ({ log, onSummarize, onDelete, isProce
     }
   }, [activeSegmentId]);
 
-  const playAudio = async (audioId: string) => {
+  // The log may still be loading when a jump arrives, so this waits until the segment exists
+  useEffect(() => {
+    if (!jumpTo || !log) return;
+    const segment = log.transcripts.find(s => s.id === jumpTo.segmentId);
+    if (!segment) return;
+    onJumpHandled?.();
+    document.getElementById(`segment-${segment.id}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    if (jumpTo.play && segment.audioId) playAudio(segment.audioId, segment.offsetInAudio);
+  }, [jumpTo, log]);
+
+  // Seeking before metadata has loaded is ignored by some browsers
+  const seek = (audio: HTMLAudioElement, seconds: number) => {
+    if (audio.readyState >= HTMLMediaElement.HAVE_METADATA) audio.currentTime = seconds;
+    else audio.addEventListener('loadedmetadata', () => { audio.currentTime = seconds; }, { once: true });
+  };
+
+  // With startAt, playback (re)starts there even if the chunk is already loaded; without it, toggles play/pause
+  const playAudio = async (audioId: string, startAt?: number) => {
     if (playingAudioId === audioId && audioRef.current) {
-      if (audioRef.current.paused) audioRef.current.play();
+      if (startAt !== undefined) {
+        seek(audioRef.current, startAt);
+        if (audioRef.current.paused) audioRef.current.play();
+      } else if (audioRef.current.paused) audioRef.current.play();
       else {
         audioRef.current.pause();
         setPlayingAudioId(null);
@@ -48,16 +105,34 @@ const Timeline: React.FC<TimelineProps> = ({ log, onSummarize, onDelete, isProce
 
     const blob = await getAudio(audioId);
     if (!blob) return;
+    speechRegionsRef.current = await getSpeechRegions(audioId);
 
     const url = URL.createObjectURL(blob);
-    if (!audioRef.current) audioRef.current = new Audio();
-    audioRef.current.src = url;
-    audioRef.current.ontimeupdate = () => setCurrentTime(audioRef.current?.currentTime || 0);
-    audioRef.current.onended = () => {
+    const finishPlayback = () => {
       setPlayingAudioId(null);
       setCurrentTime(0);
       URL.revokeObjectURL(url);
     };
+    if (!audioRef.current) audioRef.current = new Audio();
+    audioRef.current.src = url;
+    audioRef.current.ontimeupdate = () => {
+      const audio = audioRef.current;
+      if (!audio) return;
+      const regions = speechRegionsRef.current;
+      if (skipSilenceRef.current && regions) {
+        const next = nextSpeechTime(regions, audio.currentTime);
+        if (next === null) {
+          // Only silence left in this chunk
+          audio.pause();
+          finishPlayback();
+          return;
+        }
+        if (next - audio.currentTime > 0.25) audio.currentTime = next;
+      }
+      setCurrentTime(audio.currentTime);
+    };
+    audioRef.current.onended = finishPlayback;
+    if (startAt) seek(audioRef.current, startAt);
 
     try {
       await audioRef.current.play();
@@ -65,6 +140,47 @@ const Timeline: React.FC<TimelineProps> = ({ log, onSummarize, onDelete, isProce
     } catch (e) {}
   };
 
+  const startEditing = (segment: ConversationSegment) => {
+    setEditingTextId(segment.id);
+    setDraftText(segment.text);
+    setEditError(null);
+  };
+
+  // Errors stay next to the segment; a successful edit closes the editor
+  const runEdit = async (edit: SegmentEdit) => {
+    if (!onSegmentEdit) return;
+    setEditError(null);
+    try {
+      await onSegmentEdit(edit);
+      setEditingTextId(null);
+    } catch (e) {
+      setEditError({ segmentId: edit.segmentId, message: e instanceof Error ? e.message : String(e) });
+    }
+  };
+
+  const changeTopics = async (segment: ConversationSegment, topics: SegmentTopic[]) => {
+    if (!onTopicsChange) return;
+    setEditError(null);
+    try {
+      await onTopicsChange(segment, topics);
+    } catch (e) {
+      setEditError({ segmentId: segment.id, message: e instanceof Error ? e.message : String(e) });
+    }
+  };
+
+  const addTopic = (segment: ConversationSegment) => {
+    const name = canonicalTopic(draftTopic, knownTopics);
+    setDraftTopic('');
+    if (name) changeTopics(segment, [...(segment.topics || []), { name, source: 'manual' }]);
+  };
+
+  const highlights = log ? log.transcripts.filter(s => s.bookmarks) : [];
+
+  const scrollToHour = (hour: number) => {
+    const segment = log?.transcripts.find(s => (parseInt(s.startTime, 10) || 0) === hour);
+    if (segment) document.getElementById(`segment-${segment.id}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  };
+
   if (!log || (log.transcripts.length === 0 && !isProcessing)) {
     return (
       <div className="relative overflow-hidden flex flex-col items-center justify-center py-32 px-6 glass-effect rounded-[48px] border-emerald-500/10 mt-4 animate-in fade-in zoom-in duration-1000">
@@ -117,6 +233,34 @@ const Timeline: React.FC<TimelineProps> = ({ log, onSummarize, onDelete, isProce
         </div>
         
         <div className="flex gap-2">
+          <button
+            onClick={onToggleStar}
+            title={log.starred ? 'Starred: kept by retention rules' : 'Star this day to keep it'}
+            className={`w-11 h-11 flex items-center justify-center rounded-2xl border transition-all ${
+              log.starred ? 'bg-amber-400/10 text-amber-400 border-amber-400/20' : 'bg-emerald-900/5 text-emerald-800 border-emerald-900/10'
+            }`}
+          >
+            <i className="fas fa-star text-sm"></i>
+          </button>
+          <button
+            onClick={() => setHighlightsOnly(!highlightsOnly)}
+            title="Highlights: only bookmarked segments"
+            className={`w-11 h-11 flex items-center justify-center rounded-2xl border transition-all ${
+              highlightsOnly ? 'bg-amber-400/10 text-amber-400 border-amber-400/20' : 'bg-emerald-900/5 text-emerald-800 border-emerald-900/10'
+            }`}
+          >
+            <i className="fas fa-bookmark text-sm"></i>
+          </button>
+          <button 
+            onClick={() => setSkipSilence(!skipSilence)}
+            title="Skip silence during playback"
+            className={`w-11 h-11 flex items-center justify-center rounded-2xl border transition-all ${
+              skipSilence ? 'bg-emerald-500/10 text-emerald-400 border-emerald-400/20' : 'bg-emerald-900/5 text-emerald-800 border-emerald-900/10'
+            }`}
+          >
+            <i className="fas fa-forward text-sm"></i>
+          </button>
+          <ExportMenu logs={[log]} />
           <button 
             onClick={onDelete}
             className="w-11 h-11 flex items-center justify-center bg-rose-500/5 text-rose-500 border border-rose-500/10 rounded-2xl transition-all hover:bg-rose-500/10"
@@ -135,8 +279,19 @@ const Timeline: React.FC<TimelineProps> = ({ log, onSummarize, onDelete, isProce
         </div>
       </div>
 
+      <MoodRibbon log={log} onSelectHour={scrollToHour} />
+
+      <datalist id="timeline-known-topics">
+        {knownTopics.map(topic => <option key={topic} value={topic} />)}
+      </datalist>
+
       <div className="relative pl-8 sm:pl-12 border-l-[3px] border-emerald-900/10 space-y-12 pb-24">
-        {log.transcripts.map((segment) => {
+        {highlightsOnly && highlights.length === 0 && (
+          <p className="text-[10px] font-black text-emerald-800 uppercase tracking-widest">
+            No highlights on this day. Press Bookmark while recording to flag a moment.
+          </p>
+        )}
+        {(highlightsOnly ? highlights : log.transcripts).map((segment) => {
           const isChunkPlaying = playingAudioId === segment.audioId;
           const isActive = activeSegmentId === segment.id;
 
@@ -161,20 +316,27 @@ const Timeline: React.FC<TimelineProps> = ({ log, onSummarize, onDelete, isProce
                 <div className={`glass-effect p-5 sm:p-7 rounded-[32px] sm:rounded-[40px] border transition-all duration-500 ${
                   isActive 
                   ? 'border-emerald-400/40 bg-emerald-500/10 scale-[1.01] shadow-2xl z-10' 
-                  : 'border-emerald-500/5 opacity-80 hover:opacity-100'
+                  : segment.bookmarks
+                    ? 'border-amber-400/30 bg-amber-400/[0.03]'
+                    : 'border-emerald-500/5 opacity-80 hover:opacity-100'
                 }`}>
                   <div className="flex items-center justify-between mb-4">
                     <div className="flex items-center gap-4">
-                      <span className={`text-[9px] font-black uppercase tracking-[0.2em] px-3 py-1.5 rounded-xl transition-all ${
-                        segment.speaker === 'You' 
-                          ? 'text-slate-900 bg-emerald-400' 
-                          : 'text-emerald-500 bg-emerald-500/5 border border-emerald-500/10'
-                      }`}>
+                      <button
+                        onClick={() => onSpeakerChange && setEditingSpeakerId(editingSpeakerId === segment.id ? null : segment.id)}
+                        title={segment.personId ? `Transcribed as ${segment.speakerLabel}` : 'Who is this?'}
+                        className={`text-[9px] font-black uppercase tracking-[0.2em] px-3 py-1.5 rounded-xl transition-all ${
+                          segment.speaker === 'You' 
+                            ? 'text-slate-900 bg-emerald-400' 
+                            : 'text-emerald-500 bg-emerald-500/5 border border-emerald-500/10'
+                        }`}
+                      >
+                        {segment.personId && <i className="fas fa-user mr-1.5 opacity-60"></i>}
                         {segment.speaker}
-                      </span>
+                      </button>
                       {segment.audioId && (
                         <button 
-                          onClick={() => playAudio(segment.audioId!)}
+                          onClick={() => isChunkPlaying ? playAudio(segment.audioId!) : playAudio(segment.audioId!, segment.offsetInAudio)}
                           className={`w-9 h-9 rounded-full flex items-center justify-center transition-all ${
                             isChunkPlaying ? 'bg-emerald-500 text-slate-900 shadow-xl' : 'bg-emerald-500/5 text-emerald-500 hover:bg-emerald-500/10 border border-emerald-500/10'
                           }`}
@@ -182,13 +344,125 @@ const Timeline: React.FC<TimelineProps> = ({ log, onSummarize, onDelete, isProce
                           <i className={`fas ${isChunkPlaying && audioRef.current && !audioRef.current.paused ? 'fa-pause' : 'fa-play'} text-[10px]`}></i>
                         </button>
                       )}
+                      {segment.machine && (
+                        <span className="text-[8px] font-black uppercase tracking-widest text-emerald-800" title="Edited by hand">Edited</span>
+                      )}
+                      {segment.bookmarks && (
+                        <span className="text-[8px] font-black uppercase tracking-widest text-amber-400">
+                          <i className="fas fa-bookmark mr-1.5"></i>
+                          {segment.bookmarks.map(b => b.label).filter(Boolean).join(' • ') || 'Highlight'}
+                        </span>
+                      )}
+                      {segment.sentiment && (
+                        <span
+                          className="flex items-center gap-1.5 text-[8px] font-black uppercase tracking-widest text-emerald-800"
+                          title={`Sentiment ${formatMoodScore(segment.sentiment.score)} (${segment.sentiment.source === 'model' ? 'summary model' : 'word list'})`}
+                        >
+                          <span className={`w-1.5 h-1.5 rounded-full ${moodTone(segment.sentiment.score)}`}></span>
+                          {segment.sentiment.emotion}
+                        </span>
+                      )}
                     </div>
+                    {onSegmentEdit && editingTextId !== segment.id && (
+                      <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+                        <SegmentAction icon="fa-pen" title="Edit text" onClick={() => startEditing(segment)} />
+                        {onTopicsChange && (
+                          <SegmentAction icon="fa-hashtag" title="Add a topic" onClick={() => { setTaggingId(segment.id); setDraftTopic(''); }} />
+                        )}
+                        {canMergeWithNext(log, segment.id) && (
+                          <SegmentAction icon="fa-link" title="Merge with next segment" onClick={() => runEdit({ kind: 'merge', segmentId: segment.id })} />
+                        )}
+                        {segment.machine && (
+                          <SegmentAction icon="fa-rotate-left" title="Revert to machine transcript" onClick={() => runEdit({ kind: 'revert', segmentId: segment.id })} />
+                        )}
+                        <SegmentAction icon="fa-trash-alt" title="Delete segment" danger onClick={() => runEdit({ kind: 'delete', segmentId: segment.id })} />
+                      </div>
+                    )}
                   </div>
-                  <p className={`text-base sm:text-lg font-medium leading-relaxed transition-all duration-500 ${
-                    isActive ? 'text-emerald-50' : 'text-emerald-100/50'
-                  }`}>
-                    {segment.text}
-                  </p>
+                  {editingSpeakerId === segment.id && onSpeakerChange && (
+                    <SpeakerEditor
+                      segment={segment}
+                      people={people}
+                      onSave={(name, scope) => onSpeakerChange(segment, name, scope)}
+                      onClose={() => setEditingSpeakerId(null)}
+                    />
+                  )}
+                  {editingTextId === segment.id ? (
+                    <div className="space-y-3">
+                      <textarea
+                        ref={textareaRef}
+                        autoFocus
+                        value={draftText}
+                        onChange={(e) => setDraftText(e.target.value)}
+                        rows={Math.min(8, Math.max(2, Math.ceil(draftText.length / 60)))}
+                        className="w-full bg-emerald-950/30 border border-emerald-500/10 rounded-2xl px-4 py-3 text-base text-emerald-50 leading-relaxed focus:outline-none focus:border-emerald-500/40"
+                      />
+                      <div className="flex gap-2">
+                        <button
+                          onClick={() => runEdit({ kind: 'text', segmentId: segment.id, text: draftText })}
+                          className="flex-1 py-2 bg-emerald-500 text-slate-950 rounded-xl text-[10px] font-black uppercase tracking-widest"
+                        >
+                          Save
+                        </button>
+                        <button
+                          onClick={() => runEdit({ kind: 'split', segmentId: segment.id, text: draftText, at: textareaRef.current?.selectionStart ?? 0 })}
+                          title="Split into two segments at the cursor"
+                          className="px-4 py-2 bg-emerald-500/10 text-emerald-400 border border-emerald-500/20 rounded-xl text-[10px] font-black uppercase tracking-widest"
+                        >
+                          <i className="fas fa-scissors mr-1.5"></i>Split
+                        </button>
+                        <button onClick={() => setEditingTextId(null)} className="px-4 py-2 text-emerald-800 text-[10px] font-black uppercase tracking-widest">
+                          Cancel
+                        </button>
+                      </div>
+                    </div>
+                  ) : (
+                    <p className={`text-base sm:text-lg font-medium leading-relaxed transition-all duration-500 ${
+                      isActive ? 'text-emerald-50' : 'text-emerald-100/50'
+                    }`}>
+                      {segment.text}
+                    </p>
+                  )}
+                  {(segment.topics || taggingId === segment.id) && (
+                    <div className="flex flex-wrap items-center gap-2 mt-4">
+                      {segment.topics?.map(topic => (
+                        <span key={topic.name} className="flex items-center gap-1 bg-emerald-500/5 border border-emerald-500/10 rounded-full pl-3 pr-1 py-0.5">
+                          <button
+                            onClick={() => onOpenTopic?.(topic.name)}
+                            title={topic.source === 'auto' ? 'From the day summary' : 'Tagged by hand'}
+                            className="text-[10px] font-bold text-emerald-500 hover:text-emerald-300"
+                          >
+                            # {topic.name}
+                          </button>
+                          {onTopicsChange && (
+                            <button
+                              onClick={() => changeTopics(segment, segment.topics!.filter(t => t !== topic))}
+                              title="Remove topic"
+                              className="w-4 h-4 rounded-full flex items-center justify-center text-emerald-800 hover:text-rose-400"
+                            >
+                              <i className="fas fa-xmark text-[8px]"></i>
+                            </button>
+                          )}
+                        </span>
+                      ))}
+                      {taggingId === segment.id && (
+                        <input
+                          autoFocus
+                          list="timeline-known-topics"
+                          value={draftTopic}
+                          onChange={(e) => setDraftTopic(e.target.value)}
+                          onKeyDown={(e) => {
+                            if (e.key === 'Enter') addTopic(segment);
+                            if (e.key === 'Escape') setTaggingId(null);
+                          }}
+                          onBlur={() => setTaggingId(null)}
+                          placeholder="Topic, then Enter"
+                          className="bg-emerald-950/30 border border-emerald-500/10 rounded-full px-3 py-0.5 text-[10px] text-emerald-50 placeholder:text-emerald-900 focus:outline-none focus:border-emerald-500/40"
+                        />
+                      )}
+                    </div>
+                  )}
+                  {editError?.segmentId === segment.id && <p className="mt-3 text-[11px] font-bold text-rose-400">{editError.message}</p>}
                 </div>
               </div>
             </div>
@@ -206,4 +480,16 @@ const Timeline: React.FC<TimelineProps> = ({ log, onSummarize, onDelete, isProce
   );
 };
 
+const SegmentAction: React.FC<{ icon: string; title: string; onClick: () => void; danger?: boolean }> = ({ icon, title, onClick, danger }) => (
+  <button
+    onClick={onClick}
+    title={title}
+    className={`w-8 h-8 rounded-xl flex items-center justify-center text-[10px] transition-all ${
+      danger ? 'text-rose-500/60 hover:text-rose-400 hover:bg-rose-500/10' : 'text-emerald-800 hover:text-emerald-400 hover:bg-emerald-500/10'
+    }`}
+  >
+    <i className={`fas ${icon}`}></i>
+  </button>
+);
+
 export default Timeline;
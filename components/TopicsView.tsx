@@ -0,0 +1,108 @@
+import React, { useState, useMemo } from 'react';
+import { DailyLog, ConversationSegment } from '../types';
+import { buildTopicIndex, sameTopic } from '../topics';
+
+interface TopicsViewProps {
+  logs: DailyLog[];
+  initialTopic?: string | null; // Any spelling; opens the topic it belongs to
+  onOpenSegment: (date: string, segmentId: string, play?: boolean) => void;
+  onSelectDate: (date: string) => void;
+}
+
+const TopicsView: React.FC<TopicsViewProps> = ({ logs, initialTopic, onOpenSegment, onSelectDate }) => {
+  const topics = useMemo(() => buildTopicIndex(logs), [logs]);
+  const [selectedLabel, setSelectedLabel] = useState<string | null>(
+    () => (initialTopic && topics.find(t => sameTopic(t.label, initialTopic))?.label) || null
+  );
+  const [query, setQuery] = useState('');
+
+  const selected = topics.find(t => t.label === selectedLabel) || null;
+  const visible = useMemo(() => {
+    const needle = query.trim().toLowerCase();
+    return needle ? topics.filter(t => t.label.toLowerCase().includes(needle) || sameTopic(t.label, needle)) : topics;
+  }, [topics, query]);
+
+  if (selected) {
+    return (
+      <div className="space-y-6 animate-in fade-in duration-500">
+        <button onClick={() => setSelectedLabel(null)} className="text-[10px] font-black text-emerald-700 uppercase tracking-widest hover:text-emerald-400">
+          <i className="fas fa-arrow-left mr-2"></i>Topics
+        </button>
+
+        <div className="px-2">
+          <h2 className="text-2xl font-black tracking-tighter"># {selected.label}</h2>
+          <p className="text-[10px] font-black text-emerald-800 uppercase tracking-widest">
+            {selected.days.length} day{selected.days.length === 1 ? '' : 's'} • {selected.segmentCount} segment{selected.segmentCount === 1 ? '' : 's'}
+          </p>
+        </div>
+
+        {selected.days.map(day => (
+          <div key={day.date} className="space-y-2">
+            <button
+              onClick={() => onSelectDate(day.date)}
+              className="flex items-center gap-2 text-[10px] font-black text-emerald-700 uppercase tracking-widest px-2 hover:text-emerald-400"
+            >
+              {day.date}
+              {day.inSummary && <span className="text-emerald-800" title="Listed in the day's summary"><i className="fas fa-lightbulb"></i></span>}
+            </button>
+            {day.segments.length === 0 && (
+              <p className="px-2 text-xs text-slate-500">In the summary, not tagged on any segment.</p>
+            )}
+            {day.segments.map((segment: ConversationSegment) => (
+              <button
+                key={segment.id}
+                onClick={() => onOpenSegment(day.date, segment.id, false)}
+                className="w-full text-left glass-effect rounded-2xl p-4 border border-emerald-500/5 hover:border-emerald-500/20 transition-all"
+              >
+                <span className="text-[10px] font-mono font-black text-emerald-700 mr-3">{segment.startTime}</span>
+                <span className="text-[10px] font-black text-emerald-600 uppercase tracking-widest mr-3">{segment.speaker}</span>
+                <span className="text-sm text-emerald-100/70">{segment.text}</span>
+              </button>
+            ))}
+          </div>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4 animate-in fade-in duration-500">
+      <div className="px-2">
+        <h2 className="text-2xl font-black tracking-tighter">TOPICS</h2>
+        <p className="text-[10px] font-black text-emerald-800 uppercase tracking-widest">From daily summaries and tagged segments</p>
+      </div>
+
+      <input
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        placeholder="Filter topics..."
+        className="w-full bg-emerald-950/30 border border-emerald-500/10 rounded-2xl px-4 py-3 text-sm text-emerald-50 placeholder:text-emerald-900 focus:outline-none focus:border-emerald-500/40"
+      />
+
+      {visible.length === 0 && (
+        <div className="glass-effect rounded-3xl p-10 text-center text-sm text-slate-500">
+          {topics.length === 0 ? 'Summarize a day, or tag a segment in the Timeline, and its topics will show up here.' : 'Nothing matches.'}
+        </div>
+      )}
+
+      {visible.map(topic => (
+        <button
+          key={topic.label}
+          onClick={() => setSelectedLabel(topic.label)}
+          className="w-full flex items-center gap-4 glass-effect rounded-2xl p-4 border border-emerald-500/5 hover:border-emerald-500/20 transition-all text-left"
+        >
+          <div className="w-10 h-10 rounded-xl bg-emerald-500/10 text-emerald-400 flex items-center justify-center font-black">#</div>
+          <div className="flex-1">
+            <p className="font-bold text-emerald-50">{topic.label}</p>
+            <p className="text-[10px] font-black text-emerald-800 uppercase tracking-widest">
+              {topic.days.length} day{topic.days.length === 1 ? '' : 's'} • {topic.segmentCount} segment{topic.segmentCount === 1 ? '' : 's'} • last {topic.days[0].date}
+            </p>
+          </div>
+          <i className="fas fa-chevron-right text-emerald-900"></i>
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default TopicsView;
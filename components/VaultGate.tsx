@@ -0,0 +1,150 @@
+import React, { useState, useEffect } from 'react';
+import { loadVault, unlock, finishPendingEncryption, eraseEncryptedData } from '../encryption';
+import { getLoadedConfig, WrongPassphraseError } from '../vault';
+import { hasPendingDataMigrations, runDataMigrations } from '../migrations';
+
+interface VaultGateProps {
+  children: React.ReactNode;
+}
+
+type GateState = 'loading' | 'locked' | 'finishing' | 'migrating' | 'open';
+
+// Holds the app back until stored data can be read and is in the shape this build expects: nothing that
+// touches IndexedDB mounts while locked or while stored records are being migrated
+const VaultGate: React.FC<VaultGateProps> = ({ children }) => {
+  const [state, setState] = useState<GateState>('loading');
+  const [passphrase, setPassphrase] = useState('');
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [progress, setProgress] = useState(0);
+  const [stepLabel, setStepLabel] = useState('');
+
+  const reportProgress = (done: number, total: number) => setProgress(total > 0 ? Math.round((done / total) * 100) : 0);
+
+  // Migrations need sealed records readable, so they run after unlocking; a failed one is retried next launch
+  const migrateAndOpen = async () => {
+    try {
+      if (await hasPendingDataMigrations()) {
+        setState('migrating');
+        await runDataMigrations((step, done, total) => {
+          setStepLabel(step.description);
+          reportProgress(done, total);
+        });
+      }
+    } catch (e) {
+      console.error("Stored data could not be migrated", e);
+    }
+    setState('open');
+  };
+
+  useEffect(() => {
+    loadVault()
+      .then(config => config ? setState('locked') : migrateAndOpen())
+      .catch(e => {
+        console.error("Encryption settings could not be read", e);
+        setState('open');
+      });
+  }, []);
+
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!passphrase || isUnlocking) return;
+    setIsUnlocking(true);
+    setError(null);
+    try {
+      await unlock(passphrase);
+      setPassphrase('');
+      if (getLoadedConfig()?.pending) {
+        // A previous encryption or passphrase change was interrupted; finish it before anything else writes
+        setState('finishing');
+        await finishPendingEncryption(reportProgress);
+      }
+      await migrateAndOpen();
+    } catch (err) {
+      setError(err instanceof WrongPassphraseError ? err.message : `Unlock failed: ${err instanceof Error ? err.message : err}`);
+      setState('locked');
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  const handleErase = async () => {
+    if (!window.confirm("Without the passphrase your logs and recordings can't be recovered. Erase everything and start over?")) return;
+    await eraseEncryptedData();
+    setState('open');
+  };
+
+  if (state === 'open') return <>{children}</>;
+
+  return (
+    <div className="min-h-screen bg-[#020d0a] text-emerald-50 font-sans flex items-center justify-center px-6">
+      <div className="w-full max-w-sm glass-effect rounded-3xl p-8 border border-emerald-500/10">
+        <div className="w-14 h-14 rounded-2xl bg-emerald-500/10 text-emerald-400 flex items-center justify-center mb-6">
+          <i className={`fas ${state === 'finishing' || state === 'migrating' ? 'fa-circle-notch animate-spin' : 'fa-lock'} text-xl`}></i>
+        </div>
+        <h1 className="text-xl font-black tracking-tighter leading-none">DAYTRACK</h1>
+
+        {state === 'loading' && (
+          <p className="text-[10px] font-black text-emerald-800 uppercase tracking-widest mt-3">Opening...</p>
+        )}
+
+        {state === 'finishing' && (
+          <div className="mt-6">
+            <p className="text-sm text-slate-400 mb-4">Finishing encryption that was interrupted. Keep the app open.</p>
+            <div className="flex justify-between text-[10px] font-black text-emerald-700 uppercase tracking-widest mb-1">
+              <span>Encrypting...</span><span>{progress}%</span>
+            </div>
+            <div className="h-1.5 bg-emerald-950/50 rounded-full overflow-hidden">
+              <div className="h-full bg-emerald-400 transition-all" style={{ width: `${progress}%` }}></div>
+            </div>
+          </div>
+        )}
+
+        {state === 'migrating' && (
+          <div className="mt-6">
+            <p className="text-sm text-slate-400 mb-4">Updating stored data for this version. Keep the app open.</p>
+            <div className="flex justify-between text-[10px] font-black text-emerald-700 uppercase tracking-widest mb-1">
+              <span>{stepLabel}...</span><span>{progress}%</span>
+            </div>
+            <div className="h-1.5 bg-emerald-950/50 rounded-full overflow-hidden">
+              <div className="h-full bg-emerald-400 transition-all" style={{ width: `${progress}%` }}></div>
+            </div>
+          </div>
+        )}
+
+        {state === 'locked' && (
+          <form onSubmit={handleUnlock} className="mt-6 space-y-3">
+            <p className="text-sm text-slate-400">Your logs and recordings are encrypted. Enter your passphrase to unlock them.</p>
+            <input
+              type="password"
+              autoFocus
+              autoComplete="current-password"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              placeholder="Passphrase"
+              className="w-full bg-emerald-950/30 border border-emerald-500/10 rounded-2xl px-4 py-3 text-sm text-emerald-50 placeholder:text-emerald-900 focus:outline-none focus:border-emerald-500/40"
+            />
+            {error && <p className="text-[11px] font-bold text-rose-400">{error}</p>}
+            <button
+              type="submit"
+              disabled={!passphrase || isUnlocking}
+              className="w-full py-3 bg-emerald-500 text-slate-950 rounded-2xl font-black text-[10px] uppercase tracking-widest disabled:opacity-50"
+            >
+              {isUnlocking ? <><i className="fas fa-circle-notch animate-spin mr-2"></i>Unlocking</> : 'Unlock'}
+            </button>
+            <button
+              type="button"
+              onClick={handleErase}
+              disabled={isUnlocking}
+              className="w-full py-2 text-rose-500/70 text-[10px] font-black uppercase tracking-widest"
+            >
+              Forgot passphrase? Erase data
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default VaultGate;
@@ -1,28 +1,227 @@
 
-import { DailyLog, ConversationSegment } from './types';
+import { DailyLog, ConversationSegment, RecordingSession, SpeechRegion, TranscriptionJob, InstalledModel, SegmentEmbedding, ChatMessage, StoredAudio, Person, PeriodSummary, Task, Bookmark, RetentionRun } from './types';
+import { STORE_SEARCH_TERMS, STORE_SEARCH_POSTINGS, STORE_SEARCH_DOCS, TermEntry, TermDayEntry, IndexedDoc, buildPostings, planLogIndex } from './searchIndex';
+import { withUniqueIds } from './validation';
+import { VaultConfig, isVaultEnabled, needsReseal, sealRecord, openRecord, sealBlob, openBlob, blindTerm } from './vault';
 
 const DB_NAME = 'DayTrackDB';
 const STORE_LOGS = 'daily_logs';
 const STORE_AUDIO = 'audio_files';
-const VERSION = 2;
+const STORE_SESSIONS = 'recording_sessions';
+const STORE_SLICES = 'recording_slices';
+const STORE_JOBS = 'transcription_jobs';
+const STORE_MODELS = 'models';
+const STORE_EMBEDDINGS = 'segment_embeddings';
+const STORE_CHAT = 'chat_messages';
+const STORE_PEOPLE = 'people';
+const STORE_VAULT = 'vault';
+const VAULT_CONFIG_KEY = 'config';
+const STORE_META = 'meta';
+const STORE_PERIODS = 'period_summaries';
+const STORE_TASKS = 'tasks';
+const STORE_BOOKMARKS = 'bookmarks';
+const DATA_VERSION_KEY = 'dataVersion';
+const RETENTION_RUN_KEY = 'retentionRun';
+
+// --- Schema migrations ---
+// One step per version, run in order inside the versionchange transaction for every version above the
+// one on disk. Steps are append-only: a shipped step must never change, because devices have run it.
+// Builds before this list created stores with "if missing" checks, so steps tolerate stores that exist.
+
+interface SchemaMigration {
+  version: number;
+  upgrade: (db: IDBDatabase, transaction: IDBTransaction) => void;
+}
+
+const ensureStore = (db: IDBDatabase, transaction: IDBTransaction, name: string, options?: IDBObjectStoreParameters) =>
+  db.objectStoreNames.contains(name) ? transaction.objectStore(name) : db.createObjectStore(name, options);
+
+const ensureIndex = (store: IDBObjectStore, name: string, keyPath: string) => {
+  if (!store.indexNames.contains(name)) store.createIndex(name, keyPath);
+};
+
+const SCHEMA_MIGRATIONS: SchemaMigration[] = [
+  {
+    version: 2,
+    upgrade: (db, tx) => {
+      ensureStore(db, tx, STORE_LOGS, { keyPath: 'date' });
+      ensureStore(db, tx, STORE_AUDIO);
+    }
+  },
+  {
+    version: 3, // Crash-safe recording
+    upgrade: (db, tx) => {
+      ensureStore(db, tx, STORE_SESSIONS, { keyPath: 'id' });
+      ensureIndex(ensureStore(db, tx, STORE_SLICES, { autoIncrement: true }), 'sessionId', 'sessionId');
+    }
+  },
+  { version: 4, upgrade: (db, tx) => { ensureStore(db, tx, STORE_JOBS, { keyPath: 'id' }); } },
+  { version: 5, upgrade: (db, tx) => { ensureStore(db, tx, STORE_MODELS, { keyPath: 'id' }); } },
+  {
+    version: 6, // Search index
+    upgrade: (db, tx) => {
+      ensureStore(db, tx, STORE_SEARCH_TERMS, { keyPath: 'term' });
+      ensureStore(db, tx, STORE_SEARCH_DOCS, { keyPath: 'date' });
+    }
+  },
+  {
+    version: 7, // Semantic search
+    upgrade: (db, tx) => {
+      const embeddings = ensureStore(db, tx, STORE_EMBEDDINGS, { keyPath: ['date', 'segmentId'] });
+      ensureIndex(embeddings, 'signature', 'signature');
+      ensureIndex(embeddings, 'date', 'date');
+    }
+  },
+  { version: 8, upgrade: (db, tx) => { ensureStore(db, tx, STORE_CHAT, { keyPath: 'id' }); } },
+  { version: 9, upgrade: (db, tx) => { ensureStore(db, tx, STORE_VAULT); } },
+  { version: 10, upgrade: (db, tx) => { ensureStore(db, tx, STORE_PEOPLE, { keyPath: 'id' }); } },
+  { version: 11, upgrade: (db, tx) => { ensureStore(db, tx, STORE_META); } },
+  { version: 12, upgrade: (db, tx) => { ensureStore(db, tx, STORE_PERIODS, { keyPath: 'id' }); } },
+  { version: 13, upgrade: (db, tx) => { ensureStore(db, tx, STORE_TASKS, { keyPath: 'id' }); } },
+  { version: 14, upgrade: (db, tx) => { ensureStore(db, tx, STORE_BOOKMARKS, { keyPath: 'id' }); } },
+  {
+    version: 15, // Postings per term and day; dropping the day records makes indexUnindexedLogs rebuild the index
+    upgrade: (db, tx) => {
+      if (db.objectStoreNames.contains(STORE_SEARCH_TERMS)) db.deleteObjectStore(STORE_SEARCH_TERMS);
+      ensureIndex(ensureStore(db, tx, STORE_SEARCH_POSTINGS, { keyPath: ['term', 'date'] }), 'date', 'date');
+      ensureStore(db, tx, STORE_SEARCH_DOCS, { keyPath: 'date' }).clear();
+    }
+  }
+];
+
+export const DB_VERSION = SCHEMA_MIGRATIONS[SCHEMA_MIGRATIONS.length - 1].version;
 
 export const openDB = (): Promise<IDBDatabase> => {
   return new Promise((resolve, reject) => {
-    const request = indexedDB.open(DB_NAME, VERSION);
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
     request.onupgradeneeded = (event) => {
       const db = request.result;
-      if (!db.objectStoreNames.contains(STORE_LOGS)) {
-        db.createObjectStore(STORE_LOGS, { keyPath: 'date' });
-      }
-      if (!db.objectStoreNames.contains(STORE_AUDIO)) {
-        db.createObjectStore(STORE_AUDIO);
-      }
+      const transaction = request.transaction!;
+      SCHEMA_MIGRATIONS
+        .filter(step => step.version > event.oldVersion)
+        .forEach(step => step.upgrade(db, transaction));
     };
     request.onsuccess = () => resolve(request.result);
     request.onerror = () => reject(request.error);
   });
 };
 
+// --- At-rest encryption (see vault.ts) ---
+// With the vault on, content stores hold sealed records: key and index fields stay readable, the rest is
+// AES-GCM ciphertext. Every read goes through a codec's open(), which passes plaintext records through,
+// so a store can be half-migrated without anything noticing.
+
+interface RecordCodec<T> {
+  seal: (value: T, key: IDBValidKey) => Promise<any>;
+  open: (raw: any, key: IDBValidKey) => Promise<T>;
+}
+
+const contextOf = (store: string, key: IDBValidKey) => `${store}:${Array.isArray(key) ? key.join('|') : String(key)}`;
+
+const jsonCodec = <T>(store: string, clearFields: (value: T) => object): RecordCodec<T> => ({
+  seal: (value, key) => sealRecord(value, clearFields(value), contextOf(store, key)),
+  open: (raw, key) => openRecord<T>(raw, contextOf(store, key))
+});
+
+const logCodec = jsonCodec<DailyLog>(STORE_LOGS, log => ({ date: log.date }));
+const docCodec = jsonCodec<IndexedDoc>(STORE_SEARCH_DOCS, doc => ({ date: doc.date }));
+const chatCodec = jsonCodec<ChatMessage>(STORE_CHAT, message => ({ id: message.id }));
+const personCodec = jsonCodec<Person>(STORE_PEOPLE, person => ({ id: person.id }));
+const periodCodec = jsonCodec<PeriodSummary>(STORE_PERIODS, period => ({ id: period.id }));
+const taskCodec = jsonCodec<Task>(STORE_TASKS, task => ({ id: task.id }));
+const bookmarkCodec = jsonCodec<Bookmark>(STORE_BOOKMARKS, bookmark => ({ id: bookmark.id }));
+
+// Posting records are keyed by [blinded term, date]; the real term is only inside the sealed payload
+const postingCodec: RecordCodec<TermDayEntry> = {
+  seal: (entry, key) => sealRecord(entry, { term: (key as IDBValidKey[])[0], date: entry.date }, contextOf(STORE_SEARCH_POSTINGS, key)),
+  open: (raw, key) => openRecord<TermDayEntry>(raw, contextOf(STORE_SEARCH_POSTINGS, key))
+};
+
+// The signature stays in the clear: the sync compares it by key cursor without opening vectors
+const embeddingCodec: RecordCodec<SegmentEmbedding> = {
+  seal: async (embedding, key) => {
+    if (!isVaultEnabled()) return embedding;
+    const { date, segmentId, signature } = embedding;
+    return sealRecord({ ...embedding, vector: Array.from(embedding.vector) }, { date, segmentId, signature }, contextOf(STORE_EMBEDDINGS, key));
+  },
+  open: async (raw, key) => {
+    if (!raw.sealed) return raw;
+    const embedding = await openRecord<any>(raw, contextOf(STORE_EMBEDDINGS, key));
+    return { ...embedding, vector: Float32Array.from(embedding.vector) };
+  }
+};
+
+// Audio keeps its flags and speech map in the clear (retention and the VAD seek need them) and only the bytes sealed
+const audioCodec: RecordCodec<StoredAudio> = {
+  seal: async (record, id) => {
+    if (!isVaultEnabled()) return record;
+    const { blob, box } = await sealBlob(record.blob, contextOf(STORE_AUDIO, id));
+    return { ...record, blob, sealed: box };
+  },
+  open: async (raw, id) => {
+    if (!raw.sealed) return raw;
+    const { sealed, ...record } = raw;
+    return { ...record, blob: await openBlob(raw.blob, sealed, contextOf(STORE_AUDIO, id)) };
+  }
+};
+
+interface StoredSlice {
+  sessionId: string;
+  blob: Blob;
+}
+
+// Slices have auto-increment keys that aren't known before the write, so they're bound to their session
+const sliceCodec: RecordCodec<StoredSlice> = {
+  seal: async (slice) => {
+    if (!isVaultEnabled()) return slice;
+    const { blob, box } = await sealBlob(slice.blob, contextOf(STORE_SLICES, slice.sessionId));
+    return { sessionId: slice.sessionId, blob, sealed: box };
+  },
+  open: async (raw) => {
+    if (!raw.sealed) return raw;
+    return { sessionId: raw.sessionId, blob: await openBlob(raw.blob, raw.sealed, contextOf(STORE_SLICES, raw.sessionId)) };
+  }
+};
+
+const readRecord = async (storeName: string, key: IDBValidKey): Promise<any> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const request = db.transaction(storeName, 'readonly').objectStore(storeName).get(key);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const readAllKeys = async (storeName: string): Promise<IDBValidKey[]> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const request = db.transaction(storeName, 'readonly').objectStore(storeName).getAllKeys();
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const writeRecord = async (storeName: string, value: any, key?: IDBValidKey): Promise<void> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, 'readwrite');
+    transaction.objectStore(storeName).put(value, key);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+let logQueue: Promise<unknown> = Promise.resolve();
+
+// Serializes every write to logs and the search index. Sealing is async and can't happen inside an
+// IndexedDB transaction, so a read-modify-write spans two transactions and this keeps it atomic instead
+// (chunks finishing together must not drop each other's segments).
+const withLogLock = <T>(task: () => Promise<T>): Promise<T> => {
+  const run = logQueue.then(task, task);
+  logQueue = run.catch(() => undefined);
+  return run;
+};
+
 // --- Compression Utilities (GZIP) ---
 async function compressBlob(blob: Blob): Promise<Blob> {
   const stream = blob.stream().pipeThrough(new CompressionStream('gzip'));
@@ -34,120 +233,384 @@ async function decompressBlob(blob: Blob): Promise<Blob> {
   return await new Response(stream).blob();
 }
 
-export const saveAudio = async (id: string, blob: Blob, shouldCompress: boolean = false): Promise<void> => {
-  const db = await openDB();
+export const saveAudio = async (
+  id: string, 
+  blob: Blob, 
+  shouldCompress: boolean = false, 
+  speechRegions?: SpeechRegion[]
+): Promise<void> => {
   const finalBlob = shouldCompress ? await compressBlob(blob) : blob;
+  const record: StoredAudio = {
+    blob: finalBlob,
+    compressed: shouldCompress,
+    timestamp: Date.now(),
+    speechRegions
+  };
+  await writeRecord(STORE_AUDIO, await audioCodec.seal(record, id), id);
+};
+
+export const getAudio = async (id: string): Promise<Blob | null> => {
+  const raw = await readRecord(STORE_AUDIO, id);
+  if (!raw) return null;
+  const result = await audioCodec.open(raw, id);
+  if (!result.compressed) return result.blob;
+  try {
+    return await decompressBlob(result.blob);
+  } catch (e) {
+    console.error("Decompression failed, returning raw blob", e);
+    return result.blob;
+  }
+};
+
+// Speech-vs-silence map from the VAD pass; undefined for audio recorded before it existed
+export const getSpeechRegions = async (id: string): Promise<SpeechRegion[] | undefined> => {
+  const raw = await readRecord(STORE_AUDIO, id);
+  return raw?.speechRegions;
+};
+
+export const deleteAudio = async (id: string): Promise<void> => {
+  const db = await openDB();
   return new Promise((resolve, reject) => {
     const transaction = db.transaction(STORE_AUDIO, 'readwrite');
-    const store = transaction.objectStore(STORE_AUDIO);
-    store.put({ 
-      blob: finalBlob, 
-      compressed: shouldCompress, 
-      timestamp: Date.now() 
-    }, id);
+    transaction.objectStore(STORE_AUDIO).delete(id);
     transaction.oncomplete = () => resolve();
     transaction.onerror = () => reject(transaction.error);
   });
 };
 
-export const getAudio = async (id: string): Promise<Blob | null> => {
+// Records as stored (decrypted when the vault is on), for backups
+export const getAllStoredAudio = async (): Promise<{ id: string; record: StoredAudio }[]> => {
   const db = await openDB();
-  return new Promise((resolve, reject) => {
+  const raw = await new Promise<{ id: string; raw: any }[]>((resolve, reject) => {
     const transaction = db.transaction(STORE_AUDIO, 'readonly');
+    const entries: { id: string; raw: any }[] = [];
+    const request = transaction.objectStore(STORE_AUDIO).openCursor();
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return;
+      entries.push({ id: cursor.key as string, raw: cursor.value });
+      cursor.continue();
+    };
+    transaction.oncomplete = () => resolve(entries);
+    transaction.onerror = () => reject(transaction.error);
+  });
+  const entries: { id: string; record: StoredAudio }[] = [];
+  for (const { id, raw: stored } of raw) entries.push({ id, record: await audioCodec.open(stored, id) });
+  return entries;
+};
+
+// Writes a record as-is (no compression step); with keepExisting an id already present is left alone
+export const putStoredAudio = async (id: string, record: StoredAudio, keepExisting = false): Promise<void> => {
+  const sealed = await audioCodec.seal(record, id);
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_AUDIO, 'readwrite');
     const store = transaction.objectStore(STORE_AUDIO);
-    const request = store.get(id);
-    request.onsuccess = async () => {
-      const result = request.result;
-      if (!result) return resolve(null);
-      if (result.compressed) {
-        try {
-          const decompressed = await decompressBlob(result.blob);
-          resolve(decompressed);
-        } catch (e) {
-          console.error("Decompression failed, returning raw blob", e);
-          resolve(result.blob); 
-        }
-      } else {
-        resolve(result.blob);
-      }
+    if (keepExisting) {
+      const request = store.getKey(id);
+      request.onsuccess = () => { if (request.result === undefined) store.put(sealed, id); };
+    } else {
+      store.put(sealed, id);
+    }
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+// --- In-progress recording sessions ---
+// Every MediaRecorder slice is written as it arrives, so a killed tab only loses the last few seconds.
+
+// Pending slice writes per session. Sealing is async, so writes are chained to keep slices in order, and
+// deleteSession waits for them: a write landing after the delete would leave a partial session behind.
+const sliceWrites = new Map<string, Promise<void>>();
+
+export const appendSessionSlice = (
+  session: Pick<RecordingSession, 'id' | 'startedAt' | 'mimeType'>,
+  slice: Blob
+): Promise<void> => {
+  const previous = sliceWrites.get(session.id) || Promise.resolve();
+  const write = previous.catch(() => undefined).then(() => writeSessionSlice(session, slice));
+  const settled = write.catch(() => undefined);
+  sliceWrites.set(session.id, settled);
+  settled.then(() => { if (sliceWrites.get(session.id) === settled) sliceWrites.delete(session.id); });
+  return write;
+};
+
+const writeSessionSlice = async (
+  session: Pick<RecordingSession, 'id' | 'startedAt' | 'mimeType'>,
+  slice: Blob
+): Promise<void> => {
+  const stored = await sliceCodec.seal({ sessionId: session.id, blob: slice }, session.id);
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([STORE_SESSIONS, STORE_SLICES], 'readwrite');
+    const sessionStore = transaction.objectStore(STORE_SESSIONS);
+    const request = sessionStore.get(session.id);
+    request.onsuccess = () => {
+      const existing: RecordingSession | undefined = request.result;
+      sessionStore.put({
+        ...session,
+        updatedAt: Date.now(),
+        sliceCount: (existing?.sliceCount || 0) + 1
+      });
+      transaction.objectStore(STORE_SLICES).add(stored);
     };
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+export const getUnfinishedSessions = async (): Promise<RecordingSession[]> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_SESSIONS, 'readonly');
+    const request = transaction.objectStore(STORE_SESSIONS).getAll();
+    request.onsuccess = () => resolve(request.result);
     request.onerror = () => reject(request.error);
   });
 };
 
-export const autoCleanupAndCompress = async () => {
-  const db = await openDB();
-  const logs = await getAllLogs();
-  const thirtyDaysAgo = new Date();
-  thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
-
-  const transaction = db.transaction([STORE_LOGS, STORE_AUDIO], 'readwrite');
-  const audioStore = transaction.objectStore(STORE_AUDIO);
-  const logStore = transaction.objectStore(STORE_LOGS);
-
-  for (const log of logs) {
-    const logDate = new Date(log.date);
-    if (logDate < thirtyDaysAgo) {
-      let logUpdated = false;
-      for (const segment of log.transcripts) {
-        if (segment.audioId && !segment.isCompressed) {
-          const audioReq = audioStore.get(segment.audioId);
-          audioReq.onsuccess = async () => {
-            const result = audioReq.result;
-            if (result && !result.compressed) {
-              const compressedBlob = await compressBlob(result.blob);
-              audioStore.put({ ...result, blob: compressedBlob, compressed: true }, segment.audioId!);
-            }
-          };
-          segment.isCompressed = true;
-          logUpdated = true;
-        }
-      }
-      if (logUpdated) {
-        logStore.put(log);
-      }
-    }
-  }
+// Slices come back in insertion order (auto-increment keys), so concatenating them rebuilds the original file
+export const getSessionAudio = async (session: RecordingSession): Promise<Blob | null> => {
+  const db = await openDB();
+  const raw = await new Promise<any[]>((resolve, reject) => {
+    const transaction = db.transaction(STORE_SLICES, 'readonly');
+    const request = transaction.objectStore(STORE_SLICES).index('sessionId').getAll(session.id);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  if (raw.length === 0) return null;
+  const slices = await Promise.all(raw.map(r => sliceCodec.open(r, session.id)));
+  return new Blob(slices.map(s => s.blob), { type: session.mimeType });
 };
 
-export const saveLog = async (log: DailyLog): Promise<void> => {
+export const deleteSession = async (id: string): Promise<void> => {
+  await sliceWrites.get(id);
   const db = await openDB();
   return new Promise((resolve, reject) => {
-    const transaction = db.transaction(STORE_LOGS, 'readwrite');
-    const store = transaction.objectStore(STORE_LOGS);
-    store.put(log);
+    const transaction = db.transaction([STORE_SESSIONS, STORE_SLICES], 'readwrite');
+    transaction.objectStore(STORE_SESSIONS).delete(id);
+    const slices = transaction.objectStore(STORE_SLICES);
+    const request = slices.index('sessionId').getAllKeys(id);
+    request.onsuccess = () => request.result.forEach(key => slices.delete(key));
     transaction.oncomplete = () => resolve();
     transaction.onerror = () => reject(transaction.error);
   });
 };
 
-export const getLog = async (date: string): Promise<DailyLog | null> => {
+// --- Transcription jobs ---
+
+export const saveJob = async (job: TranscriptionJob): Promise<void> => {
   const db = await openDB();
   return new Promise((resolve, reject) => {
-    const transaction = db.transaction(STORE_LOGS, 'readonly');
-    const store = transaction.objectStore(STORE_LOGS);
-    const request = store.get(date);
-    request.onsuccess = () => resolve(request.result || null);
+    const transaction = db.transaction(STORE_JOBS, 'readwrite');
+    transaction.objectStore(STORE_JOBS).put(job);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+export const getJobs = async (): Promise<TranscriptionJob[]> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_JOBS, 'readonly');
+    const request = transaction.objectStore(STORE_JOBS).getAll();
+    request.onsuccess = () => resolve(request.result);
     request.onerror = () => reject(request.error);
   });
 };
 
-export const getAllLogs = async (): Promise<DailyLog[]> => {
+export const deleteJob = async (id: string): Promise<void> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_JOBS, 'readwrite');
+    transaction.objectStore(STORE_JOBS).delete(id);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+// --- Local speech models (weights live in Cache Storage, see modelStore.ts) ---
+
+export const saveInstalledModel = async (model: InstalledModel): Promise<void> => {
   const db = await openDB();
   return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_MODELS, 'readwrite');
+    transaction.objectStore(STORE_MODELS).put(model);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+export const getInstalledModels = async (): Promise<InstalledModel[]> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_MODELS, 'readonly');
+    const request = transaction.objectStore(STORE_MODELS).getAll();
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const deleteInstalledModel = async (id: string): Promise<void> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_MODELS, 'readwrite');
+    transaction.objectStore(STORE_MODELS).delete(id);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+// Swaps a file for its re-encoded copy (see archiveAudio.ts) and returns the bytes saved. Gzipped
+// files from older builds are unpacked first. A copy that isn't smaller is dropped, but the file is still
+// marked so it isn't tried again; an encoder error leaves it unmarked for a later run.
+export const archiveStoredAudio = async (id: string, encode: (blob: Blob) => Promise<Blob>): Promise<number> => {
+  const raw = await readRecord(STORE_AUDIO, id);
+  if (!raw || raw.archived) return 0;
+  const record = await audioCodec.open(raw, id);
+  const plain = record.compressed ? await decompressBlob(record.blob) : record.blob;
+  const encoded = await encode(plain);
+  const before: number = raw.blob.size;
+  const smaller = encoded.size < before;
+  const archived: StoredAudio = smaller
+    ? { ...record, blob: encoded, compressed: false, archived: true }
+    : { ...record, archived: true };
+  // The file may have been deleted while it was being encoded
+  if (!(await readRecord(STORE_AUDIO, id))) return 0;
+  await writeRecord(STORE_AUDIO, await audioCodec.seal(archived, id), id);
+  return smaller ? before - encoded.size : 0;
+};
+
+// Stored size of every audio file, read without opening the vault (sealing adds only a few bytes)
+export const getAudioSizes = async (): Promise<Map<string, { bytes: number; archived: boolean }>> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_AUDIO, 'readonly');
+    const sizes = new Map<string, { bytes: number; archived: boolean }>();
+    const request = transaction.objectStore(STORE_AUDIO).openCursor();
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return;
+      sizes.set(cursor.key as string, { bytes: cursor.value.blob?.size || 0, archived: !!cursor.value.archived });
+      cursor.continue();
+    };
+    transaction.oncomplete = () => resolve(sizes);
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+// The day's posting records by real term, with the key each one is stored under
+const readDayPostings = async (date: string): Promise<Map<string, { key: IDBValidKey; entry: TermDayEntry }>> => {
+  const db = await openDB();
+  const raw = await new Promise<any[]>((resolve, reject) => {
+    const request = db.transaction(STORE_SEARCH_POSTINGS, 'readonly').objectStore(STORE_SEARCH_POSTINGS).index('date').getAll(date);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  const entries = new Map<string, { key: IDBValidKey; entry: TermDayEntry }>();
+  for (const record of raw) {
+    const key = [record.term, record.date];
+    const entry = await postingCodec.open(record, key);
+    entries.set(entry.term, { key, entry });
+  }
+  return entries;
+};
+
+// Reads the day's log, applies `update`, and writes the result together with its index changes in one
+// transaction. Returning `existing` itself leaves the log record untouched and only refreshes the index.
+const commitLog = (date: string, update: (existing: DailyLog | null) => DailyLog | null) => withLogLock(async () => {
+  const db = await openDB();
+  const rawLog = await readRecord(STORE_LOGS, date);
+  const existing = rawLog ? await logCodec.open(rawLog, date) : null;
+  const next = update(existing);
+
+  const postings = buildPostings(next);
+  const current = await readDayPostings(date);
+  const plan = planLogIndex(date, next, postings, new Map([...current].map(([term, { entry }]) => [term, entry])));
+
+  const sealedLog = next && next !== existing ? await logCodec.seal(next, date) : null;
+  const sealedDoc = plan.doc ? await docCodec.seal(plan.doc, date) : null;
+  const sealedEntries = await Promise.all(plan.put.map(async entry => postingCodec.seal(entry, [await blindTerm(entry.term), date])));
+
+  return new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction([STORE_LOGS, STORE_SEARCH_POSTINGS, STORE_SEARCH_DOCS], 'readwrite');
+    const logs = transaction.objectStore(STORE_LOGS);
+    if (sealedLog) logs.put(sealedLog);
+    else if (!next && rawLog) logs.delete(date);
+
+    const postingStore = transaction.objectStore(STORE_SEARCH_POSTINGS);
+    sealedEntries.forEach(entry => postingStore.put(entry));
+    plan.remove.forEach(term => postingStore.delete(current.get(term)!.key));
+
+    const docs = transaction.objectStore(STORE_SEARCH_DOCS);
+    if (sealedDoc) docs.put(sealedDoc);
+    else docs.delete(date);
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+});
+
+export const saveLog = async (log: DailyLog): Promise<void> => {
+  await commitLog(log.date, () => log);
+};
+
+export const appendSegmentsToLog = async (
+  date: string, 
+  audioId: string,
+  segments: ConversationSegment[], 
+  recordedMinutes: number
+): Promise<void> => {
+  await commitLog(date, existing => {
+    if (!existing) return { date, transcripts: segments, recordingDurationMinutes: recordedMinutes, audioIds: [audioId] };
+    // A recording spanning midnight is appended day by day; a retry after a partial attach must not repeat a day,
+    // even one that got minutes but no speech. Days written before chunks were listed only have their segments.
+    const audioIds = existing.audioIds || [];
+    if (audioIds.includes(audioId) || existing.transcripts.some(s => s.audioId === audioId)) return existing;
+    return {
+      ...existing,
+      transcripts: [...existing.transcripts, ...withUniqueIds(segments, existing.transcripts.map(s => s.id))],
+      recordingDurationMinutes: existing.recordingDurationMinutes + recordedMinutes,
+      audioIds: [...audioIds, audioId]
+    };
+  });
+};
+
+// Atomic read-modify-write of an existing day; a no-op when the day doesn't exist
+export const updateLog = async (date: string, update: (log: DailyLog) => DailyLog): Promise<void> => {
+  await commitLog(date, existing => existing && update(existing));
+};
+
+export const getLog = async (date: string): Promise<DailyLog | null> => {
+  const raw = await readRecord(STORE_LOGS, date);
+  return raw ? logCodec.open(raw, date) : null;
+};
+
+export const getLogDates = async (): Promise<string[]> => {
+  return (await readAllKeys(STORE_LOGS)) as string[];
+};
+
+export const getAllLogs = async (): Promise<DailyLog[]> => {
+  const db = await openDB();
+  const raw = await new Promise<any[]>((resolve, reject) => {
     const transaction = db.transaction(STORE_LOGS, 'readonly');
     const store = transaction.objectStore(STORE_LOGS);
     const request = store.getAll();
     request.onsuccess = () => resolve(request.result);
     request.onerror = () => reject(request.error);
   });
+  return Promise.all(raw.map(r => logCodec.open(r, r.date)));
 };
 
 export const deleteDayData = async (date: string, audioIds: string[]): Promise<void> => {
+  await commitLog(date, () => null);
   const db = await openDB();
   return new Promise((resolve, reject) => {
-    const transaction = db.transaction([STORE_LOGS, STORE_AUDIO], 'readwrite');
-    transaction.objectStore(STORE_LOGS).delete(date);
+    const transaction = db.transaction([STORE_AUDIO, STORE_EMBEDDINGS], 'readwrite');
+    const embeddings = transaction.objectStore(STORE_EMBEDDINGS);
+    const keysRequest = embeddings.index('date').getAllKeys(date);
+    keysRequest.onsuccess = () => keysRequest.result.forEach(key => embeddings.delete(key));
     audioIds.forEach(id => {
       transaction.objectStore(STORE_AUDIO).delete(id);
     });
@@ -156,17 +619,370 @@ export const deleteDayData = async (date: string, audioIds: string[]): Promise<v
   });
 };
 
-export const wipeAllData = async (): Promise<void> => {
+export const wipeAllData = (): Promise<void> => withLogLock(async () => {
   const db = await openDB();
-  return new Promise((resolve, reject) => {
-    const transaction = db.transaction([STORE_LOGS, STORE_AUDIO], 'readwrite');
+  return new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction([STORE_LOGS, STORE_AUDIO, STORE_SESSIONS, STORE_SLICES, STORE_JOBS, STORE_SEARCH_POSTINGS, STORE_SEARCH_DOCS, STORE_EMBEDDINGS, STORE_CHAT, STORE_PEOPLE, STORE_PERIODS, STORE_TASKS, STORE_BOOKMARKS], 'readwrite');
     transaction.objectStore(STORE_LOGS).clear();
     transaction.objectStore(STORE_AUDIO).clear();
+    transaction.objectStore(STORE_SESSIONS).clear();
+    transaction.objectStore(STORE_SLICES).clear();
+    transaction.objectStore(STORE_JOBS).clear();
+    transaction.objectStore(STORE_SEARCH_POSTINGS).clear();
+    transaction.objectStore(STORE_SEARCH_DOCS).clear();
+    transaction.objectStore(STORE_EMBEDDINGS).clear();
+    transaction.objectStore(STORE_CHAT).clear();
+    transaction.objectStore(STORE_PEOPLE).clear();
+    transaction.objectStore(STORE_PERIODS).clear();
+    transaction.objectStore(STORE_TASKS).clear();
+    transaction.objectStore(STORE_BOOKMARKS).clear();
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+});
+
+// --- Search index (see searchIndex.ts) ---
+
+// Indexes logs written before the index existed (or after it was dropped); cheap when everything is indexed
+export const indexUnindexedLogs = async (): Promise<number> => {
+  const [logDates, indexedDates] = await Promise.all([readAllKeys(STORE_LOGS), readAllKeys(STORE_SEARCH_DOCS)]);
+  const known = new Set(indexedDates as string[]);
+  const missing = (logDates as string[]).filter(date => !known.has(date));
+  for (const date of missing) await commitLog(date, existing => existing);
+  return missing.length;
+};
+
+// Each term's postings across every day, one key range per term
+export const getTermEntries = async (terms: string[]): Promise<Map<string, TermEntry>> => {
+  const keys = await Promise.all(terms.map(blindTerm));
+  const db = await openDB();
+  const raw = await new Promise<any[][]>((resolve, reject) => {
+    const transaction = db.transaction(STORE_SEARCH_POSTINGS, 'readonly');
+    const store = transaction.objectStore(STORE_SEARCH_POSTINGS);
+    const results: any[][] = [];
+    keys.forEach((key, i) => {
+      // Arrays sort after strings, so [key, []] is above every [key, date]
+      const request = store.getAll(IDBKeyRange.bound([key], [key, []]));
+      request.onsuccess = () => { results[i] = request.result; };
+    });
+    transaction.oncomplete = () => resolve(results);
+    transaction.onerror = () => reject(transaction.error);
+  });
+  const entries = new Map<string, TermEntry>();
+  for (let i = 0; i < terms.length; i++) {
+    if (!raw[i] || raw[i].length === 0) continue;
+    const days = await Promise.all(raw[i].map(record => postingCodec.open(record, [record.term, record.date])));
+    entries.set(terms[i], { term: terms[i], postings: days.flatMap(day => day.postings) });
+  }
+  return entries;
+};
+
+// Every indexed term starting with `prefix`, in term order. Blinded keys have no order to range over, so
+// this expands against the per-day term lists either way.
+export const getTermEntriesByPrefix = async (prefix: string, limit: number): Promise<TermEntry[]> => {
+  const vocabulary = new Set<string>();
+  (await getIndexedDocs()).forEach(doc => doc.terms.forEach(term => { if (term.startsWith(prefix)) vocabulary.add(term); }));
+  const terms = [...vocabulary].sort().slice(0, limit);
+  const entries = await getTermEntries(terms);
+  return terms.filter(term => entries.has(term)).map(term => entries.get(term)!);
+};
+
+export const getIndexedDocs = async (): Promise<IndexedDoc[]> => {
+  const db = await openDB();
+  const raw = await new Promise<any[]>((resolve, reject) => {
+    const transaction = db.transaction(STORE_SEARCH_DOCS, 'readonly');
+    const request = transaction.objectStore(STORE_SEARCH_DOCS).getAll();
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  return Promise.all(raw.map(r => docCodec.open(r, r.date)));
+};
+
+// --- Segment embeddings (see embeddings.ts) ---
+
+// Signatures only, read from the index with a key cursor so no vectors are loaded
+export const getEmbeddingSignatures = async (): Promise<Map<string, string>> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_EMBEDDINGS, 'readonly');
+    const signatures = new Map<string, string>();
+    const request = transaction.objectStore(STORE_EMBEDDINGS).index('signature').openKeyCursor();
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return;
+      const [date, segmentId] = cursor.primaryKey as [string, string];
+      signatures.set(`${date}|${segmentId}`, cursor.key as string);
+      cursor.continue();
+    };
+    transaction.oncomplete = () => resolve(signatures);
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+export const saveEmbeddings = async (embeddings: SegmentEmbedding[]): Promise<void> => {
+  const sealed = await Promise.all(embeddings.map(e => embeddingCodec.seal(e, [e.date, e.segmentId])));
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_EMBEDDINGS, 'readwrite');
+    const store = transaction.objectStore(STORE_EMBEDDINGS);
+    sealed.forEach(e => store.put(e));
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+export const deleteEmbeddings = async (keys: [string, string][]): Promise<void> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_EMBEDDINGS, 'readwrite');
+    const store = transaction.objectStore(STORE_EMBEDDINGS);
+    keys.forEach(key => store.delete(key));
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+export const getAllEmbeddings = async (): Promise<SegmentEmbedding[]> => {
+  const db = await openDB();
+  const raw = await new Promise<any[]>((resolve, reject) => {
+    const transaction = db.transaction(STORE_EMBEDDINGS, 'readonly');
+    const request = transaction.objectStore(STORE_EMBEDDINGS).getAll();
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  return Promise.all(raw.map(r => embeddingCodec.open(r, [r.date, r.segmentId])));
+};
+
+// --- "Ask my days" chat history ---
+
+export const saveChatMessage = async (message: ChatMessage): Promise<void> => {
+  await writeRecord(STORE_CHAT, await chatCodec.seal(message, message.id));
+};
+
+export const getChatMessages = async (): Promise<ChatMessage[]> => {
+  const db = await openDB();
+  const raw = await new Promise<any[]>((resolve, reject) => {
+    const transaction = db.transaction(STORE_CHAT, 'readonly');
+    const request = transaction.objectStore(STORE_CHAT).getAll();
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  const messages = await Promise.all(raw.map(r => chatCodec.open(r, r.id)));
+  return messages.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const clearChatMessages = async (): Promise<void> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_CHAT, 'readwrite');
+    transaction.objectStore(STORE_CHAT).clear();
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+// --- People registry (see people.ts) ---
+
+export const getPeople = async (): Promise<Person[]> => {
+  const db = await openDB();
+  const raw = await new Promise<any[]>((resolve, reject) => {
+    const transaction = db.transaction(STORE_PEOPLE, 'readonly');
+    const request = transaction.objectStore(STORE_PEOPLE).getAll();
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  return Promise.all(raw.map(r => personCodec.open(r, r.id)));
+};
+
+export const savePerson = async (person: Person): Promise<void> => {
+  await writeRecord(STORE_PEOPLE, await personCodec.seal(person, person.id));
+};
+
+export const deletePerson = async (id: string): Promise<void> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_PEOPLE, 'readwrite');
+    transaction.objectStore(STORE_PEOPLE).delete(id);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+// --- Period summaries (see periods.ts) ---
+
+export const getPeriodSummaries = async (): Promise<PeriodSummary[]> => {
+  const db = await openDB();
+  const raw = await new Promise<any[]>((resolve, reject) => {
+    const transaction = db.transaction(STORE_PERIODS, 'readonly');
+    const request = transaction.objectStore(STORE_PERIODS).getAll();
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  return Promise.all(raw.map(r => periodCodec.open(r, r.id)));
+};
+
+export const savePeriodSummary = async (period: PeriodSummary): Promise<void> => {
+  await writeRecord(STORE_PERIODS, await periodCodec.seal(period, period.id));
+};
+
+export const deletePeriodSummary = async (id: string): Promise<void> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_PERIODS, 'readwrite');
+    transaction.objectStore(STORE_PERIODS).delete(id);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+// --- Tasks (see tasks.ts) ---
+
+export const getTasks = async (): Promise<Task[]> => {
+  const db = await openDB();
+  const raw = await new Promise<any[]>((resolve, reject) => {
+    const transaction = db.transaction(STORE_TASKS, 'readonly');
+    const request = transaction.objectStore(STORE_TASKS).getAll();
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  return Promise.all(raw.map(r => taskCodec.open(r, r.id)));
+};
+
+export const saveTask = async (task: Task): Promise<void> => {
+  await writeRecord(STORE_TASKS, await taskCodec.seal(task, task.id));
+};
+
+export const deleteTask = async (id: string): Promise<void> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_TASKS, 'readwrite');
+    transaction.objectStore(STORE_TASKS).delete(id);
     transaction.oncomplete = () => resolve();
     transaction.onerror = () => reject(transaction.error);
   });
 };
 
+// --- Bookmarks (see bookmarks.ts) ---
+
+export const getBookmarks = async (): Promise<Bookmark[]> => {
+  const db = await openDB();
+  const raw = await new Promise<any[]>((resolve, reject) => {
+    const transaction = db.transaction(STORE_BOOKMARKS, 'readonly');
+    const request = transaction.objectStore(STORE_BOOKMARKS).getAll();
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  return Promise.all(raw.map(r => bookmarkCodec.open(r, r.id)));
+};
+
+export const saveBookmark = async (bookmark: Bookmark): Promise<void> => {
+  await writeRecord(STORE_BOOKMARKS, await bookmarkCodec.seal(bookmark, bookmark.id));
+};
+
+// --- Data migrations (see migrations.ts) ---
+
+export const getDataVersion = async (): Promise<number> => {
+  return (await readRecord(STORE_META, DATA_VERSION_KEY)) || 0;
+};
+
+export const setDataVersion = async (version: number): Promise<void> => {
+  await writeRecord(STORE_META, version, DATA_VERSION_KEY);
+};
+
+// --- Retention (see retention.ts) ---
+
+// The run in progress, so one cut short by a closed tab picks up where it stopped
+export const getRetentionRun = async (): Promise<RetentionRun | null> => {
+  return (await readRecord(STORE_META, RETENTION_RUN_KEY)) || null;
+};
+
+export const saveRetentionRun = async (run: RetentionRun | null): Promise<void> => {
+  if (run) {
+    await writeRecord(STORE_META, run, RETENTION_RUN_KEY);
+    return;
+  }
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_META, 'readwrite');
+    transaction.objectStore(STORE_META).delete(RETENTION_RUN_KEY);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+// --- Vault config and re-encryption ---
+
+export const getVaultConfig = async (): Promise<VaultConfig | null> => {
+  return (await readRecord(STORE_VAULT, VAULT_CONFIG_KEY)) || null;
+};
+
+export const saveVaultConfig = async (config: VaultConfig): Promise<void> => {
+  await writeRecord(STORE_VAULT, config, VAULT_CONFIG_KEY);
+};
+
+export const deleteVaultConfig = async (): Promise<void> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_VAULT, 'readwrite');
+    transaction.objectStore(STORE_VAULT).delete(VAULT_CONFIG_KEY);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+const RESEALED_STORES: { store: string; codec: RecordCodec<any>; outOfLineKeys: boolean }[] = [
+  { store: STORE_LOGS, codec: logCodec, outOfLineKeys: false },
+  { store: STORE_AUDIO, codec: audioCodec, outOfLineKeys: true },
+  { store: STORE_SLICES, codec: sliceCodec, outOfLineKeys: true },
+  { store: STORE_EMBEDDINGS, codec: embeddingCodec, outOfLineKeys: false },
+  { store: STORE_CHAT, codec: chatCodec, outOfLineKeys: false },
+  { store: STORE_PEOPLE, codec: personCodec, outOfLineKeys: false },
+  { store: STORE_PERIODS, codec: periodCodec, outOfLineKeys: false },
+  { store: STORE_TASKS, codec: taskCodec, outOfLineKeys: false },
+  { store: STORE_BOOKMARKS, codec: bookmarkCodec, outOfLineKeys: false }
+];
+
+// Brings every store in line with the vault: plaintext records get sealed and records under an older
+// data key are re-sealed under the current one, one record at a time so audio never piles up in memory.
+// The search index is dropped and rebuilt, since its term keys change when they become blinded.
+// Safe to re-run after an interruption: records already under the current key are skipped.
+export const resealAllRecords = async (onProgress?: (done: number, total: number) => void): Promise<void> => {
+  const keysByStore = await Promise.all(RESEALED_STORES.map(({ store }) => readAllKeys(store)));
+  const logCount = keysByStore[0].length;
+  const total = keysByStore.reduce((sum, keys) => sum + keys.length, 0) + logCount;
+  let done = 0;
+
+  for (let i = 0; i < RESEALED_STORES.length; i++) {
+    const { store, codec, outOfLineKeys } = RESEALED_STORES[i];
+    for (const key of keysByStore[i]) {
+      const reseal = async () => {
+        const raw = await readRecord(store, key);
+        if (!raw || !needsReseal(raw)) return;
+        const sealed = await codec.seal(await codec.open(raw, key), key);
+        await writeRecord(store, sealed, outOfLineKeys ? key : undefined);
+      };
+      await (store === STORE_LOGS ? withLogLock(reseal) : reseal());
+      onProgress?.(++done, total);
+    }
+  }
+
+  await withLogLock(async () => {
+    const db = await openDB();
+    return new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction([STORE_SEARCH_POSTINGS, STORE_SEARCH_DOCS], 'readwrite');
+      transaction.objectStore(STORE_SEARCH_POSTINGS).clear();
+      transaction.objectStore(STORE_SEARCH_DOCS).clear();
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  });
+  const dates = (await readAllKeys(STORE_LOGS)) as string[];
+  for (const date of dates) {
+    await commitLog(date, existing => existing);
+    onProgress?.(Math.min(++done, total), total);
+  }
+};
+
 export const getStorageStats = async () => {
   if (navigator.storage && navigator.storage.estimate) {
     const estimate = await navigator.storage.estimate();
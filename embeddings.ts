@@ -0,0 +1,135 @@
+import { SegmentEmbedding } from './types';
+import { getAllLogs, getEmbeddingSignatures, saveEmbeddings, deleteEmbeddings, getAllEmbeddings } from './db';
+import { resolveEmbeddingConfig, embeddingModelKey, embedTexts } from './aiService';
+
+// One vector per segment, kept in sync with the logs by comparing signatures: a segment whose text
+// or embedding model changed gets a new vector, a segment that no longer exists loses its vector.
+
+const BATCH_SIZE = 32;
+const MIN_SIMILARITY = 0.3;
+
+export interface SemanticHit {
+  date: string;
+  segmentId: string;
+  similarity: number;
+}
+
+// FNV-1a over UTF-16 code units; only has to tell "same text" from "changed text"
+const hashText = (text: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+};
+
+const signatureFor = (model: string, text: string) => `${model}#${hashText(text)}`;
+
+interface CachedVector {
+  date: string;
+  segmentId: string;
+  vector: Float32Array;
+  norm: number;
+}
+
+// Vectors for the current model, loaded on the first semantic query and dropped whenever sync writes
+let vectorCache: { model: string; entries: CachedVector[] } | null = null;
+
+const runSync = async (offlineMode: boolean) => {
+  const config = resolveEmbeddingConfig(offlineMode);
+  if (!config) return;
+  const model = embeddingModelKey(config);
+
+  const [logs, stored] = await Promise.all([getAllLogs(), getEmbeddingSignatures()]);
+  const wanted = new Set<string>();
+  const stale: { date: string; segmentId: string; text: string; signature: string }[] = [];
+  logs.forEach(log => log.transcripts.forEach(segment => {
+    const key = `${log.date}|${segment.id}`;
+    const signature = signatureFor(model, segment.text);
+    wanted.add(key);
+    if (stored.get(key) !== signature && segment.text.trim()) {
+      stale.push({ date: log.date, segmentId: segment.id, text: segment.text, signature });
+    }
+  }));
+
+  const obsolete = [...stored.keys()]
+    .filter(key => !wanted.has(key))
+    .map(key => [key.slice(0, key.indexOf('|')), key.slice(key.indexOf('|') + 1)] as [string, string]);
+  if (obsolete.length > 0) {
+    await deleteEmbeddings(obsolete);
+    vectorCache = null;
+  }
+
+  for (let i = 0; i < stale.length; i += BATCH_SIZE) {
+    const batch = stale.slice(i, i + BATCH_SIZE);
+    const vectors = await embedTexts(batch.map(b => b.text), config);
+    const records: SegmentEmbedding[] = batch
+      .map((b, j) => ({ date: b.date, segmentId: b.segmentId, signature: b.signature, vector: new Float32Array(vectors[j] || []) }))
+      .filter(r => r.vector.length > 0);
+    await saveEmbeddings(records);
+    vectorCache = null;
+  }
+};
+
+let syncing: Promise<void> | null = null;
+let rerun = false;
+
+// Safe to call on every log change: concurrent calls collapse into one follow-up run
+export const syncEmbeddings = (offlineMode: boolean): Promise<void> => {
+  if (syncing) {
+    rerun = true;
+    return syncing;
+  }
+  syncing = (async () => {
+    try {
+      do {
+        rerun = false;
+        await runSync(offlineMode);
+      } while (rerun);
+    } catch (e) {
+      // Picked up again on the next log change
+      console.warn("Embedding sync failed", e);
+    } finally {
+      syncing = null;
+    }
+  })();
+  return syncing;
+};
+
+const norm = (v: ArrayLike<number>) => {
+  let sum = 0;
+  for (let i = 0; i < v.length; i++) sum += v[i] * v[i];
+  return Math.sqrt(sum);
+};
+
+const loadVectors = async (model: string): Promise<CachedVector[]> => {
+  if (vectorCache?.model === model) return vectorCache.entries;
+  const prefix = `${model}#`;
+  const entries = (await getAllEmbeddings())
+    .filter(e => e.signature.startsWith(prefix))
+    .map(e => ({ date: e.date, segmentId: e.segmentId, vector: e.vector, norm: norm(e.vector) }));
+  vectorCache = { model, entries };
+  return entries;
+};
+
+// Empty when no embedding provider is usable right now
+export const semanticSearch = async (text: string, offlineMode: boolean, limit = 50): Promise<SemanticHit[]> => {
+  const config = resolveEmbeddingConfig(offlineMode);
+  if (!config || !text.trim()) return [];
+  const model = embeddingModelKey(config);
+
+  const [[query], entries] = await Promise.all([embedTexts([text], config), loadVectors(model)]);
+  if (!query?.length) return [];
+  const queryNorm = norm(query) || 1;
+
+  const hits: SemanticHit[] = [];
+  for (const entry of entries) {
+    if (entry.vector.length !== query.length) continue;
+    let dot = 0;
+    for (let i = 0; i < query.length; i++) dot += query[i] * entry.vector[i];
+    const similarity = dot / (queryNorm * (entry.norm || 1));
+    if (similarity >= MIN_SIMILARITY) hits.push({ date: entry.date, segmentId: entry.segmentId, similarity });
+  }
+  return hits.sort((a, b) => b.similarity - a.similarity).slice(0, limit);
+};
@@ -0,0 +1,62 @@
+import { getVaultConfig, saveVaultConfig, deleteVaultConfig, resealAllRecords, wipeAllData } from './db';
+import {
+  MIN_PASSPHRASE_LENGTH, setVaultConfig, getLoadedConfig, createVaultConfig, unlockWith, verifyPassphrase, retireOldKeys
+} from './vault';
+
+// Setup flows around vault.ts. Turning encryption on and changing the passphrase work the same way:
+// persist a config with a fresh current data key, re-seal everything under it, then retire older keys.
+// The config is saved as `pending` first, so an interrupted run resumes on the next unlock.
+
+export type EncryptionProgress = (done: number, total: number) => void;
+
+// Reads the stored config on launch; afterwards getVaultState() says whether to show the unlock screen
+export const loadVault = async () => {
+  const config = await getVaultConfig();
+  setVaultConfig(config);
+  return config;
+};
+
+const checkPassphrase = (passphrase: string) => {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new Error(`Use at least ${MIN_PASSPHRASE_LENGTH} characters`);
+  }
+};
+
+export const finishPendingEncryption = async (onProgress?: EncryptionProgress) => {
+  if (!getLoadedConfig()?.pending) return;
+  await resealAllRecords(onProgress);
+  await saveVaultConfig(retireOldKeys());
+};
+
+export const unlock = async (passphrase: string) => {
+  await unlockWith(passphrase);
+};
+
+const rekey = async (passphrase: string, onProgress?: EncryptionProgress) => {
+  const { config, activate } = await createVaultConfig(passphrase);
+  await saveVaultConfig(config);
+  activate();
+  await finishPendingEncryption(onProgress);
+};
+
+// Encrypts everything already stored; new writes are sealed from the moment the config is saved
+export const enableEncryption = async (passphrase: string, onProgress?: EncryptionProgress) => {
+  if (getLoadedConfig()) throw new Error("Encryption is already on");
+  checkPassphrase(passphrase);
+  await rekey(passphrase, onProgress);
+};
+
+// Re-encrypts every record under a new data key, so nothing stays readable with the old passphrase
+export const changePassphrase = async (current: string, next: string, onProgress?: EncryptionProgress) => {
+  if (!getLoadedConfig()) throw new Error("Encryption is not on");
+  checkPassphrase(next);
+  await verifyPassphrase(current);
+  await rekey(next, onProgress);
+};
+
+// The only way out of a forgotten passphrase: without it the data can't be read by anyone
+export const eraseEncryptedData = async () => {
+  await wipeAllData();
+  await deleteVaultConfig();
+  setVaultConfig(null);
+};
@@ -0,0 +1,115 @@
+import { DailyLog, ConversationSegment } from './types';
+import { createZip } from './zip';
+
+export type ExportFormat = 'markdown' | 'json' | 'srt' | 'vtt';
+
+export const EXPORT_FORMATS: { id: ExportFormat; label: string; extension: string; mimeType: string }[] = [
+  { id: 'markdown', label: 'Markdown', extension: 'md', mimeType: 'text/markdown' },
+  { id: 'json', label: 'JSON', extension: 'json', mimeType: 'application/json' },
+  { id: 'srt', label: 'SRT', extension: 'srt', mimeType: 'application/x-subrip' },
+  { id: 'vtt', label: 'WebVTT', extension: 'vtt', mimeType: 'text/vtt' }
+];
+
+// Bumped whenever the JSON shape changes in a way a reader would notice
+export const EXPORT_SCHEMA_VERSION = 1;
+
+export interface ExportFile {
+  blob: Blob;
+  filename: string;
+}
+
+// Cues shorter than this flash by too fast to read
+const MIN_CUE_SECONDS = 0.5;
+
+export const renderMarkdown = (log: DailyLog): string => {
+  const lines = [`# ${log.date}`, '', `_Recorded: ${log.recordingDurationMinutes.toFixed(1)} minutes_`, ''];
+  const summary = log.summary;
+  if (summary) {
+    lines.push('## Summary', '', summary.overview, '');
+    if (summary.keyEvents.length) lines.push('### Key events', '', ...summary.keyEvents.map(e => `- ${e}`), '');
+    if (summary.actionItems.length) lines.push('### Action items', '', ...summary.actionItems.map(a => `- [ ] ${a}`), '');
+    lines.push(`**Mood:** ${summary.mood}`, '');
+    if (summary.topics.length) lines.push(`**Topics:** ${summary.topics.map(t => `#${t.replace(/\s+/g, '')}`).join(' ')}`, '');
+  }
+  lines.push('## Transcript', '');
+  log.transcripts.forEach(t => lines.push(`**[${t.startTime}] ${t.speaker}:** ${t.text}`, ''));
+  return lines.join('\n');
+};
+
+export const renderJson = (logs: DailyLog[]): string => JSON.stringify({
+  format: 'daytrack-export',
+  version: EXPORT_SCHEMA_VERSION,
+  exportedAt: new Date().toISOString(),
+  logs
+}, null, 2);
+
+const subtitleTimestamp = (seconds: number, fractionSeparator: ',' | '.') => {
+  const ms = Math.max(0, Math.round(seconds * 1000));
+  const pad = (n: number, width = 2) => n.toString().padStart(width, '0');
+  return `${pad(Math.floor(ms / 3600000))}:${pad(Math.floor(ms / 60000) % 60)}:${pad(Math.floor(ms / 1000) % 60)}${fractionSeparator}${pad(ms % 1000, 3)}`;
+};
+
+// Cue times are relative to the start of the segments' shared audio file
+export const renderSubtitles = (segments: ConversationSegment[], format: 'srt' | 'vtt'): string => {
+  const separator = format === 'srt' ? ',' : '.';
+  const cues = [...segments]
+    .sort((a, b) => a.offsetInAudio - b.offsetInAudio)
+    .map((s, i) => {
+      const start = subtitleTimestamp(s.offsetInAudio, separator);
+      const end = subtitleTimestamp(s.offsetInAudio + Math.max(s.duration, MIN_CUE_SECONDS), separator);
+      return format === 'srt'
+        ? `${i + 1}\n${start} --> ${end}\n${s.speaker}: ${s.text}`
+        : `${start} --> ${end}\n<v ${s.speaker}>${s.text}`;
+    });
+  return format === 'srt' ? `${cues.join('\n\n')}\n` : `WEBVTT\n\n${cues.join('\n\n')}\n`;
+};
+
+const rangeName = (logs: DailyLog[]) => {
+  const dates = logs.map(l => l.date).sort();
+  return dates[0] === dates[dates.length - 1] ? dates[0] : `${dates[0]}_to_${dates[dates.length - 1]}`;
+};
+
+export const exportLogs = async (logs: DailyLog[], format: ExportFormat): Promise<ExportFile> => {
+  const sorted = [...logs].filter(l => l.transcripts.length > 0 || l.summary).sort((a, b) => a.date.localeCompare(b.date));
+  if (sorted.length === 0) throw new Error("Nothing recorded in this range.");
+  const { extension, mimeType } = EXPORT_FORMATS.find(f => f.id === format)!;
+  const baseName = `daytrack_${rangeName(sorted)}`;
+
+  if (format === 'markdown') {
+    const text = sorted.map(renderMarkdown).join('\n---\n\n');
+    return { blob: new Blob([text], { type: mimeType }), filename: `${baseName}.${extension}` };
+  }
+  if (format === 'json') {
+    return { blob: new Blob([renderJson(sorted)], { type: mimeType }), filename: `${baseName}.${extension}` };
+  }
+
+  // Subtitles: one file per recorded audio file, zipped when there is more than one
+  const byAudio = new Map<string, { date: string; segments: ConversationSegment[] }>();
+  sorted.forEach(log => log.transcripts.forEach(segment => {
+    if (!segment.audioId) return;
+    if (!byAudio.has(segment.audioId)) byAudio.set(segment.audioId, { date: log.date, segments: [] });
+    byAudio.get(segment.audioId)!.segments.push(segment);
+  }));
+  if (byAudio.size === 0) throw new Error("No segments in this range have audio to align subtitles to.");
+
+  const files = [...byAudio.entries()].map(([audioId, { date, segments }]) => ({
+    name: `${date}_${audioId}.${extension}`,
+    data: renderSubtitles(segments, format)
+  }));
+  if (files.length === 1) {
+    return { blob: new Blob([files[0].data], { type: mimeType }), filename: files[0].name };
+  }
+  return { blob: await createZip(files), filename: `${baseName}_${extension}.zip` };
+};
+
+export const downloadFile = ({ blob, filename }: ExportFile) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoking right away can cancel the download in some WebViews
+  setTimeout(() => URL.revokeObjectURL(url), 10000);
+};
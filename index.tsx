@@ -2,6 +2,7 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import VaultGate from './components/VaultGate';
 
 // Register Service Worker for PWA support
 if ('serviceWorker' in navigator) {
@@ -26,6 +27,8 @@ if (!rootElement) {
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
-    <App />
+    <VaultGate>
+      <App />
+    </VaultGate>
   </React.StrictMode>
 );
@@ -0,0 +1,194 @@
+import { DailyLog } from './types';
+import { tokenize } from './searchIndex';
+import { addDays } from './periods';
+import { dayMood } from './sentiment';
+import { segmentTopicNames, topicLabels } from './topics';
+
+// Aggregates for the Insights view. Each day is reduced once to a small DayStats record, cached by a
+// fingerprint of its segments, so changing the range (or a new chunk landing today) only re-reads the
+// days that actually changed; ranges are then summed from those records.
+
+export type InsightRange = 'week' | 'month' | 'year';
+
+export interface SpeakerTotals {
+  seconds: number;
+  words: number;
+}
+
+export interface DayStats {
+  date: string;
+  minutes: number;
+  segments: number;
+  words: number;
+  speakers: Record<string, SpeakerTotals>;
+  hourSeconds: number[]; // Seconds spoken in each local hour 0-23
+  topics: string[]; // From the summary and the segments
+  mood?: string; // The summary's own word for the day
+  moodScore?: number; // Normalized -1..1, see sentiment.ts
+}
+
+const cache = new Map<string, { fingerprint: string; stats: DayStats }>();
+
+const fingerprint = (log: DailyLog) =>
+  `${log.recordingDurationMinutes}|${log.summary ? `${log.summary.mood}|${log.summary.topics.join(',')}` : ''}|` +
+  log.transcripts.map(s => `${s.id}/${s.speaker}/${s.duration}/${s.text.length}/${s.sentiment?.score ?? ''}/${segmentTopicNames(s).join(',')}`).join(';');
+
+// startTime is already local wall-clock time (see localTime.ts)
+const hourOf = (startTime: string) => Math.min(23, Math.max(0, parseInt(startTime, 10) || 0));
+
+const computeDayStats = (log: DailyLog): DayStats => {
+  const stats: DayStats = {
+    date: log.date,
+    minutes: log.recordingDurationMinutes,
+    segments: log.transcripts.length,
+    words: 0,
+    speakers: {},
+    hourSeconds: new Array(24).fill(0),
+    topics: [...new Set([...(log.summary?.topics || []), ...log.transcripts.flatMap(segmentTopicNames)])],
+    mood: log.summary?.mood && log.summary.mood !== 'N/A' ? log.summary.mood : undefined,
+    moodScore: dayMood(log) ?? undefined
+  };
+  log.transcripts.forEach(segment => {
+    const words = tokenize(segment.text).length;
+    stats.words += words;
+    const speaker = stats.speakers[segment.speaker] || (stats.speakers[segment.speaker] = { seconds: 0, words: 0 });
+    speaker.seconds += segment.duration;
+    speaker.words += words;
+    stats.hourSeconds[hourOf(segment.startTime)] += segment.duration;
+  });
+  return stats;
+};
+
+export const dayStats = (log: DailyLog): DayStats => {
+  const key = fingerprint(log);
+  const hit = cache.get(log.date);
+  if (hit && hit.fingerprint === key) return hit.stats;
+  const stats = computeDayStats(log);
+  cache.set(log.date, { fingerprint: key, stats });
+  return stats;
+};
+
+export interface Streaks {
+  current: number; // Consecutive recorded days ending today (or yesterday, if today has nothing yet)
+  longest: number;
+}
+
+export const recordingStreaks = (logs: DailyLog[], today: string): Streaks => {
+  const dates = new Set(logs.filter(l => l.transcripts.length > 0).map(l => l.date));
+  let longest = 0;
+  dates.forEach(date => {
+    if (dates.has(addDays(date, -1))) return; // Only count from the first day of each run
+    let length = 1;
+    while (dates.has(addDays(date, length))) length++;
+    longest = Math.max(longest, length);
+  });
+  let current = 0;
+  let day = dates.has(today) ? today : addDays(today, -1);
+  while (dates.has(day)) {
+    current++;
+    day = addDays(day, -1);
+  }
+  return { current, longest };
+};
+
+export interface InsightBucket {
+  label: string;
+  from: string;
+  minutes: number;
+  words: number;
+  topics: Record<string, number>; // Days the topic came up on within the bucket
+}
+
+export interface RangeInsights {
+  from: string;
+  to: string;
+  days: DayStats[];
+  totals: { minutes: number; words: number; segments: number; days: number };
+  speakers: (SpeakerTotals & { name: string })[];
+  hourSeconds: number[];
+  buckets: InsightBucket[]; // Days for a week or month, months for a year
+  topTopics: string[];
+  moodTrend: { date: string; score: number; mood?: string }[];
+}
+
+const TOP_TOPICS = 5;
+
+const monthStart = (date: string, monthsBack: number) => {
+  const [y, m] = date.split('-').map(Number);
+  return new Date(Date.UTC(y, m - 1 - monthsBack, 1)).toISOString().slice(0, 10);
+};
+
+// A year is the current month and the eleven before it, so its buckets are whole months
+export const rangeInsights = (logs: DailyLog[], range: InsightRange, today: string): RangeInsights => {
+  const dayCount = range === 'week' ? 7 : 30;
+  const from = range === 'year' ? monthStart(today, 11) : addDays(today, -(dayCount - 1));
+  const days = logs
+    .filter(log => log.date >= from && log.date <= today)
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .map(dayStats);
+
+  // Spellings of one topic count together, under its most common name
+  const labels = topicLabels(days.flatMap(day => day.topics));
+  const dayTopics = (day: DayStats) => new Set(day.topics.map(topic => labels.get(topic.trim())).filter((t): t is string => !!t));
+
+  const speakers = new Map<string, SpeakerTotals>();
+  const hourSeconds = new Array(24).fill(0);
+  const topicDays = new Map<string, number>();
+  days.forEach(day => {
+    Object.entries(day.speakers).forEach(([name, totals]) => {
+      const entry = speakers.get(name) || { seconds: 0, words: 0 };
+      entry.seconds += totals.seconds;
+      entry.words += totals.words;
+      speakers.set(name, entry);
+    });
+    day.hourSeconds.forEach((seconds, hour) => { hourSeconds[hour] += seconds; });
+    dayTopics(day).forEach(topic => topicDays.set(topic, (topicDays.get(topic) || 0) + 1));
+  });
+
+  // Buckets cover the whole range, empty ones included, so bars line up with the calendar
+  const buckets: InsightBucket[] = [];
+  if (range === 'year') {
+    for (let i = 11; i >= 0; i--) {
+      const start = monthStart(today, i);
+      buckets.push({
+        label: new Date(`${start}T00:00:00Z`).toLocaleDateString(undefined, { month: 'narrow', timeZone: 'UTC' }),
+        from: start,
+        minutes: 0, words: 0, topics: {}
+      });
+    }
+  } else {
+    for (let i = 0; i < dayCount; i++) {
+      const date = addDays(from, i);
+      buckets.push({ label: date.slice(8), from: date, minutes: 0, words: 0, topics: {} });
+    }
+  }
+  days.forEach(day => {
+    const bucket = [...buckets].reverse().find(b => b.from <= day.date);
+    if (!bucket) return;
+    bucket.minutes += day.minutes;
+    bucket.words += day.words;
+    dayTopics(day).forEach(topic => { bucket.topics[topic] = (bucket.topics[topic] || 0) + 1; });
+  });
+
+  return {
+    from,
+    to: today,
+    days,
+    totals: {
+      minutes: days.reduce((sum, d) => sum + d.minutes, 0),
+      words: days.reduce((sum, d) => sum + d.words, 0),
+      segments: days.reduce((sum, d) => sum + d.segments, 0),
+      days: days.filter(d => d.segments > 0).length
+    },
+    speakers: [...speakers.entries()]
+      .map(([name, totals]) => ({ name, ...totals }))
+      .sort((a, b) => b.seconds - a.seconds),
+    hourSeconds,
+    buckets,
+    topTopics: [...topicDays.entries()]
+      .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+      .slice(0, TOP_TOPICS)
+      .map(([topic]) => topic),
+    moodTrend: days.filter(d => d.moodScore !== undefined).map(d => ({ date: d.date, score: d.moodScore!, mood: d.mood }))
+  };
+};
@@ -0,0 +1,104 @@
+import { ConversationSegment } from './types';
+
+// Days are local calendar days in the zone the recording was made in, not UTC days: an evening recording
+// in India must not land on tomorrow. Segment clock times are derived from the recording's start instant
+// plus the segment's offset, never taken from what a model writes into `startTime`.
+
+export const currentTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const partsIn = (instant: number, timeZone: string) => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-CA', {
+      timeZone, hourCycle: 'h23',
+      year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit', second: '2-digit'
+    });
+    formatters.set(timeZone, formatter);
+  }
+  const parts: Record<string, string> = {};
+  formatter.formatToParts(new Date(instant)).forEach(p => { parts[p.type] = p.value; });
+  return parts;
+};
+
+// YYYY-MM-DD of the local day `instant` falls on
+export const localDateKey = (instant: number, timeZone = currentTimeZone()) => {
+  const p = partsIn(instant, timeZone);
+  return `${p.year}-${p.month}-${p.day}`;
+};
+
+// HH:mm:ss on the local clock at `instant`
+export const localClock = (instant: number, timeZone = currentTimeZone()) => {
+  const p = partsIn(instant, timeZone);
+  return `${p.hour}:${p.minute}:${p.second}`;
+};
+
+export const todayKey = () => localDateKey(Date.now());
+
+export interface DaySpan {
+  date: string;
+  start: number; // Epoch ms
+  end: number;
+}
+
+// Cuts [start, end) at every local midnight in between. Midnights are found by bisection rather than
+// computed, so DST shifts and odd offsets need no special cases.
+export const splitByLocalDay = (start: number, end: number, timeZone: string): DaySpan[] => {
+  const spans: DaySpan[] = [];
+  let from = start;
+  while (localDateKey(from, timeZone) !== localDateKey(Math.max(from, end - 1), timeZone)) {
+    const day = localDateKey(from, timeZone);
+    let lo = from;
+    let hi = end - 1;
+    while (hi - lo > 1) {
+      const mid = Math.floor((lo + hi) / 2);
+      if (localDateKey(mid, timeZone) === day) lo = mid; else hi = mid;
+    }
+    spans.push({ date: day, start: from, end: hi });
+    from = hi;
+  }
+  spans.push({ date: localDateKey(from, timeZone), start: from, end: Math.max(from, end) });
+  return spans;
+};
+
+// Chunk ids are `audio_<epoch ms when recording started>`; older data has nothing better to go on. The
+// first builds named a recording when it stopped instead; see rebucketByLocalDay in migrations.ts.
+export const recordingStartFromId = (audioId?: string): number | null => {
+  const match = audioId?.match(/^audio_(\d{12,})$/);
+  return match ? Number(match[1]) : null;
+};
+
+// Pins a segment to the wall clock: absolute instant, zone, and the clock time shown for it
+export const placeSegment = (segment: ConversationSegment, recordingStart: number, timeZone: string): ConversationSegment => {
+  const recordedAt = Math.round(recordingStart + segment.offsetInAudio * 1000);
+  return { ...segment, recordedAt, timeZone, startTime: localClock(recordedAt, timeZone) };
+};
+
+export const segmentDate = (segment: ConversationSegment): string | null =>
+  segment.recordedAt !== undefined ? localDateKey(segment.recordedAt, segment.timeZone) : null;
+
+export interface DayPart {
+  date: string;
+  segments: ConversationSegment[];
+  recordedMinutes: number;
+}
+
+// Places a transcribed recording on the wall clock and divides it between the days it touches: each
+// segment goes to the day it starts on, and the recorded minutes are split at midnight
+export const bucketRecording = (
+  segments: ConversationSegment[], recordingStart: number, recordedMinutes: number, timeZone: string
+): DayPart[] => {
+  const parts = new Map<string, DayPart>();
+  const partFor = (date: string) => {
+    if (!parts.has(date)) parts.set(date, { date, segments: [], recordedMinutes: 0 });
+    return parts.get(date)!;
+  };
+  splitByLocalDay(recordingStart, recordingStart + recordedMinutes * 60000, timeZone)
+    .forEach(span => { partFor(span.date).recordedMinutes += (span.end - span.start) / 60000; });
+  segments.forEach(segment => {
+    const placed = placeSegment(segment, recordingStart, timeZone);
+    partFor(localDateKey(placed.recordedAt!, timeZone)).segments.push(placed);
+  });
+  return [...parts.values()];
+};
@@ -0,0 +1,286 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { ConversationSegment, DailyLog, Task } from './types';
+import { DATA_MIGRATIONS, runDataMigrations } from './migrations';
+
+// The data steps only reach storage through these db functions, so they run here against plain maps
+const store = vi.hoisted(() => ({
+  logs: new Map<string, any>(),
+  tasks: [] as any[],
+  dataVersion: 0,
+  writes: [] as string[],
+  deleted: [] as string[]
+}));
+
+vi.mock('./db', () => ({
+  getDataVersion: async () => store.dataVersion,
+  setDataVersion: async (version: number) => { store.dataVersion = version; },
+  getLogDates: async () => [...store.logs.keys()].sort(),
+  getAllLogs: async () => [...store.logs.keys()].sort().map(date => store.logs.get(date)),
+  updateLog: async (date: string, update: (log: any) => any) => {
+    const log = store.logs.get(date);
+    if (!log) return;
+    const next = update(log);
+    if (next === log) return;
+    store.logs.set(date, next);
+    store.writes.push(date);
+  },
+  saveLog: async (log: any) => {
+    store.logs.set(log.date, log);
+    store.writes.push(log.date);
+  },
+  deleteDayData: async (date: string) => {
+    store.logs.delete(date);
+    store.deleted.push(date);
+  },
+  getTasks: async () => [...store.tasks],
+  saveTask: async (task: any) => {
+    store.tasks = [...store.tasks.filter(t => t.id !== task.id), task];
+  }
+}));
+
+vi.mock('./localTime', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./localTime')>()),
+  currentTimeZone: () => 'Asia/Kolkata' // UTC+5:30, so UTC days and local days disagree in the evening
+}));
+
+const step = (version: number) => DATA_MIGRATIONS.find(m => m.version === version)!;
+const run = (version: number) => step(version).run(() => {});
+
+const seed = (...logs: any[]) => logs.forEach(log => store.logs.set(log.date, log));
+
+const segment = (id: string, text: string, extra: Partial<ConversationSegment> = {}): ConversationSegment => ({
+  id, startTime: '00:00:00', offsetInAudio: 0, duration: 30, speaker: 'You', text, confidence: 0.9, ...extra
+});
+
+beforeEach(() => {
+  store.logs.clear();
+  store.tasks = [];
+  store.dataVersion = 0;
+  store.writes = [];
+  store.deleted = [];
+});
+
+describe('data migration 1: normalize stored logs', () => {
+  it('repairs ids, numbers and clock times written by older builds', async () => {
+    seed({
+      date: '2026-10-01',
+      recordingDurationMinutes: '12.5',
+      transcripts: [
+        { id: '1', startTime: '9:05', offsetInAudio: '3', duration: '4.5', speaker: 'You', text: ' Morning ', confidence: '0.8' },
+        { id: '1', startTime: '09:06:00', offsetInAudio: 10, duration: 2, text: 'Again', confidence: 2 },
+        { text: '   ' },
+        'not a segment'
+      ],
+      summary: { overview: 'A day', keyEvents: ['Met', 3, ''], mood: '', topics: null }
+    });
+
+    await run(1);
+
+    expect(store.logs.get('2026-10-01')).toEqual({
+      date: '2026-10-01',
+      recordingDurationMinutes: 12.5,
+      transcripts: [
+        { id: '1', startTime: '09:05:00', offsetInAudio: 3, duration: 4.5, speaker: 'You', text: 'Morning', confidence: 0.8 },
+        { id: '1:1~2', startTime: '09:06:00', offsetInAudio: 10, duration: 2, speaker: 'Unknown', text: 'Again', confidence: 1 }
+      ],
+      summary: { overview: 'A day', keyEvents: ['Met', '3'], actionItems: [], mood: 'Neutral', topics: [] }
+    });
+  });
+
+  it('leaves days that are already clean unwritten', async () => {
+    seed({ date: '2026-10-01', transcripts: [segment('a', 'Fine as it is')], recordingDurationMinutes: 1 });
+
+    await run(1);
+
+    expect(store.writes).toEqual([]);
+  });
+
+  it('keeps a day whose record cannot be read as it is', async () => {
+    const unreadable = { date: 'yesterday', transcripts: [] };
+    store.logs.set('2026-10-01', unreadable);
+
+    await run(1);
+
+    expect(store.logs.get('2026-10-01')).toBe(unreadable);
+  });
+});
+
+describe('data migration 2: rebucket by local day', () => {
+  const afternoon = Date.UTC(2026, 9, 4, 10, 0, 0); // 15:30 on the 4th in Kolkata
+  const night = Date.UTC(2026, 9, 4, 20, 0, 0); // 01:30 on the 5th
+  const lateNight = Date.UTC(2026, 9, 6, 19, 0, 0); // 00:30 on the 7th
+  // Those are when the recordings started; the first builds named a recording when it stopped
+  const afternoonId = `audio_${afternoon + 30000}`;
+  const nightId = `audio_${night + 120000}`;
+  const lateNightId = `audio_${lateNight + 60000}`;
+
+  const utcDays = () => [
+    {
+      date: '2026-10-04',
+      recordingDurationMinutes: 10,
+      transcripts: [
+        segment('a', 'Afternoon', { audioId: afternoonId, startTime: '10:00:00' }),
+        segment('b', 'Past midnight', { audioId: nightId, startTime: '20:00:00' }),
+        segment('c', 'Still up', { audioId: nightId, offsetInAudio: 60, duration: 60, startTime: '20:01:00' }),
+        segment('d', 'No recording to go by', { startTime: '08:00:00' })
+      ]
+    },
+    {
+      date: '2026-10-06',
+      recordingDurationMinutes: 1,
+      transcripts: [segment('e', 'Only segment', { audioId: lateNightId, duration: 60, startTime: '19:00:00' })]
+    }
+  ];
+
+  const localDays = {
+    '2026-10-04': {
+      date: '2026-10-04',
+      recordingDurationMinutes: 8,
+      transcripts: [
+        segment('a', 'Afternoon', { audioId: afternoonId, startTime: '15:30:00', recordedAt: afternoon, timeZone: 'Asia/Kolkata' }),
+        segment('d', 'No recording to go by', { startTime: '08:00:00' })
+      ]
+    },
+    '2026-10-05': {
+      date: '2026-10-05',
+      recordingDurationMinutes: 2,
+      transcripts: [
+        segment('b', 'Past midnight', { audioId: nightId, startTime: '01:30:00', recordedAt: night, timeZone: 'Asia/Kolkata' }),
+        segment('c', 'Still up', {
+          audioId: nightId, offsetInAudio: 60, duration: 60, startTime: '01:31:00', recordedAt: night + 60000, timeZone: 'Asia/Kolkata'
+        })
+      ]
+    },
+    '2026-10-07': {
+      date: '2026-10-07',
+      recordingDurationMinutes: 1,
+      transcripts: [
+        segment('e', 'Only segment', { audioId: lateNightId, duration: 60, startTime: '00:30:00', recordedAt: lateNight, timeZone: 'Asia/Kolkata' })
+      ]
+    }
+  };
+
+  it('moves segments to the local day they were recorded on and pins them to the clock', async () => {
+    seed(...utcDays());
+
+    await run(2);
+
+    expect(Object.fromEntries(store.logs)).toEqual(localDays);
+    expect(store.deleted).toEqual(['2026-10-06']);
+  });
+
+  it('changes nothing when run a second time', async () => {
+    seed(...utcDays());
+    await run(2);
+    store.writes = [];
+
+    await run(2);
+
+    expect(Object.fromEntries(store.logs)).toEqual(localDays);
+    expect(store.writes).toEqual([]);
+  });
+
+  it('drops the extra copy left by a run that stopped between its two passes', async () => {
+    // Pass 1 wrote the 5th, then the tab closed before the 4th lost its copies
+    const [fourth] = utcDays();
+    seed(fourth, localDays['2026-10-05']);
+
+    await run(2);
+
+    expect(store.logs.get('2026-10-04').transcripts.map((s: ConversationSegment) => s.id)).toEqual(['a', 'd']);
+    expect(store.logs.get('2026-10-05').transcripts.map((s: ConversationSegment) => s.id)).toEqual(['b', 'c']);
+  });
+
+  it('keeps a recording that stopped just past midnight on the day it started', async () => {
+    const stop = Date.UTC(2026, 9, 4, 18, 30, 0); // midnight into the 5th in Kolkata
+    seed({
+      date: '2026-10-04',
+      recordingDurationMinutes: 3,
+      transcripts: [
+        segment('f', 'Winding down', { audioId: `audio_${stop}`, duration: 60, startTime: '18:30:00' }),
+        segment('g', 'Lights out', { audioId: `audio_${stop}`, offsetInAudio: 120, duration: 60, startTime: '18:32:00' })
+      ]
+    });
+
+    await run(2);
+
+    expect([...store.logs.keys()]).toEqual(['2026-10-04']);
+    expect(store.logs.get('2026-10-04').transcripts.map(({ id, startTime, recordedAt }: ConversationSegment) => ({ id, startTime, recordedAt }))).toEqual([
+      { id: 'f', startTime: '23:57:00', recordedAt: stop - 180000 },
+      { id: 'g', startTime: '23:59:00', recordedAt: stop - 60000 }
+    ]);
+  });
+});
+
+describe('data migration 3: promote action items to tasks', () => {
+  const day = (date: string, actionItems: string[]): DailyLog => ({
+    date,
+    recordingDurationMinutes: 5,
+    transcripts: [segment('s1', 'I need to send the quarterly report to Dana')],
+    summary: { overview: 'Work', keyEvents: [], actionItems, mood: 'Neutral', topics: [] }
+  });
+
+  it('creates one task per item, dated by the first day it came up', async () => {
+    seed(day('2026-10-02', ['Send the quarterly report', 'Book flights']), day('2026-10-01', ['send the quarterly report']));
+
+    await run(3);
+
+    const tasks = [...store.tasks].sort((a: Task, b: Task) => a.text.localeCompare(b.text));
+    expect(tasks.map(({ text, status, sourceDate, sourceSegmentId }: Task) => ({ text, status, sourceDate, sourceSegmentId }))).toEqual([
+      { text: 'Book flights', status: 'open', sourceDate: '2026-10-02', sourceSegmentId: undefined },
+      { text: 'send the quarterly report', status: 'open', sourceDate: '2026-10-01', sourceSegmentId: 's1' }
+    ]);
+  });
+
+  it('adds nothing for items that are already tracked', async () => {
+    seed(day('2026-10-01', ['Book flights']));
+    await run(3);
+
+    await run(3);
+
+    expect(store.tasks).toHaveLength(1);
+  });
+});
+
+describe('data migration 4: tag segments with summary topics', () => {
+  it('tags segments that mention a summary topic and keeps hand-added topics', async () => {
+    seed({
+      date: '2026-10-01',
+      recordingDurationMinutes: 5,
+      transcripts: [
+        segment('a', 'The budgets for next year look tight'),
+        segment('b', 'Lunch was good', { topics: [{ name: 'Food', source: 'manual' }] }),
+        segment('c', 'Nothing in particular', { topics: [{ name: 'Budget', source: 'auto' }] })
+      ],
+      summary: { overview: 'Planning', keyEvents: [], actionItems: [], mood: 'Neutral', topics: ['Budget'] }
+    });
+
+    await run(4);
+
+    expect(store.logs.get('2026-10-01').transcripts.map((s: ConversationSegment) => ({ id: s.id, topics: s.topics }))).toEqual([
+      { id: 'a', topics: [{ name: 'Budget', source: 'auto' }] },
+      { id: 'b', topics: [{ name: 'Food', source: 'manual' }] },
+      { id: 'c', topics: undefined }
+    ]);
+  });
+
+  it('leaves days without a summary unwritten', async () => {
+    seed({ date: '2026-10-01', recordingDurationMinutes: 5, transcripts: [segment('a', 'Budget talk')] });
+
+    await run(4);
+
+    expect(store.writes).toEqual([]);
+  });
+});
+
+describe('runDataMigrations', () => {
+  it('runs only the steps after the saved version and saves each one', async () => {
+    store.dataVersion = 2;
+    const ran: number[] = [];
+
+    await runDataMigrations(({ version }, done, total) => { if (done === 0 && total === 0) ran.push(version); });
+
+    expect(ran).toEqual([3, 4]);
+    expect(store.dataVersion).toBe(4);
+  });
+});
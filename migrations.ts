@@ -0,0 +1,177 @@
+import { DailyLog, ConversationSegment, MachineSegment } from './types';
+import { getDataVersion, setDataVersion, getLogDates, getAllLogs, updateLog, saveLog, deleteDayData } from './db';
+import { normalizeLog } from './validation';
+import { promoteActionItems } from './tasks';
+import { tagSegments } from './topics';
+import { currentTimeZone, placeSegment, recordingStartFromId, segmentDate } from './localTime';
+
+// Rewrites of stored records that can't happen in IndexedDB's upgrade handler: they need the vault
+// unlocked to read sealed records, and sealing is async. Each step runs once per device, in order, and
+// the version is saved after every step, so an interrupted run resumes at the step that didn't finish.
+// Steps must be safe to run twice, and like schema steps they are append-only.
+
+export interface DataMigration {
+  version: number;
+  description: string;
+  run: (onProgress: (done: number, total: number) => void) => Promise<void>;
+}
+
+const forEachLog = async (
+  onProgress: (done: number, total: number) => void,
+  task: (date: string) => Promise<void>
+) => {
+  const dates = await getLogDates();
+  for (let i = 0; i < dates.length; i++) {
+    await task(dates[i]);
+    onProgress(i + 1, dates.length);
+  }
+};
+
+// Segments without an instant get one from their recording's start, in the zone the device is in now (the
+// zone at recording time was never stored). Segments whose recording can't be identified keep their day and time.
+const pinToClock = <T extends MachineSegment>(segment: T, start: number | null, timeZone: string): T => {
+  if (segment.recordedAt !== undefined) return segment;
+  return start === null ? segment : placeSegment(segment as ConversationSegment, start, timeZone) as T;
+};
+
+const pinSegment = (segment: ConversationSegment, start: number | null, timeZone: string): ConversationSegment => {
+  const pinned = pinToClock(segment, start, timeZone);
+  return segment.machine ? { ...pinned, machine: segment.machine.map(m => pinToClock(m, start, timeZone)) } : pinned;
+};
+
+// Segments reach this step without an instant only if the first builds wrote them, and those named a
+// recording when it stopped, not when it started. The start is taken back by the end of the chunk's last
+// segment: a little late when the recording ran on in silence, never a whole chunk late.
+const legacyRecordingStarts = (logs: DailyLog[]) => {
+  const ends = new Map<string, number>();
+  logs.forEach(log => log.transcripts.forEach(segment => {
+    if (!segment.audioId) return;
+    ends.set(segment.audioId, Math.max(ends.get(segment.audioId) || 0, segment.offsetInAudio + segment.duration));
+  }));
+  return (audioId: string | undefined) => {
+    const stop = recordingStartFromId(audioId);
+    return stop === null ? null : stop - Math.round((ends.get(audioId!) || 0) * 1000);
+  };
+};
+
+const sameSegment = (a: ConversationSegment, b: ConversationSegment) => a.id === b.id && a.audioId === b.audioId;
+
+// Only an estimate: logs store total minutes per day, not per recording
+const spannedMinutes = (segments: ConversationSegment[]) => {
+  const start = Math.min(...segments.map(s => s.offsetInAudio));
+  const end = Math.max(...segments.map(s => s.offsetInAudio + s.duration));
+  return Math.max(0, end - start) / 60;
+};
+
+// Logs used to be keyed by UTC day, so evening (or, east of UTC, morning) recordings sit on a neighbouring
+// day. Segments are moved in two passes: first every day gains what it should have, then the moved
+// segments leave their old day. An interruption can leave a segment on both days, and the rerun
+// then drops the extra copy instead of losing one.
+const rebucketByLocalDay = async (onProgress: (done: number, total: number) => void) => {
+  const timeZone = currentTimeZone();
+  const original = await getAllLogs();
+  const startOf = legacyRecordingStarts(original);
+  const state = new Map<string, DailyLog>(original.map(log => [log.date, log]));
+  const gained = new Set<string>();
+  const lost = new Set<string>();
+
+  for (const { date } of original) {
+    const log = state.get(date)!;
+    const stay: ConversationSegment[] = [];
+    const moving = new Map<string, ConversationSegment[]>();
+    log.transcripts.map(s => pinSegment(s, startOf(s.audioId), timeZone)).forEach(segment => {
+      const target = segmentDate(segment) || date;
+      if (target === date) stay.push(segment);
+      else moving.set(target, [...(moving.get(target) || []), segment]);
+    });
+
+    let movedMinutes = 0;
+    moving.forEach((segments, target) => {
+      const existing = state.get(target) || { date: target, transcripts: [], recordingDurationMinutes: 0 };
+      const added = segments.filter(s => !existing.transcripts.some(t => sameSegment(s, t)));
+      const minutes = Math.min(spannedMinutes(segments), log.recordingDurationMinutes - movedMinutes);
+      movedMinutes += minutes;
+      if (added.length === 0) return;
+      state.set(target, {
+        ...existing,
+        transcripts: [...existing.transcripts, ...added],
+        recordingDurationMinutes: existing.recordingDurationMinutes + (added.length === segments.length ? minutes : 0)
+      });
+      gained.add(target);
+    });
+
+    const changed = moving.size > 0 || stay.some((s, i) => s !== log.transcripts[i]);
+    if (!changed) continue;
+    state.set(date, { ...log, transcripts: stay, recordingDurationMinutes: Math.max(0, log.recordingDurationMinutes - movedMinutes) });
+    if (moving.size > 0) lost.add(date); else gained.add(date);
+  }
+
+  const total = gained.size + lost.size;
+  let done = 0;
+  const before = new Map(original.map(log => [log.date, log]));
+  // Pass 1: days that gained segments (or just got instants) are written first, still holding
+  // anything that is about to leave them
+  for (const date of gained) {
+    const next = state.get(date)!;
+    const leaving = lost.has(date) ? before.get(date)!.transcripts.filter(s => !next.transcripts.some(t => sameSegment(s, t))) : [];
+    await saveLog(leaving.length > 0 ? { ...next, transcripts: [...next.transcripts, ...leaving] } : next);
+    onProgress(++done, total);
+  }
+  // Pass 2: moved segments leave their old day; a day left with nothing at all goes away
+  for (const date of lost) {
+    const next = state.get(date)!;
+    if (next.transcripts.length === 0 && !next.summary) await deleteDayData(date, []);
+    else await saveLog(next);
+    onProgress(++done, total);
+  }
+};
+
+export const DATA_MIGRATIONS: DataMigration[] = [
+  {
+    version: 1,
+    description: 'Checking stored transcripts',
+    // Older builds saved model output as-is: segments without ids, numbers as strings, repeated ids
+    run: (onProgress) => forEachLog(onProgress, date => updateLog(date, log => {
+      const normalized = normalizeLog(log);
+      // Unchanged days (and the rare unreadable one) are left alone rather than rewritten
+      return normalized && JSON.stringify(normalized) !== JSON.stringify(log) ? normalized : log;
+    }))
+  },
+  {
+    version: 2,
+    description: 'Moving recordings to their local day',
+    run: rebucketByLocalDay
+  },
+  {
+    version: 3,
+    description: 'Collecting action items into tasks',
+    // Oldest day first, so a repeated item is dated when it first came up
+    run: async (onProgress) => {
+      const logs = (await getAllLogs()).sort((a, b) => a.date.localeCompare(b.date));
+      for (let i = 0; i < logs.length; i++) {
+        await promoteActionItems(logs[i]);
+        onProgress(i + 1, logs.length);
+      }
+    }
+  },
+  {
+    version: 4,
+    description: 'Tagging segments with their summary topics',
+    run: (onProgress) => forEachLog(onProgress, date => updateLog(date, tagSegments))
+  }
+];
+
+export const LATEST_DATA_VERSION = DATA_MIGRATIONS[DATA_MIGRATIONS.length - 1].version;
+
+export const hasPendingDataMigrations = async () => (await getDataVersion()) < LATEST_DATA_VERSION;
+
+export const runDataMigrations = async (
+  onProgress?: (step: DataMigration, done: number, total: number) => void
+): Promise<void> => {
+  const current = await getDataVersion();
+  for (const step of DATA_MIGRATIONS.filter(m => m.version > current)) {
+    onProgress?.(step, 0, 0);
+    await step.run((done, total) => onProgress?.(step, done, total));
+    await setDataVersion(step.version);
+  }
+};
@@ -0,0 +1,225 @@
+import { InstalledModel, ModelFile } from './types';
+import { saveInstalledModel, deleteInstalledModel } from './db';
+
+// Model weights are kept in Cache Storage under synthetic same-origin URLs. The speech worker reads
+// them back through transformers.js' env.fetch hook. sw.js spares this cache when it clears old app
+// caches on update; the browser can still evict it under storage pressure (see hasModelFiles).
+export const MODEL_CACHE = 'daytrack-models';
+export const MODEL_PATH_PREFIX = '/__models/';
+
+// Optional file a self-hosted model folder can provide to pin file list and checksums
+const MANIFEST_FILE = 'daytrack-manifest.json';
+
+export interface ModelSource {
+  id: string;
+  name: string;
+  baseUrl: string;
+  files: string[];
+  approxSize: string;
+}
+
+const WHISPER_FILES = [
+  'config.json',
+  'generation_config.json',
+  'preprocessor_config.json',
+  'tokenizer.json',
+  'tokenizer_config.json',
+  'onnx/encoder_model_quantized.onnx',
+  'onnx/decoder_model_merged_quantized.onnx'
+];
+
+export const MODEL_CATALOG: ModelSource[] = [
+  {
+    id: 'whisper-tiny.en',
+    name: 'Whisper Tiny (English)',
+    baseUrl: 'https://huggingface.co/onnx-community/whisper-tiny.en/resolve/main',
+    files: WHISPER_FILES,
+    approxSize: '~42 MB'
+  },
+  {
+    id: 'whisper-base',
+    name: 'Whisper Base (Multilingual)',
+    baseUrl: 'https://huggingface.co/onnx-community/whisper-base/resolve/main',
+    files: WHISPER_FILES,
+    approxSize: '~78 MB'
+  }
+];
+
+interface ManifestEntry {
+  path: string;
+  sha256?: string;
+  size?: number;
+}
+
+export type ProgressCallback = (receivedBytes: number, totalBytes: number) => void;
+
+export const modelFileUrl = (modelId: string, path: string) =>
+  new URL(`${MODEL_PATH_PREFIX}${modelId}/${path}`, location.origin).href;
+
+const SHA256_HEX = /^[0-9a-f]{64}$/;
+
+const sha256 = async (data: ArrayBuffer): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+// Hugging Face exposes the LFS sha256 as X-Linked-Etag; other hosts may send X-Checksum-Sha256
+const checksumFromHeaders = (headers: Headers): string | undefined => {
+  const candidates = [headers.get('x-checksum-sha256'), headers.get('x-linked-etag')];
+  return candidates.map(c => c?.replace(/"/g, '').toLowerCase()).find(c => !!c && SHA256_HEX.test(c));
+};
+
+const joinUrl = (baseUrl: string, path: string) => `${baseUrl.replace(/\/+$/, '')}/${path}`;
+
+const fetchManifest = async (baseUrl: string): Promise<ManifestEntry[] | null> => {
+  try {
+    const response = await fetch(joinUrl(baseUrl, MANIFEST_FILE));
+    if (!response.ok) return null;
+    const manifest = await response.json();
+    return Array.isArray(manifest.files) ? manifest.files : null;
+  } catch (e) {
+    return null;
+  }
+};
+
+const writeToCache = async (modelId: string, files: { path: string; data: Blob }[]) => {
+  const cache = await caches.open(MODEL_CACHE);
+  await Promise.all(files.map(f => cache.put(modelFileUrl(modelId, f.path), new Response(f.data, {
+    headers: { 'Content-Length': String(f.data.size) }
+  }))));
+};
+
+const verify = (path: string, actual: string, expected?: string) => {
+  if (expected && expected.toLowerCase() !== actual) {
+    throw new Error(`Checksum mismatch for ${path}: expected ${expected.slice(0, 12)}…, got ${actual.slice(0, 12)}…`);
+  }
+};
+
+// Everything is downloaded and verified in memory before the cache is touched, so a failed
+// update leaves the previously installed version usable.
+export const downloadModel = async (source: ModelSource, onProgress: ProgressCallback): Promise<InstalledModel> => {
+  const manifest = await fetchManifest(source.baseUrl);
+  const entries: ManifestEntry[] = manifest || source.files.map(path => ({ path }));
+
+  const responses = await Promise.all(entries.map(async entry => {
+    const response = await fetch(joinUrl(source.baseUrl, entry.path));
+    if (!response.ok) throw new Error(`${entry.path}: HTTP ${response.status}`);
+    return { entry, response };
+  }));
+
+  const totalBytes = responses.reduce((sum, { entry, response }) => {
+    return sum + (entry.size || Number(response.headers.get('content-length')) || 0);
+  }, 0);
+  let receivedBytes = 0;
+
+  const downloaded: { path: string; data: Blob }[] = [];
+  const files: ModelFile[] = [];
+  for (const { entry, response } of responses) {
+    const reader = response.body!.getReader();
+    const parts: Uint8Array[] = [];
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      parts.push(value);
+      receivedBytes += value.length;
+      onProgress(receivedBytes, totalBytes);
+    }
+
+    const data = new Blob(parts);
+    const hash = await sha256(await data.arrayBuffer());
+    verify(entry.path, hash, entry.sha256 || checksumFromHeaders(response.headers));
+    downloaded.push({ path: entry.path, data });
+    files.push({ path: entry.path, size: data.size, sha256: hash, etag: response.headers.get('etag') || undefined });
+  }
+
+  await writeToCache(source.id, downloaded);
+  const model: InstalledModel = {
+    id: source.id,
+    name: source.name,
+    source: 'url',
+    baseUrl: source.baseUrl,
+    files,
+    totalBytes: downloaded.reduce((sum, f) => sum + f.data.size, 0),
+    installedAt: Date.now()
+  };
+  await saveInstalledModel(model);
+  return model;
+};
+
+// For a folder picked with <input webkitdirectory>, paths are taken relative to that folder
+export const importModelFiles = async (id: string, name: string, fileList: File[]): Promise<InstalledModel> => {
+  const relativePath = (f: File) => (f.webkitRelativePath || f.name).split('/').slice(f.webkitRelativePath ? 1 : 0).join('/');
+  const manifestFile = fileList.find(f => relativePath(f) === MANIFEST_FILE);
+  const manifest: ManifestEntry[] = manifestFile ? JSON.parse(await manifestFile.text()).files || [] : [];
+
+  const modelFiles = fileList.filter(f => f !== manifestFile);
+  const files: ModelFile[] = [];
+  for (const file of modelFiles) {
+    const path = relativePath(file);
+    const hash = await sha256(await file.arrayBuffer());
+    verify(path, hash, manifest.find(m => m.path === path)?.sha256);
+    files.push({ path, size: file.size, sha256: hash });
+  }
+  const missing = manifest.filter(m => !files.some(f => f.path === m.path));
+  if (missing.length > 0) throw new Error(`Missing files: ${missing.map(m => m.path).join(', ')}`);
+
+  await writeToCache(id, modelFiles.map(file => ({ path: relativePath(file), data: file })));
+  const model: InstalledModel = {
+    id,
+    name,
+    source: 'file',
+    files,
+    totalBytes: files.reduce((sum, f) => sum + f.size, 0),
+    installedAt: Date.now()
+  };
+  await saveInstalledModel(model);
+  return model;
+};
+
+// Cheap check: compares remote validators with the ones recorded at install time
+export const checkForUpdate = async (model: InstalledModel): Promise<boolean> => {
+  if (model.source !== 'url' || !model.baseUrl) return false;
+  const manifest = await fetchManifest(model.baseUrl);
+  if (manifest) {
+    return manifest.some(entry => model.files.find(f => f.path === entry.path)?.sha256 !== entry.sha256?.toLowerCase());
+  }
+  const results = await Promise.all(model.files.map(async file => {
+    const response = await fetch(joinUrl(model.baseUrl!, file.path), { method: 'HEAD' });
+    const checksum = checksumFromHeaders(response.headers);
+    if (checksum) return checksum !== file.sha256;
+    const etag = response.headers.get('etag');
+    return !!etag && !!file.etag && etag !== file.etag;
+  }));
+  return results.some(Boolean);
+};
+
+// Whether every file is still in the cache, without hashing; the installed record alone doesn't say
+export const hasModelFiles = async (model: InstalledModel): Promise<boolean> => {
+  const cache = await caches.open(MODEL_CACHE);
+  for (const file of model.files) {
+    if (!(await cache.match(modelFileUrl(model.id, file.path)))) return false;
+  }
+  return true;
+};
+
+// Re-hashes what is in the cache against the checksums recorded at install time
+export const verifyInstalledModel = async (model: InstalledModel): Promise<boolean> => {
+  const cache = await caches.open(MODEL_CACHE);
+  for (const file of model.files) {
+    const response = await cache.match(modelFileUrl(model.id, file.path));
+    if (!response || await sha256(await response.arrayBuffer()) !== file.sha256) return false;
+  }
+  return true;
+};
+
+export const removeModel = async (model: InstalledModel): Promise<void> => {
+  const cache = await caches.open(MODEL_CACHE);
+  await Promise.all(model.files.map(f => cache.delete(modelFileUrl(model.id, f.path))));
+  await deleteInstalledModel(model.id);
+};
+
+export const formatBytes = (bytes: number) => {
+  if (bytes >= 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+};
@@ -0,0 +1,113 @@
+import { DailyLog, ConversationSegment, Person } from './types';
+import { getAllLogs, updateLog, getPeople, savePerson, deletePerson } from './db';
+
+// Transcribers only give per-recording labels ("Person 1" means someone different in every chunk).
+// Assigning a segment to a person keeps the label in speakerLabel and writes the person's name into
+// `speaker`, so everything that shows or indexes speakers (Timeline, search, summaries, exports) picks
+// the name up without knowing about the registry.
+
+export type AssignScope = 'segment' | 'recording';
+
+export const originalLabel = (segment: ConversationSegment) => segment.speakerLabel ?? segment.speaker;
+
+const sameName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+// "Whole recording" means every segment of the same chunk the transcriber gave the same label
+export const scopeSegmentIds = (log: DailyLog, segment: ConversationSegment, scope: AssignScope): string[] => {
+  if (scope === 'segment' || !segment.audioId) return [segment.id];
+  const label = originalLabel(segment);
+  return log.transcripts.filter(s => s.audioId === segment.audioId && originalLabel(s) === label).map(s => s.id);
+};
+
+export const findOrCreatePerson = async (name: string): Promise<Person> => {
+  const trimmed = name.trim();
+  if (!trimmed) throw new Error("Name can't be empty");
+  const existing = (await getPeople()).find(p => sameName(p.name, trimmed));
+  if (existing) return existing;
+  const person: Person = { id: crypto.randomUUID(), name: trimmed, createdAt: Date.now() };
+  await savePerson(person);
+  return person;
+};
+
+export const assignSpeaker = async (date: string, segmentIds: string[], name: string): Promise<Person> => {
+  const person = await findOrCreatePerson(name);
+  const ids = new Set(segmentIds);
+  await updateLog(date, log => ({
+    ...log,
+    transcripts: log.transcripts.map(s => ids.has(s.id)
+      ? { ...s, speakerLabel: originalLabel(s), personId: person.id, speaker: person.name }
+      : s)
+  }));
+  return person;
+};
+
+// Back to the transcriber's label
+export const resetSpeaker = async (date: string, segmentIds: string[]): Promise<void> => {
+  const ids = new Set(segmentIds);
+  await updateLog(date, log => ({
+    ...log,
+    transcripts: log.transcripts.map(s => {
+      if (!ids.has(s.id) || !s.personId) return s;
+      const { personId, speakerLabel, ...rest } = s;
+      return { ...rest, speaker: originalLabel(s) };
+    })
+  }));
+};
+
+// Applies `change` to every segment of `personId` on every day they appear
+const rewritePersonSegments = async (personId: string, change: (segment: ConversationSegment) => ConversationSegment) => {
+  const dates = (await getAllLogs()).filter(log => log.transcripts.some(s => s.personId === personId)).map(log => log.date);
+  for (const date of dates) {
+    await updateLog(date, log => ({
+      ...log,
+      transcripts: log.transcripts.map(s => s.personId === personId ? change(s) : s)
+    }));
+  }
+};
+
+export const renamePerson = async (id: string, name: string): Promise<void> => {
+  const trimmed = name.trim();
+  if (!trimmed) throw new Error("Name can't be empty");
+  const people = await getPeople();
+  const person = people.find(p => p.id === id);
+  if (!person) throw new Error("Person not found");
+  if (people.some(p => p.id !== id && sameName(p.name, trimmed))) {
+    throw new Error(`${trimmed} already exists; merge them instead`);
+  }
+  await savePerson({ ...person, name: trimmed });
+  await rewritePersonSegments(id, s => ({ ...s, speaker: trimmed }));
+};
+
+// Everything `fromId` said becomes `intoId`'s, and `fromId` leaves the registry
+export const mergePeople = async (fromId: string, intoId: string): Promise<void> => {
+  if (fromId === intoId) return;
+  const into = (await getPeople()).find(p => p.id === intoId);
+  if (!into) throw new Error("Person not found");
+  await rewritePersonSegments(fromId, s => ({ ...s, personId: into.id, speaker: into.name }));
+  await deletePerson(fromId);
+};
+
+export interface PersonStats {
+  segments: number;
+  days: number;
+  seconds: number;
+}
+
+export const personStats = (logs: DailyLog[]): Map<string, PersonStats> => {
+  const stats = new Map<string, PersonStats>();
+  logs.forEach(log => {
+    const seen = new Set<string>();
+    log.transcripts.forEach(s => {
+      if (!s.personId) return;
+      const entry = stats.get(s.personId) || { segments: 0, days: 0, seconds: 0 };
+      entry.segments++;
+      entry.seconds += s.duration;
+      if (!seen.has(s.personId)) {
+        entry.days++;
+        seen.add(s.personId);
+      }
+      stats.set(s.personId, entry);
+    });
+  });
+  return stats;
+};
@@ -0,0 +1,120 @@
+import { DailyLog, PeriodKind, PeriodSummary } from './types';
+import { PeriodDay } from './providers';
+import { generatePeriodNarrative } from './aiService';
+import { savePeriodSummary, getTasks } from './db';
+import { isSameTask } from './tasks';
+import { dayMood, moodLabel } from './sentiment';
+import { topicLabels } from './topics';
+
+// Rollups over a week, a month or any range. Days that have a daily summary go to the model as that
+// summary; the others go as raw transcript, capped so a long unsummarized week still fits the prompt.
+
+const RAW_CHARS_PER_DAY = 6000;
+
+export interface DateRange {
+  from: string;
+  to: string;
+}
+
+// Calendar arithmetic on YYYY-MM-DD keys, done in UTC so the host zone can't shift a day
+const toUtc = (date: string) => {
+  const [y, m, d] = date.split('-').map(Number);
+  return Date.UTC(y, m - 1, d);
+};
+
+const fromUtc = (ms: number) => new Date(ms).toISOString().slice(0, 10);
+
+export const addDays = (date: string, days: number) => fromUtc(toUtc(date) + days * 86400000);
+
+export const periodId = ({ from, to }: DateRange) => `${from}_${to}`;
+
+// Weeks run Sunday to Saturday, like the calendar grid
+export const periodRange = (kind: Exclude<PeriodKind, 'custom'>, anchor: string): DateRange => {
+  if (kind === 'week') {
+    const from = addDays(anchor, -new Date(toUtc(anchor)).getUTCDay());
+    return { from, to: addDays(from, 6) };
+  }
+  const [y, m] = anchor.split('-').map(Number);
+  return { from: fromUtc(Date.UTC(y, m - 1, 1)), to: fromUtc(Date.UTC(y, m, 0)) };
+};
+
+// The previous (-1) or next (+1) week or month
+export const shiftPeriod = (kind: Exclude<PeriodKind, 'custom'>, range: DateRange, step: number): DateRange => {
+  if (kind === 'week') return periodRange(kind, addDays(range.from, step * 7));
+  const [y, m] = range.from.split('-').map(Number);
+  return periodRange(kind, fromUtc(Date.UTC(y, m - 1 + step, 1)));
+};
+
+export const logsInRange = (logs: DailyLog[], { from, to }: DateRange) =>
+  logs
+    .filter(log => log.date >= from && log.date <= to && (log.transcripts.length > 0 || log.summary))
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+const toPeriodDay = (log: DailyLog): PeriodDay => {
+  if (log.summary) return { date: log.date, summary: log.summary };
+  let budget = RAW_CHARS_PER_DAY;
+  const transcript = log.transcripts.filter(segment => (budget -= segment.text.length) >= 0);
+  return { date: log.date, transcript: transcript.length > 0 ? transcript : log.transcripts.slice(0, 1) };
+};
+
+const normalizeKey = (text: string) => text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+// Everything except overview and themes is collected from the daily summaries directly
+const collectFromSummaries = (logs: DailyLog[]) => {
+  const topics = new Map<string, { topic: string; days: number }>();
+  const actions = new Map<string, { text: string; date: string }>();
+  const moodTrend: PeriodSummary['moodTrend'] = [];
+  const labels = topicLabels(logs.flatMap(log => log.summary?.topics || []));
+
+  logs.forEach(log => {
+    // Unsummarized days still have a mood score from their segments
+    const score = dayMood(log);
+    const mood = log.summary?.mood && log.summary.mood !== 'N/A' ? log.summary.mood : score !== null ? moodLabel(score) : null;
+    if (mood) moodTrend.push({ date: log.date, mood, ...(score !== null ? { score } : {}) });
+    if (!log.summary) return;
+    new Set(log.summary.topics.map(topic => labels.get(topic.trim())).filter((t): t is string => !!t)).forEach(topic => {
+      const entry = topics.get(topic) || { topic, days: 0 };
+      entry.days++;
+      topics.set(topic, entry);
+    });
+    // The same item repeated on later days is still one open item, dated when it first came up
+    log.summary.actionItems.forEach(text => {
+      const key = normalizeKey(text);
+      if (key && !actions.has(key)) actions.set(key, { text, date: log.date });
+    });
+  });
+
+  return {
+    recurringTopics: [...topics.values()]
+      .filter(t => t.days >= 2)
+      .sort((a, b) => b.days - a.days || a.topic.localeCompare(b.topic)),
+    openActionItems: [...actions.values()],
+    moodTrend
+  };
+};
+
+export const generatePeriodSummary = async (
+  kind: PeriodKind, range: DateRange, logs: DailyLog[], offlineMode: boolean
+): Promise<PeriodSummary> => {
+  const days = logsInRange(logs, range);
+  if (days.length === 0) throw new Error("Nothing was recorded in this range");
+
+  const narrative = await generatePeriodNarrative(days.map(toPeriodDay), offlineMode);
+  const collected = collectFromSummaries(days);
+  // Items already ticked off in the task list aren't open any more
+  const done = (await getTasks()).filter(task => task.status === 'done');
+  const summary: PeriodSummary = {
+    id: periodId(range),
+    kind,
+    from: range.from,
+    to: range.to,
+    ...narrative,
+    ...collected,
+    openActionItems: collected.openActionItems.filter(item => !done.some(task => isSameTask(task.text, item.text))),
+    dayCount: days.length,
+    summarizedDays: days.filter(log => log.summary).length,
+    generatedAt: Date.now()
+  };
+  await savePeriodSummary(summary);
+  return summary;
+};
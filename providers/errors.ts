@@ -0,0 +1,32 @@
+import { TranscriptionFailureKind } from '../types';
+
+export class TranscriptionError extends Error {
+  constructor(public kind: TranscriptionFailureKind, message: string) {
+    super(message);
+    this.name = 'TranscriptionError';
+  }
+
+  // Auth and setup problems, missing audio and missing models won't fix themselves; everything else is worth another attempt
+  get retryable() {
+    return this.kind !== 'auth' && this.kind !== 'config' && this.kind !== 'missing_audio' && this.kind !== 'model_unavailable';
+  }
+}
+
+export const errorForStatus = (status: number, message: string): TranscriptionError => {
+  if (status === 401 || status === 403) return new TranscriptionError('auth', message);
+  if (status === 429) return new TranscriptionError('quota', message);
+  if (status >= 500) return new TranscriptionError('network', message);
+  return new TranscriptionError('unknown', message);
+};
+
+export const classifyError = (error: unknown): TranscriptionError => {
+  if (error instanceof TranscriptionError) return error;
+  const message = error instanceof Error ? error.message : String(error);
+  if (error instanceof SyntaxError) return new TranscriptionError('invalid_response', `Model returned malformed JSON: ${message}`);
+  if (!navigator.onLine || error instanceof TypeError) return new TranscriptionError('network', message);
+
+  if (/api key/i.test(message)) return new TranscriptionError('auth', message);
+  if (/RESOURCE_EXHAUSTED|quota/i.test(message)) return new TranscriptionError('quota', message);
+  const status = Number(message.match(/got status: (\d{3})/)?.[1]);
+  return status ? errorForStatus(status, message) : new TranscriptionError('unknown', message);
+};
@@ -0,0 +1,159 @@
+import { GoogleGenAI, Type } from "@google/genai";
+import { AIProvider, formatTranscript, formatPeriod, answerPrompt, formatSentimentTexts, ANSWER_INSTRUCTIONS, PERIOD_INSTRUCTIONS, SENTIMENT_INSTRUCTIONS } from "./provider";
+import { TranscriptionError, classifyError } from "./errors";
+import { blobToBase64 } from "../recorder";
+
+// Fix: Directly use process.env.API_KEY as per guidelines
+const clientFor = (apiKey?: string) => new GoogleGenAI({ apiKey: apiKey || process.env.API_KEY as string });
+
+// Kept small: every stored vector is held in memory during semantic search
+const EMBEDDING_DIMENSIONS = 256;
+
+export const hasGeminiKey = (apiKey?: string) => !!(apiKey || process.env.API_KEY);
+
+export const geminiProvider: AIProvider = {
+  async transcribe({ audio, mimeType }, config) {
+    try {
+      const ai = clientFor(config.apiKey);
+      const response = await ai.models.generateContent({
+        model: config.model,
+        contents: {
+          parts: [
+            { inlineData: { mimeType: mimeType, data: await blobToBase64(audio) } },
+            { text: "Transcribe this audio. Identify speakers. Return valid JSON array." }
+          ]
+        },
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                id: { type: Type.STRING },
+                startTime: { type: Type.STRING },
+                offsetInAudio: { type: Type.NUMBER },
+                duration: { type: Type.NUMBER },
+                speaker: { type: Type.STRING },
+                text: { type: Type.STRING },
+                confidence: { type: Type.NUMBER }
+              },
+              required: ["id", "startTime", "offsetInAudio", "duration", "speaker", "text", "confidence"]
+            }
+          }
+        }
+      });
+
+      // Fix: Access .text property directly (not as a method)
+      const jsonStr = response.text?.trim();
+      if (!jsonStr) throw new TranscriptionError('invalid_response', "Model returned an empty response");
+      const segments = JSON.parse(jsonStr);
+      if (!Array.isArray(segments)) throw new TranscriptionError('invalid_response', "Model did not return a segment array");
+      return segments;
+    } catch (error) {
+      console.error("Gemini API Error:", error);
+      throw classifyError(error);
+    }
+  },
+
+  async summarize(transcripts, config) {
+    const ai = clientFor(config.apiKey);
+    const response = await ai.models.generateContent({
+      model: config.model,
+      contents: `Summarize this day log:\n\n${formatTranscript(transcripts)}`,
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            overview: { type: Type.STRING },
+            keyEvents: { type: Type.ARRAY, items: { type: Type.STRING } },
+            actionItems: { type: Type.ARRAY, items: { type: Type.STRING } },
+            mood: { type: Type.STRING },
+            topics: { type: Type.ARRAY, items: { type: Type.STRING } }
+          },
+          required: ["overview", "keyEvents", "actionItems", "mood", "topics"]
+        }
+      }
+    });
+
+    // Fix: Access .text property directly (not as a method)
+    const jsonStr = response.text?.trim();
+    return JSON.parse(jsonStr || "{}");
+  },
+
+  async summarizePeriod(days, config) {
+    const ai = clientFor(config.apiKey);
+    const response = await ai.models.generateContent({
+      model: config.model,
+      contents: formatPeriod(days),
+      config: {
+        systemInstruction: PERIOD_INSTRUCTIONS,
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            overview: { type: Type.STRING },
+            themes: { type: Type.ARRAY, items: { type: Type.STRING } }
+          },
+          required: ["overview", "themes"]
+        }
+      }
+    });
+    return JSON.parse(response.text?.trim() || "{}");
+  },
+
+  async scoreSentiment(texts, config) {
+    const ai = clientFor(config.apiKey);
+    const response = await ai.models.generateContent({
+      model: config.model,
+      contents: formatSentimentTexts(texts),
+      config: {
+        systemInstruction: SENTIMENT_INSTRUCTIONS,
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            scores: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  index: { type: Type.NUMBER },
+                  score: { type: Type.NUMBER },
+                  emotion: { type: Type.STRING }
+                },
+                required: ["index", "score"]
+              }
+            }
+          },
+          required: ["scores"]
+        }
+      }
+    });
+    return JSON.parse(response.text?.trim() || "{}").scores;
+  },
+
+  async embed(texts, config) {
+    const ai = clientFor(config.apiKey);
+    const response = await ai.models.embedContent({
+      model: config.model,
+      contents: texts,
+      config: { taskType: 'SEMANTIC_SIMILARITY', outputDimensionality: EMBEDDING_DIMENSIONS }
+    });
+    return (response.embeddings || []).map(e => e.values || []);
+  },
+
+  async answer(request, config) {
+    const ai = clientFor(config.apiKey);
+    const response = await ai.models.generateContent({
+      model: config.model,
+      contents: [
+        ...request.history.map(m => ({ role: m.role === 'assistant' ? 'model' : 'user', parts: [{ text: m.text }] })),
+        { role: 'user', parts: [{ text: answerPrompt(request) }] }
+      ],
+      config: { systemInstruction: ANSWER_INSTRUCTIONS }
+    });
+    return response.text?.trim() || '';
+  }
+};
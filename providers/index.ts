@@ -0,0 +1,47 @@
+import { ProviderConfig, ProviderId } from "../types";
+import { AIProvider } from "./provider";
+import { geminiProvider } from "./gemini";
+import { openAICompatibleProvider } from "./openaiCompatible";
+import { mockProvider } from "./mock";
+import { localProvider } from "./local";
+
+export const PROVIDERS: Record<ProviderId, AIProvider> = {
+  gemini: geminiProvider,
+  openai: openAICompatibleProvider,
+  local: localProvider,
+  mock: mockProvider
+};
+
+export const PROVIDER_LABELS: Record<ProviderId, string> = {
+  gemini: 'Google Gemini',
+  openai: 'OpenAI-compatible',
+  local: 'On-device',
+  mock: 'Mock (offline)'
+};
+
+// Sensible starting points when the user switches provider for a task
+export const PROVIDER_DEFAULTS: Record<'transcription' | 'summary' | 'embedding', Record<ProviderId, ProviderConfig>> = {
+  transcription: {
+    gemini: { provider: 'gemini', model: 'gemini-3-flash-preview' },
+    openai: { provider: 'openai', model: 'whisper-1', baseUrl: 'http://localhost:8080/v1' },
+    local: { provider: 'local', model: '' },
+    mock: { provider: 'mock', model: 'mock' }
+  },
+  summary: {
+    gemini: { provider: 'gemini', model: 'gemini-3-pro-preview' },
+    openai: { provider: 'openai', model: 'llama3.1', baseUrl: 'http://localhost:11434/v1' },
+    local: { provider: 'local', model: '' },
+    mock: { provider: 'mock', model: 'mock' }
+  },
+  embedding: {
+    gemini: { provider: 'gemini', model: 'gemini-embedding-001' },
+    openai: { provider: 'openai', model: 'nomic-embed-text', baseUrl: 'http://localhost:11434/v1' },
+    local: { provider: 'local', model: '' },
+    mock: { provider: 'mock', model: 'mock' }
+  }
+};
+
+export type { AIProvider, TranscriptionRequest, AnswerRequest, AnswerSource, PeriodDay, PeriodNarrative, SentimentReading } from "./provider";
+export { TranscriptionError } from "./errors";
+export { hasGeminiKey } from "./gemini";
+export { warmUpLocalModel } from "./local";
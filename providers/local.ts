@@ -0,0 +1,110 @@
+import { ConversationSegment, SpeakerType } from "../types";
+import { AIProvider, clockTime } from "./provider";
+import { TranscriptionError } from "./errors";
+import { mockProvider } from "./mock";
+import { MODEL_CACHE, hasModelFiles } from "../modelStore";
+import { getInstalledModels } from "../db";
+import type { LocalWhisperRequest, LocalWhisperResponse } from "../workers/localWhisper.worker";
+
+// On-device transcription. Audio is decoded and resampled here (workers have no AudioContext),
+// then handed to the Whisper worker. `config.model` is the id of an installed model.
+
+const SAMPLE_RATE = 16000;
+
+let worker: Worker | null = null;
+let nextRequestId = 1;
+const pending = new Map<number, { resolve: (r: LocalWhisperResponse) => void; reject: (e: Error) => void }>();
+
+const getWorker = () => {
+  if (worker) return worker;
+  worker = new Worker(new URL('../workers/localWhisper.worker.ts', import.meta.url), { type: 'module' });
+  worker.onmessage = (event: MessageEvent<LocalWhisperResponse>) => {
+    pending.get(event.data.requestId)?.resolve(event.data);
+    pending.delete(event.data.requestId);
+  };
+  worker.onerror = (event) => {
+    pending.forEach(p => p.reject(new Error(event.message || "Speech worker crashed")));
+    pending.clear();
+    worker?.terminate();
+    worker = null;
+  };
+  return worker;
+};
+
+const callWorker = (modelId: string, samples?: Float32Array): Promise<LocalWhisperResponse> => {
+  const requestId = nextRequestId++;
+  return new Promise((resolve, reject) => {
+    pending.set(requestId, { resolve, reject });
+    const message: LocalWhisperRequest = { requestId, modelId, cacheName: MODEL_CACHE, samples };
+    getWorker().postMessage(message, samples ? [samples.buffer] : []);
+  });
+};
+
+// Loads the model once while online so ONNX Runtime can cache its WASM binaries for offline use
+export const warmUpLocalModel = async (modelId: string) => {
+  const response = await callWorker(modelId);
+  if (response.error) throw new Error(response.error);
+};
+
+const decodeTo16kMono = async (audio: Blob): Promise<Float32Array> => {
+  // decodeAudioData resamples to the context's rate
+  const buffer = await new OfflineAudioContext(1, 1, SAMPLE_RATE).decodeAudioData(await audio.arrayBuffer());
+  const mono = new Float32Array(buffer.length);
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const data = buffer.getChannelData(c);
+    for (let i = 0; i < data.length; i++) mono[i] += data[i] / buffer.numberOfChannels;
+  }
+  return mono;
+};
+
+export const localProvider: AIProvider = {
+  async transcribe({ audio }, config) {
+    const installed = await getInstalledModels();
+    const model = installed.find(m => m.id === config.model);
+    if (!config.model || !model) {
+      throw new TranscriptionError('model_unavailable', "No local speech model is installed. Download one under AI Models.");
+    }
+    if (!(await hasModelFiles(model))) {
+      throw new TranscriptionError('model_unavailable', `The files of ${model.name} are no longer stored. Download it again under AI Models.`);
+    }
+
+    let samples: Float32Array;
+    try {
+      samples = await decodeTo16kMono(audio);
+    } catch (e) {
+      throw new TranscriptionError('invalid_response', `Audio could not be decoded: ${e}`);
+    }
+
+    const duration = samples.length / SAMPLE_RATE;
+    const response = await callWorker(config.model, samples).catch(e => ({ requestId: 0, error: String(e) } as LocalWhisperResponse));
+    if (response.error) throw new TranscriptionError('unknown', `Local transcription failed: ${response.error}`);
+
+    const now = Date.now();
+    return (response.chunks || [])
+      .filter(c => c.text.trim())
+      .map((c, i): ConversationSegment => {
+        const start = c.timestamp[0] || 0;
+        const end = c.timestamp[1] ?? duration;
+        return {
+          id: `local_${now.toString(36)}_${i}`,
+          startTime: clockTime(new Date(now + start * 1000)),
+          offsetInAudio: start,
+          duration: Math.max(0, end - start),
+          // Whisper doesn't diarize
+          speaker: SpeakerType.UNKNOWN,
+          text: c.text.trim(),
+          confidence: 1
+        };
+      });
+  },
+
+  // No local LLM yet; the extractive mock summary is the best that can run on-device
+  summarize: (transcripts, config) => mockProvider.summarize(transcripts, config),
+  summarizePeriod: (days, config) => mockProvider.summarizePeriod(days, config),
+  scoreSentiment: (texts, config) => mockProvider.scoreSentiment(texts, config),
+
+  // Likewise hashed lexical vectors until a sentence-embedding model can be installed
+  embed: (texts, config) => mockProvider.embed(texts, config),
+
+  answer: (request, config) => mockProvider.answer(request, config)
+};
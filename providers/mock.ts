@@ -0,0 +1,130 @@
+import { ConversationSegment, DailySummary, SpeakerType } from "../types";
+import { AIProvider, clockTime } from "./provider";
+import { lexiconScore } from "../sentiment";
+
+// Deterministic stand-in: the same audio always yields the same transcript and the same
+// transcripts always yield the same summary, so the whole pipeline can be exercised offline.
+
+const MOCK_SENTENCES = [
+  "I was thinking about the project we discussed this morning.",
+  "The weather is quite pleasant today, isn't it?",
+  "Remember to buy some groceries on the way back home.",
+  "That meeting was quite productive, we cleared a lot of doubts.",
+  "I really need to start working out from next Monday.",
+  "Captured a beautiful sunset near the lake today."
+];
+
+const STOP_WORDS = new Set([
+  'the', 'a', 'an', 'and', 'or', 'but', 'to', 'of', 'in', 'on', 'at', 'for', 'with', 'is', 'it', 'we',
+  'i', 'you', 'that', 'this', 'was', 'be', 'are', 'from', 'about', 'some', 'isn\'t', 'quite', 'really', 'need'
+]);
+
+const ACTION_PATTERN = /\b(need to|should|must|remember to|have to|todo|follow up)\b/i;
+
+const topWords = (texts: string[], limit: number) => {
+  const counts = new Map<string, number>();
+  texts.forEach(text => {
+    text.toLowerCase().match(/[a-z']{4,}/g)?.forEach(word => {
+      if (!STOP_WORDS.has(word)) counts.set(word, (counts.get(word) || 0) + 1);
+    });
+  });
+  return [...counts.entries()]
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, limit)
+    .map(([word]) => word[0].toUpperCase() + word.slice(1));
+};
+
+// FNV-1a over the raw bytes
+const hashBytes = (bytes: Uint8Array) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < bytes.length; i++) {
+    hash ^= bytes[i];
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const HASHED_DIMENSIONS = 256;
+
+const hashString = (text: string) => hashBytes(new TextEncoder().encode(text));
+
+// Feature hashing over words and character trigrams. Purely lexical, but it catches inflections and
+// typos, and needs no model, so it stands in for real embeddings offline.
+export const hashedEmbedding = (text: string): number[] => {
+  const vector = new Array(HASHED_DIMENSIONS).fill(0);
+  const words = text.toLowerCase().match(/[\p{L}\p{M}\p{N}]+/gu) || [];
+  const features = words.flatMap(word => {
+    const padded = ` ${word} `;
+    const trigrams = Array.from({ length: Math.max(0, padded.length - 2) }, (_, i) => padded.slice(i, i + 3));
+    return [word, ...trigrams];
+  });
+  features.forEach(feature => {
+    const hash = hashString(feature);
+    // The top bit picks the sign, so unrelated collisions tend to cancel out
+    vector[hash % HASHED_DIMENSIONS] += hash & 0x80000000 ? -1 : 1;
+  });
+  const norm = Math.hypot(...vector) || 1;
+  return vector.map(v => v / norm);
+};
+
+export const mockProvider: AIProvider = {
+  async transcribe({ audio }) {
+    const hash = hashBytes(new Uint8Array(await audio.arrayBuffer()));
+    const sentence = MOCK_SENTENCES[hash % MOCK_SENTENCES.length];
+    return [{
+      id: `mock_${hash.toString(36)}`,
+      startTime: clockTime(new Date()),
+      offsetInAudio: 0,
+      duration: 30,
+      speaker: SpeakerType.YOU,
+      text: `[Mock] ${sentence}`,
+      confidence: 0.98
+    }];
+  },
+
+  async summarize(transcripts: ConversationSegment[]): Promise<DailySummary> {
+    const topics = topWords(transcripts.map(t => t.text), 3);
+    const speakers = new Set(transcripts.map(t => t.speaker));
+
+    return {
+      overview: `${transcripts.length} segments recorded with ${speakers.size} speaker(s).`,
+      keyEvents: transcripts.slice(0, 3).map(t => t.text),
+      actionItems: transcripts.filter(t => ACTION_PATTERN.test(t.text)).map(t => t.text),
+      mood: "Neutral",
+      topics
+    };
+  },
+
+  // Themes are the topics most days share; days without a summary contribute their most frequent words
+  async summarizePeriod(days) {
+    const counts = new Map<string, number>();
+    days.forEach(day => {
+      const topics = day.summary ? day.summary.topics : topWords((day.transcript || []).map(t => t.text), 3);
+      new Set(topics.map(t => t.toLowerCase())).forEach(topic => counts.set(topic, (counts.get(topic) || 0) + 1));
+    });
+    const themes = [...counts.entries()]
+      .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+      .slice(0, 5)
+      .map(([topic]) => topic[0].toUpperCase() + topic.slice(1));
+    const summarized = days.filter(d => d.summary).length;
+    return {
+      overview: `${days.length} day(s) with recordings, ${summarized} of them summarized.`,
+      themes
+    };
+  },
+
+  async scoreSentiment(texts) {
+    return texts.map((text, i) => ({ index: i + 1, score: lexiconScore(text) }));
+  },
+
+  async embed(texts) {
+    return texts.map(hashedEmbedding);
+  },
+
+  // Extractive: quotes the best-ranked sources instead of composing an answer
+  async answer({ sources }) {
+    if (sources.length === 0) return "I couldn't find anything about that in your recordings.";
+    const quotes = sources.slice(0, 3).map((s, i) => `- ${s.speaker} on ${s.date} at ${s.startTime}: "${s.text}" [${i + 1}]`);
+    return `These are the closest moments in your recordings:\n${quotes.join("\n")}`;
+  }
+};
@@ -0,0 +1,158 @@
+import { ConversationSegment, DailySummary, ProviderConfig, SpeakerType } from "../types";
+import { AIProvider, formatTranscript, formatPeriod, clockTime, answerPrompt, formatSentimentTexts, ANSWER_INSTRUCTIONS, PERIOD_INSTRUCTIONS, SENTIMENT_INSTRUCTIONS } from "./provider";
+import { TranscriptionError, classifyError, errorForStatus } from "./errors";
+
+// Talks to anything exposing the OpenAI REST shape: a whisper.cpp or faster-whisper server for
+// /audio/transcriptions, Ollama or llama.cpp for /chat/completions.
+
+const FILE_EXTENSIONS: Record<string, string> = {
+  'audio/webm': 'webm',
+  'audio/wav': 'wav',
+  'audio/aac': 'aac',
+  'audio/mp4': 'm4a',
+  'audio/ogg': 'ogg'
+};
+
+interface VerboseTranscription {
+  text?: string;
+  duration?: number;
+  segments?: { start: number; end: number; text: string; avg_logprob?: number }[];
+}
+
+const endpoint = (config: ProviderConfig, path: string) => {
+  if (!config.baseUrl) throw new TranscriptionError('config', "No base URL configured for the OpenAI-compatible provider");
+  return `${config.baseUrl.replace(/\/+$/, '')}${path}`;
+};
+
+const authHeaders = (config: ProviderConfig): Record<string, string> =>
+  config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {};
+
+const request = async (url: string, init: RequestInit) => {
+  const response = await fetch(url, init);
+  if (!response.ok) {
+    throw errorForStatus(response.status, `${response.status} ${response.statusText}: ${(await response.text()).slice(0, 300)}`);
+  }
+  return response.json();
+};
+
+const toSegments = (data: VerboseTranscription): ConversationSegment[] => {
+  const now = new Date();
+  const parts = data.segments?.length
+    ? data.segments
+    : data.text ? [{ start: 0, end: data.duration || 0, text: data.text }] : [];
+
+  return parts
+    .filter(p => p.text.trim())
+    .map((p, i) => ({
+      id: `${now.getTime().toString(36)}_${i}`,
+      startTime: clockTime(new Date(now.getTime() + p.start * 1000)),
+      offsetInAudio: p.start,
+      duration: Math.max(0, p.end - p.start),
+      // Whisper doesn't diarize
+      speaker: SpeakerType.UNKNOWN,
+      text: p.text.trim(),
+      confidence: 'avg_logprob' in p && typeof p.avg_logprob === 'number' ? Math.exp(p.avg_logprob) : 1
+    }));
+};
+
+export const openAICompatibleProvider: AIProvider = {
+  async transcribe({ audio, mimeType }, config) {
+    try {
+      const form = new FormData();
+      const extension = FILE_EXTENSIONS[mimeType.split(';')[0]] || 'webm';
+      form.append('file', audio, `chunk.${extension}`);
+      form.append('model', config.model);
+      form.append('response_format', 'verbose_json');
+
+      const data: VerboseTranscription = await request(endpoint(config, '/audio/transcriptions'), {
+        method: 'POST',
+        headers: authHeaders(config),
+        body: form
+      });
+      return toSegments(data);
+    } catch (error) {
+      console.error("Transcription endpoint error:", error);
+      throw classifyError(error);
+    }
+  },
+
+  async summarize(transcripts, config) {
+    const data = await request(endpoint(config, '/chat/completions'), {
+      method: 'POST',
+      headers: { ...authHeaders(config), 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        model: config.model,
+        response_format: { type: 'json_object' },
+        messages: [
+          {
+            role: 'system',
+            content: 'You summarize a day of recorded conversation. Reply with a JSON object with the keys ' +
+              '"overview" (string), "keyEvents" (string[]), "actionItems" (string[]), "mood" (string) and "topics" (string[]).'
+          },
+          { role: 'user', content: `Summarize this day log:\n\n${formatTranscript(transcripts)}` }
+        ]
+      })
+    });
+
+    const content: string | undefined = data.choices?.[0]?.message?.content;
+    return JSON.parse(content || "{}") as DailySummary;
+  },
+
+  async summarizePeriod(days, config) {
+    const data = await request(endpoint(config, '/chat/completions'), {
+      method: 'POST',
+      headers: { ...authHeaders(config), 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        model: config.model,
+        response_format: { type: 'json_object' },
+        messages: [
+          { role: 'system', content: PERIOD_INSTRUCTIONS },
+          { role: 'user', content: formatPeriod(days) }
+        ]
+      })
+    });
+    return JSON.parse(data.choices?.[0]?.message?.content || "{}");
+  },
+
+  async scoreSentiment(texts, config) {
+    const data = await request(endpoint(config, '/chat/completions'), {
+      method: 'POST',
+      headers: { ...authHeaders(config), 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        model: config.model,
+        response_format: { type: 'json_object' },
+        messages: [
+          { role: 'system', content: SENTIMENT_INSTRUCTIONS },
+          { role: 'user', content: formatSentimentTexts(texts) }
+        ]
+      })
+    });
+    return JSON.parse(data.choices?.[0]?.message?.content || "{}").scores;
+  },
+
+  async embed(texts, config) {
+    const data = await request(endpoint(config, '/embeddings'), {
+      method: 'POST',
+      headers: { ...authHeaders(config), 'Content-Type': 'application/json' },
+      body: JSON.stringify({ model: config.model, input: texts })
+    });
+    const items: { index: number; embedding: number[] }[] = data.data || [];
+    return items.sort((a, b) => a.index - b.index).map(item => item.embedding);
+  },
+
+  async answer(question, config) {
+    const data = await request(endpoint(config, '/chat/completions'), {
+      method: 'POST',
+      headers: { ...authHeaders(config), 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        model: config.model,
+        messages: [
+          { role: 'system', content: ANSWER_INSTRUCTIONS },
+          ...question.history.map(m => ({ role: m.role, content: m.text })),
+          { role: 'user', content: answerPrompt(question) }
+        ]
+      })
+    });
+    return (data.choices?.[0]?.message?.content || '').trim();
+  }
+};
@@ -0,0 +1,88 @@
+import { ConversationSegment, DailySummary, ProviderConfig } from '../types';
+
+export interface TranscriptionRequest {
+  audio: Blob;
+  mimeType: string;
+}
+
+// A retrieved transcript excerpt; answers refer to sources by their 1-based position as [n]
+export interface AnswerSource {
+  date: string;
+  startTime: string;
+  speaker: string;
+  text: string;
+}
+
+export interface AnswerRequest {
+  question: string;
+  sources: AnswerSource[];
+  history: { role: 'user' | 'assistant'; text: string }[];
+}
+
+// One day of a period rollup: its daily summary when there is one, otherwise (part of) its raw transcript
+export interface PeriodDay {
+  date: string;
+  summary?: DailySummary;
+  transcript?: ConversationSegment[];
+}
+
+export interface PeriodNarrative {
+  overview: string;
+  themes: string[];
+}
+
+// Sentiment of one text from -1 (very negative) to 1 (very positive), with an optional one-word emotion
+export interface SentimentReading {
+  index: number; // 1-based position of the text it rates
+  score: number;
+  emotion?: string;
+}
+
+// Transcription failures must be thrown as TranscriptionError so the job queue can decide on retries.
+// Summaries are user-triggered and may throw anything.
+export interface AIProvider {
+  transcribe(request: TranscriptionRequest, config: ProviderConfig): Promise<ConversationSegment[]>;
+  summarize(transcripts: ConversationSegment[], config: ProviderConfig): Promise<DailySummary>;
+  summarizePeriod(days: PeriodDay[], config: ProviderConfig): Promise<PeriodNarrative>;
+  // Texts the model leaves out simply have no reading
+  scoreSentiment(texts: string[], config: ProviderConfig): Promise<SentimentReading[]>;
+  // One vector per input text, in input order
+  embed(texts: string[], config: ProviderConfig): Promise<number[][]>;
+  answer(request: AnswerRequest, config: ProviderConfig): Promise<string>;
+}
+
+export const formatTranscript = (transcripts: ConversationSegment[]) =>
+  transcripts.map(t => `[${t.startTime}] ${t.speaker}: ${t.text}`).join("\n");
+
+export const formatPeriod = (days: PeriodDay[]) => days.map(day => day.summary
+  ? `## ${day.date}\nOverview: ${day.summary.overview}\nEvents: ${day.summary.keyEvents.join('; ')}\nTopics: ${day.summary.topics.join(', ')}\nMood: ${day.summary.mood}`
+  : `## ${day.date} (raw transcript)\n${formatTranscript(day.transcript || [])}`
+).join("\n\n");
+
+export const PERIOD_INSTRUCTIONS =
+  "You write a rollup of several days of the user's recorded conversations, given one section per day. " +
+  "Reply with a JSON object with the keys \"overview\" (string: a few sentences on how the period went) and " +
+  "\"themes\" (string[]: the threads that ran through several days, short phrases).";
+
+export const SENTIMENT_INSTRUCTIONS =
+  "You rate the sentiment of numbered lines from the user's recorded conversations. Reply with a JSON object " +
+  "with the key \"scores\": an array of {\"index\" (number: the line number), \"score\" (number from -1, very " +
+  "negative, to 1, very positive; 0 is neutral), \"emotion\" (string: one lowercase word such as calm, happy, " +
+  "excited, tired, frustrated, anxious, sad or angry)}, one per line.";
+
+export const formatSentimentTexts = (texts: string[]) => texts.map((text, i) => `[${i + 1}] ${text}`).join("\n");
+
+export const ANSWER_INSTRUCTIONS =
+  "You answer questions about the user's own recorded conversations, using only the numbered excerpts provided. " +
+  "Cite the excerpts that support each statement with their numbers in square brackets, e.g. [2] or [1][4]. " +
+  "If the excerpts don't contain the answer, say so plainly instead of guessing.";
+
+export const formatSources = (sources: AnswerSource[]) => sources.length > 0
+  ? sources.map((s, i) => `[${i + 1}] ${s.date} ${s.startTime} ${s.speaker}: ${s.text}`).join("\n")
+  : "(no matching excerpts)";
+
+export const answerPrompt = ({ question, sources }: AnswerRequest) =>
+  `Excerpts:\n${formatSources(sources)}\n\nQuestion: ${question}`;
+
+export const clockTime = (date: Date) =>
+  date.toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit', second: '2-digit' });
@@ -0,0 +1,90 @@
+export interface ChunkInfo {
+  id: string;
+  mimeType: string;
+  startedAt: number; // Epoch ms when this chunk's recorder started
+}
+
+export interface RecordedChunk extends ChunkInfo {
+  blob: Blob;
+  endedAt: number;
+}
+
+interface ChunkedRecorderOptions {
+  chunkSeconds: number | null; // null records a single chunk until stop()
+  sliceSeconds?: number; // How often MediaRecorder hands over data for onSlice
+  onSlice?: (chunk: ChunkInfo, slice: Blob) => void;
+  onChunk: (chunk: RecordedChunk) => void;
+}
+
+export interface ChunkedRecorder {
+  flush: () => void;
+  stop: () => void;
+}
+
+const DEFAULT_SLICE_SECONDS = 5;
+
+// Use a more standard mimeType for Android WebView
+export const pickMimeType = () => MediaRecorder.isTypeSupported('audio/webm') ? 'audio/webm' : 'audio/aac';
+
+// Each chunk gets its own MediaRecorder so every blob is a standalone, playable file.
+// The next recorder is started before the previous one stops to avoid gaps at the cut.
+export const createChunkedRecorder = (
+  stream: MediaStream,
+  { chunkSeconds, sliceSeconds = DEFAULT_SLICE_SECONDS, onSlice, onChunk }: ChunkedRecorderOptions
+): ChunkedRecorder => {
+  const fallbackMimeType = pickMimeType();
+  let current: MediaRecorder | null = null;
+  let cutTimer: number | null = null;
+
+  const startChunk = () => {
+    const recorder = new MediaRecorder(stream);
+    const slices: Blob[] = [];
+    const startedAt = Date.now();
+    const info = (): ChunkInfo => ({ id: `audio_${startedAt}`, mimeType: recorder.mimeType || fallbackMimeType, startedAt });
+
+    recorder.ondataavailable = (e) => {
+      if (e.data.size === 0) return;
+      slices.push(e.data);
+      onSlice?.(info(), e.data);
+    };
+    recorder.onstop = () => {
+      if (slices.length === 0) return;
+      const chunk = info();
+      onChunk({ ...chunk, blob: new Blob(slices, { type: chunk.mimeType }), endedAt: Date.now() });
+    };
+
+    recorder.start(sliceSeconds * 1000);
+    current = recorder;
+  };
+
+  const cut = () => {
+    const previous = current;
+    startChunk();
+    if (previous && previous.state !== 'inactive') previous.stop();
+  };
+
+  startChunk();
+  if (chunkSeconds) {
+    cutTimer = window.setInterval(cut, chunkSeconds * 1000);
+  }
+
+  return {
+    flush: () => {
+      if (current && current.state === 'recording') current.requestData();
+    },
+    stop: () => {
+      if (cutTimer) clearInterval(cutTimer);
+      if (current && current.state !== 'inactive') current.stop();
+      current = null;
+    }
+  };
+};
+
+export const blobToBase64 = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve((reader.result as string).split(',')[1]);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+};
@@ -0,0 +1,247 @@
+import { DailyLog, RetentionAction, RetentionPolicy, RetentionRun } from './types';
+import {
+  getAllLogs, getLog, updateLog, getAudioSizes, archiveStoredAudio, deleteAudio, deleteDayData,
+  getRetentionRun, saveRetentionRun
+} from './db';
+import { canArchiveAudio, encodeArchiveAudio } from './archiveAudio';
+import { todayKey, recordingStartFromId } from './localTime';
+
+// Retention rules over stored days and audio. A run is planned up front (the same plan is the dry-run
+// preview), stored, and worked through one action at a time, so a closed tab resumes where it stopped.
+// Only audio that is on a day counts: audio still waiting for transcription is never touched.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MB = 1024 * 1024;
+
+const ageInDays = (date: string, today: string) =>
+  Math.round((Date.parse(`${today}T00:00:00Z`) - Date.parse(`${date}T00:00:00Z`)) / DAY_MS);
+
+// "After 30 days" spares the 30th day, as the old fixed rule did
+const isPast = (limit: number | null, age: number) => limit !== null && age > limit;
+
+export const isProtectedDay = (log: DailyLog, policy: RetentionPolicy) =>
+  (policy.keepStarredDays && !!log.starred) ||
+  (policy.keepBookmarkedDays && log.transcripts.some(s => (s.bookmarks?.length || 0) > 0));
+
+export interface RetentionPlan {
+  actions: RetentionAction[];
+  audioBytes: number; // Audio on days now
+  freedBytes: number; // By the deletes; what re-encoding saves is only known once it has run
+  overCapBytes: number; // Still over the cap afterwards because the rest is protected or recent
+}
+
+interface Recording {
+  audioId: string;
+  dates: string[];
+  newest: string; // Last day it is on; its age is the age of that day
+  bytes: number;
+  archived: boolean;
+  isProtected: boolean;
+}
+
+export const planRetention = (
+  logs: DailyLog[],
+  sizes: Map<string, { bytes: number; archived: boolean }>,
+  policy: RetentionPolicy,
+  today: string = todayKey()
+): RetentionPlan => {
+  const byDate = new Map(logs.map(log => [log.date, log]));
+  const datesOf = new Map<string, Set<string>>();
+  logs.forEach(log => log.transcripts.forEach(segment => {
+    if (!segment.audioId) return;
+    if (!datesOf.has(segment.audioId)) datesOf.set(segment.audioId, new Set());
+    datesOf.get(segment.audioId)!.add(log.date);
+  }));
+
+  const recordings: Recording[] = [...datesOf.entries()]
+    .map(([audioId, dates]) => {
+      const sorted = [...dates].sort();
+      return {
+        audioId,
+        dates: sorted,
+        newest: sorted[sorted.length - 1],
+        bytes: sizes.get(audioId)?.bytes || 0,
+        archived: sizes.get(audioId)?.archived ?? true,
+        isProtected: sorted.some(date => isProtectedDay(byDate.get(date)!, policy))
+      };
+    })
+    .sort((a, b) => a.newest.localeCompare(b.newest) ||
+      (recordingStartFromId(a.audioId) || 0) - (recordingStartFromId(b.audioId) || 0));
+  const audioBytes = recordings.reduce((sum, r) => sum + r.bytes, 0);
+
+  const actions: RetentionAction[] = [];
+  const removed = new Set<string>();
+
+  const deletedDays = new Set(logs
+    .filter(log => isPast(policy.deleteDaysAfterDays, ageInDays(log.date, today)) && !isProtectedDay(log, policy))
+    .map(log => log.date));
+  [...deletedDays].sort().forEach(date => {
+    // A recording that runs into a kept day stays with it
+    const audio = recordings.filter(r => !removed.has(r.audioId) && r.dates.includes(date) && r.dates.every(d => deletedDays.has(d)));
+    audio.forEach(r => removed.add(r.audioId));
+    actions.push({ kind: 'deleteDay', date, audioIds: audio.map(r => r.audioId), bytes: audio.reduce((sum, r) => sum + r.bytes, 0) });
+  });
+
+  const kept = recordings.filter(r => !removed.has(r.audioId) && !r.dates.some(d => deletedDays.has(d)));
+  const deleteAudio = (r: Recording, reason: 'age' | 'cap') => {
+    removed.add(r.audioId);
+    actions.push({ kind: 'deleteAudio', audioId: r.audioId, dates: r.dates, bytes: r.bytes, reason });
+  };
+  kept
+    .filter(r => !r.isProtected && isPast(policy.deleteAudioAfterDays, ageInDays(r.newest, today)))
+    .forEach(r => deleteAudio(r, 'age'));
+
+  let overCapBytes = 0;
+  if (policy.maxAudioMB !== null) {
+    let total = recordings.filter(r => !removed.has(r.audioId)).reduce((sum, r) => sum + r.bytes, 0);
+    const cap = policy.maxAudioMB * MB;
+    for (const r of kept) {
+      if (total <= cap) break;
+      if (r.isProtected || removed.has(r.audioId)) continue;
+      deleteAudio(r, 'cap');
+      total -= r.bytes;
+    }
+    overCapBytes = Math.max(0, total - cap);
+  }
+
+  kept
+    .filter(r => !removed.has(r.audioId) && !r.isProtected && !r.archived &&
+      isPast(policy.compressAudioAfterDays, ageInDays(r.newest, today)))
+    .forEach(r => actions.push({ kind: 'compress', audioId: r.audioId, dates: r.dates, bytes: r.bytes }));
+
+  const freedBytes = actions.reduce((sum, a) => a.kind === 'compress' ? sum : sum + a.bytes, 0);
+  return { actions, audioBytes, freedBytes, overCapBytes };
+};
+
+// The dry run: what a run with these rules would do right now. Where nothing can re-encode, that rule is idle.
+export const previewRetention = async (policy: RetentionPolicy, inBackground = false): Promise<RetentionPlan> =>
+  planRetention(await getAllLogs(), await getAudioSizes(),
+    canArchiveAudio(inBackground) ? policy : { ...policy, compressAudioAfterDays: null });
+
+// A day starred or bookmarked since the run was planned is spared, its audio included
+const stillApplies = async (action: RetentionAction, policy: RetentionPolicy) => {
+  const dates = action.kind === 'deleteDay' ? [action.date] : action.dates;
+  const logs = await Promise.all(dates.map(getLog));
+  return logs.every(log => !log || !isProtectedDay(log, policy));
+};
+
+// Returns the bytes freed
+const applyAction = async (action: RetentionAction, inBackground: boolean): Promise<number> => {
+  switch (action.kind) {
+    case 'deleteDay':
+      await deleteDayData(action.date, action.audioIds);
+      return action.bytes;
+    case 'deleteAudio':
+      // Audio first: if the run stops in between, the next plan still sees the day pointing at it
+      await deleteAudio(action.audioId);
+      for (const date of action.dates) {
+        await updateLog(date, log => ({
+          ...log,
+          transcripts: log.transcripts.map(s => {
+            if (s.audioId !== action.audioId) return s;
+            const { audioId, isCompressed, ...rest } = s;
+            return rest;
+          })
+        }));
+      }
+      return action.bytes;
+    case 'compress': {
+      // One file that won't decode must not hold up the rest of the run; it stays as it is
+      let saved: number;
+      try {
+        saved = await archiveStoredAudio(action.audioId, blob => encodeArchiveAudio(blob, inBackground));
+      } catch (e) {
+        console.warn(`Audio ${action.audioId} was not re-encoded:`, e);
+        return 0;
+      }
+      for (const date of action.dates) {
+        await updateLog(date, log => ({
+          ...log,
+          transcripts: log.transcripts.map(s => s.audioId === action.audioId ? { ...s, isCompressed: true } : s)
+        }));
+      }
+      return saved;
+    }
+  }
+};
+
+export interface RetentionReport {
+  actions: number; // Carried out; skipped ones don't count
+  freedBytes: number;
+}
+
+const samePolicy = (a: RetentionPolicy, b: RetentionPolicy) => JSON.stringify(a) === JSON.stringify(b);
+
+export interface RetentionRunOptions {
+  inBackground?: boolean; // Nobody is waiting on it, as at launch: re-encoding that runs in real time is left out
+  onProgress?: (done: number, total: number) => void;
+}
+
+interface ActiveRun {
+  policy: RetentionPolicy;
+  inBackground: boolean;
+  stopped: boolean; // Set when a call with other rules takes over
+  report: Promise<RetentionReport>;
+}
+
+let activeRun: ActiveRun | null = null;
+
+const execute = async (policy: RetentionPolicy, options: RetentionRunOptions, isStopped: () => boolean): Promise<RetentionReport> => {
+  const inBackground = !!options.inBackground;
+  let run = await getRetentionRun();
+  // A run planned in the background is planned again in the foreground, where more can be re-encoded
+  if (!run || !samePolicy(run.policy, policy) || (run.inBackground && !inBackground)) {
+    const plan = await previewRetention(policy, inBackground);
+    if (plan.actions.length === 0) {
+      if (run) await saveRetentionRun(null);
+      return { actions: 0, freedBytes: 0 };
+    }
+    run = { policy, actions: plan.actions, done: 0, freedBytes: 0, startedAt: Date.now(), ...(inBackground ? { inBackground } : {}) };
+    await saveRetentionRun(run);
+  }
+
+  let applied = 0;
+  for (let i = run.done; i < run.actions.length; i++) {
+    // The stored run stays for the next one, which sees other rules and plans afresh
+    if (isStopped()) return { actions: applied, freedBytes: run.freedBytes };
+    const action = run.actions[i];
+    let freed = 0;
+    if (await stillApplies(action, policy)) {
+      freed = await applyAction(action, inBackground);
+      applied++;
+    }
+    run = { ...run, done: i + 1, freedBytes: run.freedBytes + freed };
+    await saveRetentionRun(run);
+    options.onProgress?.(run.done, run.actions.length);
+  }
+  await saveRetentionRun(null);
+  return { actions: applied, freedBytes: run.freedBytes };
+};
+
+// Runs (or resumes) the retention job. A call with the same rules while one is going joins it, unless it
+// is in the foreground and the one going isn't; otherwise the one going stops after the action in hand
+// and this one runs after it.
+export const runRetention = (policy: RetentionPolicy, options: RetentionRunOptions = {}): Promise<RetentionReport> => {
+  const inBackground = !!options.inBackground;
+  if (activeRun && samePolicy(activeRun.policy, policy) && (inBackground || !activeRun.inBackground)) return activeRun.report;
+  const previous = activeRun;
+  if (previous) previous.stopped = true;
+  const next: ActiveRun = {
+    policy,
+    inBackground,
+    stopped: false,
+    report: (previous ? previous.report.catch(() => undefined) : Promise.resolve())
+      .then(() => execute(policy, options, () => next.stopped))
+      .finally(() => { if (activeRun === next) activeRun = null; })
+  };
+  activeRun = next;
+  return next.report;
+};
+
+export const setDayStarred = async (date: string, starred: boolean): Promise<void> => {
+  await updateLog(date, log => {
+    if (!!log.starred === starred) return log;
+    const { starred: _, ...rest } = log;
+    return starred ? { ...rest, starred: true } : rest;
+  });
+};
@@ -0,0 +1,288 @@
+import { getTermEntries, getTermEntriesByPrefix, getIndexedDocs } from './db';
+import { IndexedDoc, IndexedSegment, Posting, tokenize } from './searchIndex';
+import { semanticSearch, SemanticHit } from './embeddings';
+
+// Query syntax, all parts optional and combinable:
+//   budget review          both words, anywhere in the segment
+//   "budget review"        exact phrase
+//   arch*                  prefix
+//   -lunch  -"small talk"  exclude
+//   speaker:"Person 1"     speaker:you     -speaker:you
+//   date:2026-10           date:2026-10..2026-11   date:2026-10-05..   date:..2026-09
+//   topic:architecture     matches the day's summary topics or the segment's own   -topic:lunch
+// With semantic search on, the free text is also matched by meaning and both rankings are fused.
+
+type ClauseKind = 'term' | 'prefix' | 'phrase';
+
+interface TextClause {
+  kind: ClauseKind;
+  tokens: string[];
+  negate: boolean;
+}
+
+export interface ParsedQuery {
+  clauses: TextClause[];
+  speakers: string[];
+  excludedSpeakers: string[];
+  topics: string[];
+  excludedTopics: string[];
+  dateFrom?: string;
+  dateTo?: string;
+}
+
+export interface SearchHit {
+  date: string;
+  segmentId: string;
+  speaker: string;
+  startTime: string;
+  score: number;
+  related?: boolean; // Found by meaning only, none of the keywords matched
+}
+
+export interface SearchOptions {
+  semantic?: boolean;
+  offlineMode?: boolean;
+  matchAny?: boolean; // Any word may match instead of all, for natural-language questions
+}
+
+export interface SearchResults {
+  hits: SearchHit[];
+  total: number;
+  // Concrete indexed terms that matched (prefixes expanded), for highlighting
+  matchedTerms: string[];
+}
+
+const MAX_HITS = 200;
+const MAX_PREFIX_EXPANSIONS = 200;
+const PHRASE_BOOST = 1.5;
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+const RRF_K = 60; // Reciprocal rank fusion constant; dampens the influence of the very top ranks
+
+const QUERY_PART = /(-?)(?:([a-z]+):)?(?:"([^"]*)"?|(\S+))/gi;
+
+const parseDateRange = (value: string): { from?: string; to?: string } => {
+  const [from, to] = value.includes('..') ? value.split('..') : [value, value];
+  return { from: from || undefined, to: to || undefined };
+};
+
+export const parseQuery = (input: string): ParsedQuery => {
+  const parsed: ParsedQuery = { clauses: [], speakers: [], excludedSpeakers: [], topics: [], excludedTopics: [] };
+
+  for (const match of input.matchAll(QUERY_PART)) {
+    const [raw, minus, field, quoted, bare] = match;
+    const value = quoted ?? bare ?? '';
+    const negate = minus === '-';
+
+    switch (field?.toLowerCase()) {
+      case 'speaker':
+        if (value) (negate ? parsed.excludedSpeakers : parsed.speakers).push(value.toLowerCase());
+        continue;
+      case 'topic':
+        if (value) (negate ? parsed.excludedTopics : parsed.topics).push(value.toLowerCase());
+        continue;
+      case 'date': {
+        const { from, to } = parseDateRange(value);
+        parsed.dateFrom = from;
+        parsed.dateTo = to;
+        continue;
+      }
+    }
+
+    // Unknown "field:" prefixes are just text
+    const text = field && !quoted ? raw.replace(/^-/, '') : value;
+    const tokens = tokenize(text);
+    if (tokens.length === 0) continue;
+
+    if (quoted !== undefined && tokens.length > 1) {
+      parsed.clauses.push({ kind: 'phrase', tokens, negate });
+    } else if (!quoted && text.endsWith('*') && tokens.length === 1) {
+      parsed.clauses.push({ kind: 'prefix', tokens, negate });
+    } else {
+      tokens.forEach(token => parsed.clauses.push({ kind: 'term', tokens: [token], negate }));
+    }
+  }
+  return parsed;
+};
+
+export const isEmptyQuery = (query: ParsedQuery) =>
+  query.clauses.length === 0 && query.speakers.length === 0 && query.excludedSpeakers.length === 0 &&
+  query.topics.length === 0 && query.excludedTopics.length === 0 && !query.dateFrom && !query.dateTo;
+
+const segmentKey = (date: string, segmentId: string) => `${date}|${segmentId}`;
+
+// Per matching segment: how many times the clause occurs in it
+type ClauseMatches = Map<string, number>;
+
+const postingsByKey = (postings: Posting[]) => new Map(postings.map(p => [segmentKey(p.date, p.segmentId), p]));
+
+const resolveClause = async (clause: TextClause, matchedTerms: Set<string>): Promise<ClauseMatches> => {
+  const matches: ClauseMatches = new Map();
+
+  if (clause.kind === 'prefix') {
+    const entries = await getTermEntriesByPrefix(clause.tokens[0], MAX_PREFIX_EXPANSIONS);
+    entries.forEach(entry => {
+      if (!clause.negate) matchedTerms.add(entry.term);
+      entry.postings.forEach(p => {
+        const key = segmentKey(p.date, p.segmentId);
+        matches.set(key, (matches.get(key) || 0) + p.positions.length);
+      });
+    });
+    return matches;
+  }
+
+  const entries = await getTermEntries(clause.tokens);
+  if (clause.tokens.some(token => !entries.has(token))) return matches;
+  if (!clause.negate) clause.tokens.forEach(token => matchedTerms.add(token));
+
+  if (clause.kind === 'term') {
+    entries.get(clause.tokens[0])!.postings.forEach(p => matches.set(segmentKey(p.date, p.segmentId), p.positions.length));
+    return matches;
+  }
+
+  // Phrase: every token present, at consecutive positions
+  const [first, ...rest] = clause.tokens.map(token => postingsByKey(entries.get(token)!.postings));
+  first.forEach((posting, key) => {
+    const following = rest.map(map => map.get(key));
+    if (following.some(p => !p)) return;
+    const positionSets = following.map(p => new Set(p!.positions));
+    const count = posting.positions.filter(start => positionSets.every((set, i) => set.has(start + i + 1))).length;
+    if (count > 0) matches.set(key, count);
+  });
+  return matches;
+};
+
+const inDateRange = (date: string, query: ParsedQuery) =>
+  (!query.dateFrom || date >= query.dateFrom) &&
+  (!query.dateTo || date.slice(0, query.dateTo.length) <= query.dateTo);
+
+const hasTopic = (doc: IndexedDoc, segment: IndexedSegment, topic: string) =>
+  doc.topics.some(t => t.includes(topic)) || segment.topics.some(t => t.includes(topic));
+
+const matchesFilters = (doc: IndexedDoc, segment: IndexedSegment, query: ParsedQuery) => {
+  const speaker = segment.speaker.toLowerCase();
+  return inDateRange(doc.date, query) &&
+    (query.speakers.length === 0 || query.speakers.includes(speaker)) &&
+    !query.excludedSpeakers.includes(speaker) &&
+    query.topics.every(topic => hasTopic(doc, segment, topic)) &&
+    !query.excludedTopics.some(topic => hasTopic(doc, segment, topic));
+};
+
+const semanticHitsFor = async (query: ParsedQuery, options: SearchOptions): Promise<SemanticHit[]> => {
+  const text = query.clauses.filter(c => !c.negate).map(c => c.tokens.join(' ')).join(' ');
+  if (!options.semantic || !text) return [];
+  try {
+    return await semanticSearch(text, !!options.offlineMode);
+  } catch (e) {
+    console.warn("Semantic search unavailable, using keywords only", e);
+    return [];
+  }
+};
+
+export const runSearch = async (input: string, options: SearchOptions = {}): Promise<SearchResults> => {
+  const query = parseQuery(input);
+  if (isEmptyQuery(query)) return { hits: [], total: 0, matchedTerms: [] };
+
+  const docs = await getIndexedDocs();
+  const segments = new Map<string, { doc: IndexedDoc; segment: IndexedSegment }>();
+  let totalLength = 0;
+  docs.forEach(doc => doc.segments.forEach(segment => {
+    segments.set(segmentKey(doc.date, segment.id), { doc, segment });
+    totalLength += segment.length;
+  }));
+  const segmentCount = Math.max(1, segments.size);
+  const averageLength = totalLength / segmentCount || 1;
+
+  const matchedTerms = new Set<string>();
+  const [resolved, semantic] = await Promise.all([
+    Promise.all(query.clauses.map(async clause => ({ clause, matches: await resolveClause(clause, matchedTerms) }))),
+    semanticHitsFor(query, options)
+  ]);
+  const positive = resolved.filter(r => !r.clause.negate);
+  const negative = resolved.filter(r => r.clause.negate);
+
+  // All positive clauses must match (or any, with matchAny); with only filters, every segment is a candidate
+  let candidates: string[];
+  if (positive.length === 0) candidates = [...segments.keys()];
+  else if (options.matchAny) candidates = [...new Set(positive.flatMap(r => [...r.matches.keys()]))];
+  else candidates = [...positive[0].matches.keys()].filter(key => positive.every(r => r.matches.has(key)));
+
+  const passes = (key: string) => {
+    const entry = segments.get(key);
+    return !!entry && matchesFilters(entry.doc, entry.segment, query) && !negative.some(r => r.matches.has(key));
+  };
+  candidates = candidates.filter(passes);
+
+  let hits: SearchHit[] = candidates.map(key => {
+    const { doc, segment } = segments.get(key)!;
+    const score = positive.reduce((sum, { clause, matches }) => {
+      const frequency = matches.get(key) || 0;
+      const df = matches.size;
+      const idf = Math.log(1 + (segmentCount - df + 0.5) / (df + 0.5));
+      const norm = frequency + BM25_K1 * (1 - BM25_B + BM25_B * segment.length / averageLength);
+      const weight = clause.kind === 'phrase' ? PHRASE_BOOST * clause.tokens.length : 1;
+      return sum + weight * idf * (frequency * (BM25_K1 + 1)) / norm;
+    }, 0);
+    return { date: doc.date, segmentId: segment.id, speaker: segment.speaker, startTime: segment.startTime, score };
+  });
+
+  // Ties (and filter-only queries) fall back to newest first
+  const byScore = (a: SearchHit, b: SearchHit) => b.score - a.score || b.date.localeCompare(a.date) || b.startTime.localeCompare(a.startTime);
+  hits.sort(byScore);
+
+  const related = semantic.filter(h => passes(segmentKey(h.date, h.segmentId)));
+  if (related.length > 0) {
+    // BM25 and cosine scores aren't on the same scale, so the two lists are fused by rank instead
+    const fused = new Map<string, SearchHit>();
+    hits.forEach((hit, rank) => fused.set(segmentKey(hit.date, hit.segmentId), { ...hit, score: 1 / (RRF_K + rank) }));
+    related.forEach((hit, rank) => {
+      const key = segmentKey(hit.date, hit.segmentId);
+      const existing = fused.get(key);
+      if (existing) {
+        existing.score += 1 / (RRF_K + rank);
+      } else {
+        const { segment } = segments.get(key)!;
+        fused.set(key, { date: hit.date, segmentId: hit.segmentId, speaker: segment.speaker, startTime: segment.startTime, score: 1 / (RRF_K + rank), related: true });
+      }
+    });
+    hits = [...fused.values()].sort(byScore);
+  }
+
+  return { hits: hits.slice(0, MAX_HITS), total: hits.length, matchedTerms: [...matchedTerms] };
+};
+
+export interface HighlightPart {
+  text: string;
+  match: boolean;
+}
+
+const SNIPPET_LENGTH = 220;
+
+// Splits text into plain and matched runs, trimmed to a window around the first match
+export const highlight = (text: string, terms: string[]): HighlightPart[] => {
+  const termSet = new Set(terms);
+  const ranges: [number, number][] = [];
+  for (const m of text.matchAll(/[\p{L}\p{M}\p{N}]+/gu)) {
+    if (termSet.has(m[0].toLowerCase())) ranges.push([m.index!, m.index! + m[0].length]);
+  }
+
+  let start = 0;
+  let end = text.length;
+  if (text.length > SNIPPET_LENGTH) {
+    const anchor = ranges[0]?.[0] ?? 0;
+    start = Math.max(0, anchor - SNIPPET_LENGTH / 3);
+    end = Math.min(text.length, start + SNIPPET_LENGTH);
+  }
+
+  const parts: HighlightPart[] = [];
+  let cursor = start;
+  ranges.filter(([s, e]) => s >= start && e <= end).forEach(([s, e]) => {
+    if (s > cursor) parts.push({ text: text.slice(cursor, s), match: false });
+    parts.push({ text: text.slice(s, e), match: true });
+    cursor = e;
+  });
+  if (cursor < end) parts.push({ text: text.slice(cursor, end), match: false });
+  if (start > 0) parts.unshift({ text: '…', match: false });
+  if (end < text.length) parts.push({ text: '…', match: false });
+  return parts;
+};
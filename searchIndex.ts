@@ -0,0 +1,102 @@
+import { DailyLog } from './types';
+
+// Inverted index over transcript text. It is written in the same IndexedDB transaction as the log
+// itself (see commitLog in db.ts), so the index can never drift from what is stored. Postings are stored
+// per term and day, so saving a day only reads and writes that day's records, however large the archive.
+
+export const STORE_SEARCH_POSTINGS = 'search_postings';
+export const STORE_SEARCH_DOCS = 'search_docs';
+// One record per term across all days; replaced by STORE_SEARCH_POSTINGS in schema version 15
+export const STORE_SEARCH_TERMS = 'search_terms';
+
+export interface Posting {
+  date: string;
+  segmentId: string;
+  positions: number[]; // Token positions within the segment, used for phrase queries
+}
+
+// Every posting of a term, gathered from its per-day records at query time
+export interface TermEntry {
+  term: string;
+  postings: Posting[];
+}
+
+// What is stored: one term's postings within one day
+export interface TermDayEntry {
+  term: string;
+  date: string;
+  postings: Posting[];
+}
+
+export interface IndexedSegment {
+  id: string;
+  speaker: string;
+  startTime: string;
+  length: number; // Token count, for BM25 length normalization
+  topics: string[]; // The segment's own topics, lowercased; the day's are on the IndexedDoc
+}
+
+// One per day: what the day contributed to the index, so it can be removed again on re-index
+export interface IndexedDoc {
+  date: string;
+  terms: string[];
+  segments: IndexedSegment[];
+  topics: string[];
+}
+
+const TOKEN_PATTERN = /[\p{L}\p{M}\p{N}]+/gu;
+
+export const tokenize = (text: string): string[] => text.toLowerCase().match(TOKEN_PATTERN) || [];
+
+export const buildPostings = (log: DailyLog | null): Map<string, Posting[]> => {
+  const byTerm = new Map<string, Posting[]>();
+  if (!log) return byTerm;
+  for (const segment of log.transcripts) {
+    const positions = new Map<string, number[]>();
+    tokenize(segment.text).forEach((token, i) => {
+      if (!positions.has(token)) positions.set(token, []);
+      positions.get(token)!.push(i);
+    });
+    positions.forEach((list, term) => {
+      if (!byTerm.has(term)) byTerm.set(term, []);
+      byTerm.get(term)!.push({ date: log.date, segmentId: segment.id, positions: list });
+    });
+  }
+  return byTerm;
+};
+
+export interface LogIndexUpdate {
+  doc: IndexedDoc | null; // null: the day drops out of the index
+  put: TermDayEntry[];
+  remove: string[]; // Terms the day no longer contains
+}
+
+// Replaces everything indexed for `date` with the contents of `log` (or removes it when log is null).
+// `existing` holds the day's current records by term; unchanged ones are left alone.
+export const planLogIndex = (
+  date: string,
+  log: DailyLog | null,
+  postings: Map<string, Posting[]>,
+  existing: Map<string, TermDayEntry>
+): LogIndexUpdate => {
+  const put: TermDayEntry[] = [];
+  postings.forEach((list, term) => {
+    const current = existing.get(term);
+    if (!current || JSON.stringify(current.postings) !== JSON.stringify(list)) put.push({ term, date, postings: list });
+  });
+  const remove = [...existing.keys()].filter(term => !postings.has(term));
+
+  const doc: IndexedDoc | null = log && {
+    date,
+    terms: [...postings.keys()],
+    segments: log.transcripts.map(s => ({
+      id: s.id,
+      speaker: s.speaker,
+      startTime: s.startTime,
+      length: tokenize(s.text).length,
+      topics: (s.topics || []).map(t => t.name.toLowerCase())
+    })),
+    topics: (log.summary?.topics || []).map(t => t.toLowerCase())
+  };
+  return { doc, put, remove };
+};
@@ -0,0 +1,162 @@
+import { DailyLog, ConversationSegment, MachineSegment } from './types';
+import { getAllLogs, updateLog, deleteAudio } from './db';
+import { localClock } from './localTime';
+import { lexiconSentiment } from './sentiment';
+
+// Hand edits to transcripts. The first edit of a segment snapshots what the transcriber produced into
+// `machine`; segments that come out of a split or merge carry the snapshots of everything they came
+// from, so reverting any one of them restores the original segments exactly. Changed text is rescored
+// with the lexicon, since a model's reading was of the old words.
+
+export type SegmentEdit =
+  | { kind: 'text'; segmentId: string; text: string }
+  | { kind: 'split'; segmentId: string; text: string; at: number } // `text` may include unsaved edits
+  | { kind: 'merge'; segmentId: string } // With the segment right after it
+  | { kind: 'delete'; segmentId: string }
+  | { kind: 'revert'; segmentId: string };
+
+const snapshot = (segment: ConversationSegment): MachineSegment[] => segment.machine || [{
+  id: segment.id,
+  startTime: segment.startTime,
+  offsetInAudio: segment.offsetInAudio,
+  duration: segment.duration,
+  speaker: segment.speakerLabel ?? segment.speaker,
+  text: segment.text,
+  confidence: segment.confidence,
+  ...(segment.recordedAt !== undefined ? { recordedAt: segment.recordedAt, timeZone: segment.timeZone } : {})
+}];
+
+const parseClock = (time: string) => {
+  const [h = 0, m = 0, s = 0] = time.split(':').map(Number);
+  return h * 3600 + m * 60 + s;
+};
+
+const formatClock = (seconds: number) => {
+  const total = Math.round(seconds) % 86400;
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return `${pad(Math.floor(total / 3600))}:${pad(Math.floor(total / 60) % 60)}:${pad(total % 60)}`;
+};
+
+const findIndex = (log: DailyLog, segmentId: string) => {
+  const index = log.transcripts.findIndex(s => s.id === segmentId);
+  if (index < 0) throw new Error("Segment not found");
+  return index;
+};
+
+const replaceAt = (log: DailyLog, index: number, count: number, ...segments: ConversationSegment[]): DailyLog => {
+  const transcripts = [...log.transcripts];
+  transcripts.splice(index, count, ...segments);
+  return { ...log, transcripts };
+};
+
+export const canMergeWithNext = (log: DailyLog, segmentId: string) => {
+  const index = log.transcripts.findIndex(s => s.id === segmentId);
+  const next = log.transcripts[index + 1];
+  // Offsets are relative to the segment's own audio, so only neighbours from the same recording can join
+  return index >= 0 && !!next && next.audioId === log.transcripts[index].audioId;
+};
+
+// Pure transform, so the caller can apply it inside an atomic log update
+export const applyEdit = (log: DailyLog, edit: SegmentEdit): DailyLog => {
+  const index = findIndex(log, edit.segmentId);
+  const segment = log.transcripts[index];
+
+  switch (edit.kind) {
+    case 'text': {
+      const text = edit.text.trim();
+      if (!text) throw new Error("Text can't be empty; delete the segment instead");
+      if (text === segment.text) return log;
+      return replaceAt(log, index, 1, { ...segment, text, machine: snapshot(segment), sentiment: lexiconSentiment(text) });
+    }
+
+    case 'split': {
+      const before = edit.text.slice(0, edit.at).trim();
+      const after = edit.text.slice(edit.at).trim();
+      if (!before || !after) throw new Error("Put the cursor between two words to split");
+      // No word timings, so the boundary is placed by how much of the text falls on each side
+      const firstDuration = segment.duration * (edit.at / edit.text.length);
+      const machine = snapshot(segment);
+      const second: ConversationSegment = {
+        ...segment,
+        id: crypto.randomUUID(),
+        text: after,
+        offsetInAudio: segment.offsetInAudio + firstDuration,
+        startTime: formatClock(parseClock(segment.startTime) + firstDuration),
+        duration: segment.duration - firstDuration,
+        machine,
+        sentiment: lexiconSentiment(after)
+      };
+      if (segment.recordedAt !== undefined) {
+        second.recordedAt = Math.round(segment.recordedAt + firstDuration * 1000);
+        second.startTime = localClock(second.recordedAt, segment.timeZone);
+      }
+      return replaceAt(log, index, 1, { ...segment, text: before, duration: firstDuration, machine, sentiment: lexiconSentiment(before) }, second);
+    }
+
+    case 'merge': {
+      if (!canMergeWithNext(log, segment.id)) throw new Error("Only neighbouring segments from the same recording can be merged");
+      const next = log.transcripts[index + 1];
+      const machine = [...snapshot(segment), ...snapshot(next)].filter((m, i, all) => all.findIndex(o => o.id === m.id) === i);
+      const text = `${segment.text} ${next.text}`;
+      const topics = [...(segment.topics || []), ...(next.topics || [])].filter((t, i, all) => all.findIndex(o => o.name === t.name) === i);
+      const bookmarks = [...(segment.bookmarks || []), ...(next.bookmarks || [])].filter((b, i, all) => all.findIndex(o => o.id === b.id) === i);
+      return replaceAt(log, index, 2, {
+        ...segment,
+        text,
+        duration: Math.max(segment.duration, next.offsetInAudio + next.duration - segment.offsetInAudio),
+        confidence: Math.min(segment.confidence, next.confidence),
+        machine,
+        sentiment: lexiconSentiment(text),
+        topics: topics.length > 0 ? topics : undefined,
+        bookmarks: bookmarks.length > 0 ? bookmarks : undefined
+      });
+    }
+
+    case 'delete':
+      return replaceAt(log, index, 1);
+
+    case 'revert': {
+      if (!segment.machine) return log;
+      // Every segment sharing an original with this one goes (transitively: one half of a split may have
+      // been merged into something else later); the originals take the first one's place
+      const originals = new Set(segment.machine.map(m => m.id));
+      let derived: ConversationSegment[] = [];
+      for (let size = -1; size !== originals.size;) {
+        size = originals.size;
+        derived = log.transcripts.filter(s => s.machine?.some(m => originals.has(m.id)));
+        derived.forEach(s => s.machine!.forEach(m => originals.add(m.id)));
+      }
+      const allMachine = derived.flatMap(s => s.machine!).filter((m, i, all) => all.findIndex(o => o.id === m.id) === i);
+      const restored: ConversationSegment[] = allMachine
+        .sort((a, b) => a.offsetInAudio - b.offsetInAudio)
+        .map(m => ({
+          ...m,
+          audioId: segment.audioId,
+          isCompressed: segment.isCompressed,
+          // Topics, bookmarks and a person assigned after transcription stay
+          topics: segment.topics,
+          bookmarks: segment.bookmarks,
+          ...(segment.personId ? { personId: segment.personId, speakerLabel: m.speaker, speaker: segment.speaker } : {})
+        }));
+      const firstIndex = log.transcripts.findIndex(s => derived.includes(s));
+      const kept = log.transcripts.filter(s => !derived.includes(s));
+      kept.splice(firstIndex, 0, ...restored);
+      return { ...log, transcripts: kept };
+    }
+  }
+};
+
+export const editSegment = (date: string, edit: SegmentEdit) => updateLog(date, log => applyEdit(log, edit));
+
+// True when no segment on any day other than `segmentId` still plays from `audioId`
+export const isLastReference = async (audioId: string, segmentId: string) => {
+  const logs = await getAllLogs();
+  return !logs.some(log => log.transcripts.some(s => s.audioId === audioId && s.id !== segmentId));
+};
+
+export const deleteSegment = async (date: string, segment: ConversationSegment, removeOrphanedAudio: boolean) => {
+  await editSegment(date, { kind: 'delete', segmentId: segment.id });
+  if (removeOrphanedAudio && segment.audioId && await isLastReference(segment.audioId, segment.id)) {
+    await deleteAudio(segment.audioId);
+  }
+};
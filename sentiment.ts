@@ -0,0 +1,105 @@
+import { ConversationSegment, DailyLog, SegmentSentiment } from './types';
+
+// Sentiment on a -1 (very negative) to 1 (very positive) scale. The summary model scores segments when a
+// day is summarized; until then, and whenever the model can't, a small word lexicon stands in. Day and
+// hour values are duration-weighted means of segment scores, so they sit on the same scale across days.
+
+// AFINN-style weights, -5 to 5
+const LEXICON: Record<string, number> = {
+  // Positive
+  good: 3, great: 3, nice: 3, fine: 2, ok: 1, okay: 1, happy: 3, glad: 3, love: 3, loved: 3, lovely: 3,
+  liked: 2, enjoy: 2, enjoyed: 2, fun: 4, awesome: 4, amazing: 4, excellent: 3, fantastic: 4,
+  wonderful: 4, beautiful: 3, perfect: 3, best: 3, better: 2, excited: 3, exciting: 3, thanks: 2,
+  thank: 2, grateful: 3, proud: 2, productive: 2, success: 2, successful: 3, win: 4, won: 3, easy: 1,
+  calm: 2, relaxed: 2, relaxing: 2, pleasant: 3, cool: 1, interesting: 2, helpful: 2, progress: 2,
+  agree: 1, yes: 1, hope: 2, hopeful: 2, laugh: 1, laughed: 1, smile: 2, funny: 4, welcome: 2, solved: 2,
+  finished: 1, clear: 1, cleared: 1, impressive: 3, brilliant: 4, delighted: 3, relieved: 2, safe: 1,
+  // Negative
+  bad: -3, worse: -3, worst: -3, terrible: -3, awful: -3, horrible: -3, hate: -3, hated: -3, sad: -2,
+  angry: -3, annoyed: -2, annoying: -2, upset: -2, worried: -3, worry: -3, anxious: -2, stress: -1,
+  stressed: -2, stressful: -2, tired: -2, exhausted: -2, sick: -2, ill: -2, pain: -2, hurt: -2,
+  problem: -2, problems: -2, issue: -1, issues: -1, wrong: -2, fail: -2, failed: -2, failure: -2,
+  broken: -1, bug: -2, bugs: -2, late: -1, delay: -1, delayed: -1, difficult: -1, hard: -1, boring: -3,
+  bored: -2, disappointed: -2, disappointing: -2, frustrated: -2, frustrating: -2, confused: -2,
+  lost: -3, miss: -2, missed: -2, sorry: -1, afraid: -2, scared: -2, fear: -2, lonely: -2, cry: -1,
+  cried: -2, unfortunately: -2, mess: -2, crazy: -2, ugly: -3, stupid: -2, useless: -2,
+  argue: -2, argument: -2, fight: -1, blame: -2, cancel: -1, cancelled: -1, rough: -2, nervous: -2
+};
+
+const NEGATORS = new Set(['not', 'no', 'never', 'none', 'nothing', 'without', 'hardly', 'barely', "don't", "doesn't", "didn't", "isn't", "wasn't", "aren't", "can't", "won't", "couldn't", "wouldn't", "shouldn't"]);
+const INTENSIFIERS: Record<string, number> = { very: 1.5, really: 1.4, so: 1.3, extremely: 1.8, super: 1.5, totally: 1.4, pretty: 1.1, quite: 1.1, slightly: 0.6, bit: 0.7 };
+
+// A negator flips (and softens) the sentiment words in the few words after it
+const NEGATION_WINDOW = 3;
+const NEGATION_FACTOR = -0.75;
+// Squashes the raw sum into -1..1; a lone "good" gives 0.6, "really good" 0.74
+const NORMALIZATION_ALPHA = 15;
+
+export const lexiconScore = (text: string): number => {
+  const words = text.toLowerCase().replace(/[’]/g, "'").match(/[a-z']+/g) || [];
+  let sum = 0;
+  let negatedUntil = -1;
+  words.forEach((word, i) => {
+    if (NEGATORS.has(word)) {
+      negatedUntil = i + NEGATION_WINDOW;
+      return;
+    }
+    const weight = LEXICON[word];
+    if (!weight) return;
+    let value = weight * (INTENSIFIERS[words[i - 1]] || 1);
+    if (i <= negatedUntil) value *= NEGATION_FACTOR;
+    sum += value;
+  });
+  return sum / Math.sqrt(sum * sum + NORMALIZATION_ALPHA);
+};
+
+export const lexiconSentiment = (text: string): SegmentSentiment => ({ score: lexiconScore(text), source: 'lexicon' });
+
+// Segments from before sentiment existed (or restored from a machine snapshot) are scored on the fly
+export const segmentScore = (segment: ConversationSegment) => segment.sentiment?.score ?? lexiconScore(segment.text);
+
+// Short segments still count a little, so a day of one-liners isn't dominated by one long monologue
+const weightOf = (segment: ConversationSegment) => Math.max(1, segment.duration);
+
+const weightedMean = (segments: ConversationSegment[]): number | null => {
+  let total = 0;
+  let weights = 0;
+  segments.forEach(segment => {
+    total += segmentScore(segment) * weightOf(segment);
+    weights += weightOf(segment);
+  });
+  return weights > 0 ? total / weights : null;
+};
+
+// The normalized mood for a day, comparable across days; null when nothing was said
+export const dayMood = (log: DailyLog): number | null => weightedMean(log.transcripts);
+
+// Mood per local hour 0-23 (by startTime, like the insights), null for hours without speech
+export const hourlyMood = (segments: ConversationSegment[]): (number | null)[] => {
+  const hours: ConversationSegment[][] = Array.from({ length: 24 }, () => []);
+  segments.forEach(segment => {
+    hours[Math.min(23, Math.max(0, parseInt(segment.startTime, 10) || 0))].push(segment);
+  });
+  return hours.map(weightedMean);
+};
+
+export const moodLabel = (score: number) =>
+  score <= -0.5 ? 'Very negative' :
+  score <= -0.15 ? 'Negative' :
+  score < 0.15 ? 'Neutral' :
+  score < 0.5 ? 'Positive' : 'Very positive';
+
+// Scores come back for the segments as they were when sent; a segment edited meanwhile keeps its own
+export const applySentiment = (
+  log: DailyLog, scored: ConversationSegment[], scores: SegmentSentiment[]
+): DailyLog => {
+  const byId = new Map(scored.map((segment, i) => [segment.id, { text: segment.text, sentiment: scores[i] }]));
+  let changed = false;
+  const transcripts = log.transcripts.map(segment => {
+    const entry = byId.get(segment.id);
+    if (!entry?.sentiment || entry.text !== segment.text) return segment;
+    changed = true;
+    return { ...segment, sentiment: entry.sentiment };
+  });
+  return changed ? { ...log, transcripts } : log;
+};
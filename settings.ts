@@ -0,0 +1,39 @@
+import { AppSettings } from './types';
+import { PROVIDER_DEFAULTS } from './providers';
+
+const SETTINGS_KEY = 'daytrack_settings';
+
+export const CHUNK_MINUTE_OPTIONS = [2, 3, 4, 5];
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  continuousMode: true,
+  chunkMinutes: 3,
+  transcription: PROVIDER_DEFAULTS.transcription.gemini,
+  summary: PROVIDER_DEFAULTS.summary.gemini,
+  embedding: PROVIDER_DEFAULTS.embedding.gemini,
+  // Shrink audio after 30 days, never delete
+  retention: {
+    compressAudioAfterDays: 30,
+    deleteAudioAfterDays: null,
+    deleteDaysAfterDays: null,
+    maxAudioMB: null,
+    keepStarredDays: true,
+    keepBookmarkedDays: true
+  }
+};
+
+export const loadSettings = (): AppSettings => {
+  try {
+    const raw = localStorage.getItem(SETTINGS_KEY);
+    if (!raw) return DEFAULT_SETTINGS;
+    const stored = JSON.parse(raw);
+    return { ...DEFAULT_SETTINGS, ...stored, retention: { ...DEFAULT_SETTINGS.retention, ...stored.retention } };
+  } catch (e) {
+    console.warn("Settings could not be read, using defaults", e);
+    return DEFAULT_SETTINGS;
+  }
+};
+
+export const saveSettings = (settings: AppSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
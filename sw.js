@@ -1,4 +1,6 @@
 const CACHE_NAME = 'daytrack-v4';
+// Downloaded speech models (MODEL_CACHE in modelStore.ts); they outlive app updates
+const MODEL_CACHE = 'daytrack-models';
 const ASSETS = [
   '/',
   '/index.html',
@@ -18,7 +20,7 @@ self.addEventListener('activate', (event) => {
   event.waitUntil(
     caches.keys().then((keys) => Promise.all(
       keys.map((key) => {
-        if (key !== CACHE_NAME) return caches.delete(key);
+        if (key !== CACHE_NAME && key !== MODEL_CACHE) return caches.delete(key);
       })
     ))
   );
@@ -44,4 +46,18 @@ self.addEventListener('fetch', (event) => {
       });
     })
   );
-});
\ No newline at end of file
+});
+
+// The recording notification's Bookmark action; the page decides what to do with it (see bookmarks.ts)
+self.addEventListener('notificationclick', (event) => {
+  const at = Date.now();
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((clients) => {
+      if (event.action === 'bookmark') {
+        clients.forEach((client) => client.postMessage({ type: 'bookmark', at }));
+        return;
+      }
+      if (clients.length > 0) return clients[0].focus();
+    })
+  );
+});
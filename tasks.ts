@@ -0,0 +1,75 @@
+import { DailyLog, Task } from './types';
+import { getTasks, saveTask } from './db';
+import { tokenize } from './searchIndex';
+
+// Action items from daily summaries become tasks that persist across days. Summaries phrase the same
+// item a little differently from day to day, so matching is by word overlap rather than exact text.
+
+const SAME_TASK_SIMILARITY = 0.8;
+const SOURCE_MATCH_SIMILARITY = 0.5;
+
+const wordsOf = (text: string) => new Set(tokenize(text).filter(word => word.length > 2));
+
+const jaccard = (a: Set<string>, b: Set<string>) => {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  a.forEach(word => { if (b.has(word)) shared++; });
+  return shared / (a.size + b.size - shared);
+};
+
+export const isSameTask = (a: string, b: string) =>
+  a.trim().toLowerCase() === b.trim().toLowerCase() || jaccard(wordsOf(a), wordsOf(b)) >= SAME_TASK_SIMILARITY;
+
+// The segment that contains most of the item's words; models paraphrase, so only a clear winner counts
+const findSourceSegment = (log: DailyLog, text: string) => {
+  const words = wordsOf(text);
+  let bestId: string | undefined;
+  let bestScore = 0;
+  log.transcripts.forEach(segment => {
+    const segmentWords = wordsOf(segment.text);
+    let shared = 0;
+    words.forEach(word => { if (segmentWords.has(word)) shared++; });
+    const score = words.size > 0 ? shared / words.size : 0;
+    if (score >= SOURCE_MATCH_SIMILARITY && score > bestScore) {
+      bestId = segment.id;
+      bestScore = score;
+    }
+  });
+  return bestId;
+};
+
+// Skips items already tracked as open tasks, and items this day already produced (so regenerating a
+// summary doesn't bring back a task that was completed in the meantime). Returns the new tasks.
+export const promoteActionItems = async (log: DailyLog): Promise<Task[]> => {
+  const items = log.summary?.actionItems || [];
+  if (items.length === 0) return [];
+  const tasks = await getTasks();
+  const known = tasks.filter(t => t.status === 'open' || t.sourceDate === log.date);
+  const added: Task[] = [];
+
+  for (const text of items) {
+    if ([...known, ...added].some(t => isSameTask(t.text, text))) continue;
+    const now = Date.now();
+    const task: Task = {
+      id: crypto.randomUUID(),
+      text: text.trim(),
+      status: 'open',
+      sourceDate: log.date,
+      sourceSegmentId: findSourceSegment(log, text),
+      createdAt: now,
+      updatedAt: now
+    };
+    await saveTask(task);
+    added.push(task);
+  }
+  return added;
+};
+
+export const updateTask = async (task: Task, changes: Partial<Pick<Task, 'text' | 'status' | 'dueDate' | 'notes'>>): Promise<Task> => {
+  const next: Task = { ...task, ...changes, updatedAt: Date.now() };
+  if (changes.status) next.completedAt = changes.status === 'done' ? Date.now() : undefined;
+  await saveTask(next);
+  return next;
+};
+
+export const isOverdue = (task: Task, today: string) => task.status === 'open' && !!task.dueDate && task.dueDate < today;
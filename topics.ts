@@ -0,0 +1,140 @@
+import { ConversationSegment, DailyLog, SegmentTopic } from './types';
+import { updateLog } from './db';
+import { tokenize } from './searchIndex';
+
+// Topics on segments. Automatic ones come from the day's summary topics, matched against each segment's
+// words when the day is summarized; hand-added ones are kept through re-tagging. Names are compared by
+// their words, so "System Architecture", "system architectures" and "system arch" are one topic.
+
+const FILLER_WORDS = new Set(['the', 'a', 'an', 'and', 'or', 'of', 'for', 'to', 'in', 'on', 'with', 'about']);
+
+// Prefixes shorter than this are too ambiguous to count as an abbreviation
+const MIN_PREFIX = 4;
+
+const singular = (word: string) =>
+  word.length > 4 && word.endsWith('ies') ? `${word.slice(0, -3)}y` :
+  word.length > 3 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word;
+
+export const topicWords = (name: string) => tokenize(name).filter(word => !FILLER_WORDS.has(word)).map(singular);
+
+const sameWord = (a: string, b: string) =>
+  a === b || (Math.min(a.length, b.length) >= MIN_PREFIX && (a.startsWith(b) || b.startsWith(a)));
+
+export const sameTopic = (a: string, b: string) => {
+  const wordsA = topicWords(a);
+  const wordsB = topicWords(b);
+  return wordsA.length > 0 && wordsA.length === wordsB.length && wordsA.every((word, i) => sameWord(word, wordsB[i]));
+};
+
+// The known spelling for a typed or generated name, so stored names converge on one form
+export const canonicalTopic = (name: string, known: string[]) => known.find(k => sameTopic(k, name)) || name.trim();
+
+// Maps every name to its group's label: the spelling used most often, the longest one on a tie
+export const topicLabels = (names: string[]): Map<string, string> => {
+  const counts = new Map<string, number>();
+  names.forEach(name => {
+    const trimmed = name.trim();
+    if (topicWords(trimmed).length > 0) counts.set(trimmed, (counts.get(trimmed) || 0) + 1);
+  });
+  const groups: { label: string; members: string[] }[] = [];
+  [...counts.entries()]
+    .sort((a, b) => b[1] - a[1] || b[0].length - a[0].length || a[0].localeCompare(b[0]))
+    .forEach(([name]) => {
+      const group = groups.find(g => g.members.some(member => sameTopic(member, name)));
+      if (group) group.members.push(name);
+      else groups.push({ label: name, members: [name] });
+    });
+  const labels = new Map<string, string>();
+  groups.forEach(group => group.members.forEach(member => labels.set(member, group.label)));
+  return labels;
+};
+
+export const segmentTopicNames = (segment: ConversationSegment) => (segment.topics || []).map(t => t.name);
+
+// Summary topics and segment topics alike
+export const allTopicNames = (logs: DailyLog[]) =>
+  logs.flatMap(log => [...(log.summary?.topics || []), ...log.transcripts.flatMap(segmentTopicNames)]);
+
+// Half of a topic's words (at least one) must appear in the segment
+const mentions = (segmentWords: string[], topic: string) => {
+  const words = topicWords(topic);
+  const found = words.filter(word => segmentWords.some(s => sameWord(s, word))).length;
+  return words.length > 0 && found >= Math.ceil(words.length / 2);
+};
+
+// Replaces the automatic topics of every segment from the summary's topic list; a topic removed by hand
+// comes back here if the segment still mentions it
+export const tagSegments = (log: DailyLog): DailyLog => {
+  const topics = log.summary?.topics || [];
+  let changed = false;
+  const transcripts = log.transcripts.map(segment => {
+    const words = tokenize(segment.text).map(singular);
+    const manual = (segment.topics || []).filter(t => t.source === 'manual');
+    const auto: SegmentTopic[] = topics
+      .filter(topic => mentions(words, topic) && !manual.some(t => sameTopic(t.name, topic)))
+      .map(name => ({ name, source: 'auto' }));
+    const next = [...manual, ...auto];
+    const previous = segment.topics || [];
+    if (next.length === previous.length && next.every((t, i) => t.name === previous[i].name && t.source === previous[i].source)) {
+      return segment;
+    }
+    changed = true;
+    return { ...segment, topics: next.length > 0 ? next : undefined };
+  });
+  return changed ? { ...log, transcripts } : log;
+};
+
+// Hand edits replace the segment's whole list; duplicates (by meaning, not spelling) keep the first
+export const setSegmentTopics = async (date: string, segmentId: string, topics: SegmentTopic[]): Promise<void> => {
+  const unique = topics
+    .map(t => ({ ...t, name: t.name.trim() }))
+    .filter((t, i, all) => t.name && all.findIndex(o => sameTopic(o.name, t.name)) === i);
+  await updateLog(date, log => ({
+    ...log,
+    transcripts: log.transcripts.map(segment =>
+      segment.id === segmentId ? { ...segment, topics: unique.length > 0 ? unique : undefined } : segment)
+  }));
+};
+
+export interface TopicDay {
+  date: string;
+  inSummary: boolean;
+  segments: ConversationSegment[];
+}
+
+export interface TopicEntry {
+  label: string;
+  segmentCount: number;
+  days: TopicDay[]; // Newest first
+}
+
+// Every topic with the days and segments under it, most widespread first
+export const buildTopicIndex = (logs: DailyLog[]): TopicEntry[] => {
+  const labels = topicLabels(allTopicNames(logs));
+  const entries = new Map<string, TopicEntry>();
+  const dayOf = (label: string, date: string) => {
+    const entry = entries.get(label) || { label, segmentCount: 0, days: [] };
+    entries.set(label, entry);
+    let day = entry.days.find(d => d.date === date);
+    if (!day) entry.days.push(day = { date, inSummary: false, segments: [] });
+    return { entry, day };
+  };
+
+  logs.forEach(log => {
+    log.summary?.topics.forEach(topic => {
+      const label = labels.get(topic.trim());
+      if (label) dayOf(label, log.date).day.inSummary = true;
+    });
+    log.transcripts.forEach(segment => {
+      new Set(segmentTopicNames(segment).map(name => labels.get(name.trim())).filter(Boolean)).forEach(label => {
+        const { entry, day } = dayOf(label!, log.date);
+        day.segments.push(segment);
+        entry.segmentCount++;
+      });
+    });
+  });
+
+  return [...entries.values()]
+    .map(entry => ({ ...entry, days: entry.days.sort((a, b) => b.date.localeCompare(a.date)) }))
+    .sort((a, b) => b.days.length - a.days.length || b.segmentCount - a.segmentCount || a.label.localeCompare(b.label));
+};
@@ -0,0 +1,60 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Bookmark, TranscriptionJob } from './types';
+import { discardJob } from './transcriptionQueue';
+
+const store = vi.hoisted(() => ({
+  bookmarks: new Map<string, any>(),
+  jobs: new Set<string>(),
+  audio: new Set<string>()
+}));
+
+vi.mock('./db', () => ({
+  getBookmarks: async () => [...store.bookmarks.values()],
+  saveBookmark: async (bookmark: any) => { store.bookmarks.set(bookmark.id, bookmark); },
+  deleteJob: async (id: string) => { store.jobs.delete(id); },
+  deleteAudio: async (audioId: string) => { store.audio.delete(audioId); }
+}));
+
+// The queue only needs the error class from here; the providers behind it are never reached
+vi.mock('./aiService', () => ({ transcribeAudioChunk: vi.fn(), TranscriptionError: class extends Error {} }));
+
+const startedAt = Date.UTC(2026, 9, 4, 10, 0, 0);
+
+const job = (extra: Partial<TranscriptionJob> = {}): TranscriptionJob => ({
+  id: 'audio_1', audioId: 'audio_1', date: '2026-10-04', mimeType: 'audio/webm', recordedMinutes: 5, startedAt,
+  timeZone: 'UTC', status: 'failed', attempts: 6, nextAttemptAt: 0, createdAt: 0, updatedAt: 0, ...extra
+});
+
+const bookmark = (id: string, at: number, status: Bookmark['status'] = 'pending'): Bookmark => ({ id, at, status, createdAt: at });
+
+beforeEach(() => {
+  store.bookmarks.clear();
+  store.jobs = new Set(['audio_1']);
+  store.audio = new Set(['audio_1']);
+});
+
+describe('discardJob', () => {
+  it('gives up on the bookmarks pressed during the chunk and leaves the rest alone', async () => {
+    [
+      bookmark('during', startedAt + 60000),
+      bookmark('before', startedAt - 60000),
+      bookmark('next chunk', startedAt + 6 * 60000),
+      bookmark('done', startedAt + 120000, 'attached')
+    ].forEach(b => store.bookmarks.set(b.id, b));
+
+    await discardJob(job());
+
+    expect(Object.fromEntries([...store.bookmarks].map(([id, b]) => [id, b.status]))).toEqual({
+      during: 'unmatched', before: 'pending', 'next chunk': 'pending', done: 'attached'
+    });
+    expect(store.jobs.size + store.audio.size).toBe(0);
+  });
+
+  it('falls back to the chunk id for jobs queued without a start', async () => {
+    store.bookmarks.set('during', bookmark('during', startedAt + 60000));
+
+    await discardJob(job({ id: `audio_${startedAt}`, audioId: `audio_${startedAt}`, startedAt: undefined }));
+
+    expect(store.bookmarks.get('during').status).toBe('unmatched');
+  });
+});
@@ -0,0 +1,193 @@
+import { TranscriptionJob } from './types';
+import { getAudio, getSpeechRegions, saveJob, getJobs, deleteJob, deleteAudio, appendSegmentsToLog } from './db';
+import { transcribeAudioChunk, TranscriptionError } from './aiService';
+import { analyseSpeech, buildSpeechPayload, remapSegments } from './vad';
+import { bucketRecording, currentTimeZone, recordingStartFromId } from './localTime';
+import { lexiconSentiment } from './sentiment';
+import { attachBookmarks, abandonBookmarks } from './bookmarks';
+
+const MAX_ATTEMPTS = 6;
+const BASE_DELAY_MS = 15 * 1000;
+const MAX_DELAY_MS = 30 * 60 * 1000;
+const DONE_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+export interface JobContext {
+  offlineMode: boolean;
+  audioContext: BaseAudioContext | null;
+}
+
+interface WorkerOptions {
+  getContext: () => JobContext;
+  onChange: () => void; // Fired whenever a job changes state or a log gets new segments
+}
+
+interface TranscriptionWorker {
+  wake: () => void;
+  stop: () => void;
+}
+
+let activeWorker: TranscriptionWorker | null = null;
+
+const backoffDelay = (attempts: number) => {
+  const delay = Math.min(BASE_DELAY_MS * 2 ** (attempts - 1), MAX_DELAY_MS);
+  return delay * (0.8 + Math.random() * 0.4);
+};
+
+export const enqueueTranscription = async (
+  job: Pick<TranscriptionJob, 'audioId' | 'date' | 'mimeType' | 'recordedMinutes' | 'startedAt' | 'timeZone'>
+): Promise<void> => {
+  const now = Date.now();
+  await saveJob({
+    ...job,
+    id: job.audioId,
+    status: 'pending',
+    attempts: 0,
+    nextAttemptAt: now,
+    createdAt: now,
+    updatedAt: now
+  });
+  activeWorker?.wake();
+};
+
+export const retryJob = async (job: TranscriptionJob): Promise<void> => {
+  await saveJob({ ...job, status: 'pending', attempts: 0, nextAttemptAt: Date.now(), updatedAt: Date.now(), error: undefined });
+  activeWorker?.wake();
+};
+
+const releaseBookmarks = async (job: TranscriptionJob) => {
+  const start = job.startedAt ?? recordingStartFromId(job.audioId);
+  if (start !== null) await abandonBookmarks(start, start + job.recordedMinutes * 60000);
+};
+
+// Nothing references the audio of an untranscribed chunk, so it goes with the job
+export const discardJob = async (job: TranscriptionJob): Promise<void> => {
+  await deleteJob(job.id);
+  await deleteAudio(job.audioId);
+  await releaseBookmarks(job);
+};
+
+const runJob = async (job: TranscriptionJob, context: JobContext) => {
+  const blob = await getAudio(job.audioId);
+  if (!blob) throw new TranscriptionError('missing_audio', `Audio ${job.audioId} is no longer stored`);
+
+  const regions = await getSpeechRegions(job.audioId);
+  let payload = { blob, mimeType: job.mimeType, trimmed: false };
+  if (regions) {
+    try {
+      const decoder = context.audioContext || new OfflineAudioContext(1, 1, 44100);
+      payload = await buildSpeechPayload(blob, job.mimeType, await analyseSpeech(blob, decoder, regions));
+    } catch (e) {
+      console.warn("Silence trimming skipped:", e);
+    }
+  }
+
+  const segments = await transcribeAudioChunk(payload.blob, context.offlineMode, payload.mimeType);
+  // Offsets from a speech-only payload are mapped back onto the stored recording. Sentiment starts out from
+  // the lexicon; the summary model rescores the day when it is summarized.
+  const placed = (payload.trimmed ? remapSegments(segments, regions!) : segments)
+    .map(s => ({ ...s, audioId: job.audioId, sentiment: lexiconSentiment(s.text) }));
+  const start = job.startedAt ?? recordingStartFromId(job.audioId);
+  if (start === null) {
+    await appendSegmentsToLog(job.date, job.audioId, placed, job.recordedMinutes);
+    return;
+  }
+  const timeZone = job.timeZone || currentTimeZone();
+  for (const part of bucketRecording(placed, start, job.recordedMinutes, timeZone)) {
+    await appendSegmentsToLog(part.date, job.audioId, part.segments, part.recordedMinutes);
+  }
+  await attachBookmarks(start, start + job.recordedMinutes * 60000, timeZone);
+};
+
+const processJob = async (job: TranscriptionJob, context: JobContext, onChange: () => void) => {
+  const attempts = job.attempts + 1;
+  await saveJob({ ...job, status: 'running', attempts, updatedAt: Date.now() });
+  onChange();
+
+  try {
+    await runJob(job, context);
+    await saveJob({ ...job, status: 'done', attempts, updatedAt: Date.now(), error: undefined });
+  } catch (e) {
+    const error = e instanceof TranscriptionError ? e : new TranscriptionError('unknown', String(e));
+    const exhausted = !error.retryable || attempts >= MAX_ATTEMPTS;
+    await saveJob({
+      ...job,
+      status: exhausted ? 'failed' : 'pending',
+      attempts,
+      nextAttemptAt: Date.now() + backoffDelay(attempts),
+      updatedAt: Date.now(),
+      error: { kind: error.kind, message: error.message }
+    });
+    if (exhausted) await releaseBookmarks(job);
+  }
+  onChange();
+};
+
+// Jobs left 'running' by a killed tab go back to pending; old finished jobs are dropped
+const recoverJobs = async () => {
+  const now = Date.now();
+  for (const job of await getJobs()) {
+    if (job.status === 'running') await saveJob({ ...job, status: 'pending', nextAttemptAt: now });
+    if (job.status === 'done' && now - job.updatedAt > DONE_RETENTION_MS) await deleteJob(job.id);
+  }
+};
+
+export const startTranscriptionWorker = ({ getContext, onChange }: WorkerOptions): TranscriptionWorker => {
+  let timer: number | null = null;
+  let running = false;
+  let rerun = false; // A wake-up arrived mid-run and the job list may be stale
+  let stopped = false;
+
+  const schedule = (delay: number) => {
+    if (timer) clearTimeout(timer);
+    timer = window.setTimeout(tick, Math.max(0, delay));
+  };
+
+  const tick = async () => {
+    if (stopped) return;
+    if (running) {
+      rerun = true;
+      return;
+    }
+    running = true;
+    rerun = false;
+    try {
+      while (!stopped) {
+        const context = getContext();
+        // Offline mode transcribes locally, so it doesn't have to wait for the network
+        if (!navigator.onLine && !context.offlineMode) break;
+
+        const pending = (await getJobs()).filter(j => j.status === 'pending');
+        const due = pending
+          .filter(j => j.nextAttemptAt <= Date.now())
+          .sort((a, b) => a.createdAt - b.createdAt)[0];
+        if (!due) {
+          if (pending.length > 0) schedule(Math.min(...pending.map(j => j.nextAttemptAt)) - Date.now());
+          break;
+        }
+        await processJob(due, context, onChange);
+      }
+    } catch (e) {
+      console.error("Transcription worker error:", e);
+    } finally {
+      running = false;
+      if (rerun) schedule(0);
+    }
+  };
+
+  const wake = () => schedule(0);
+  window.addEventListener('online', wake);
+  recoverJobs()
+    .catch(e => console.error("Job recovery failed:", e))
+    .then(() => { onChange(); wake(); });
+
+  activeWorker = {
+    wake,
+    stop: () => {
+      stopped = true;
+      if (timer) clearTimeout(timer);
+      window.removeEventListener('online', wake);
+      if (activeWorker?.wake === wake) activeWorker = null;
+    }
+  };
+  return activeWorker;
+};
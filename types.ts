@@ -8,14 +8,54 @@ export enum SpeakerType {
 
 export interface ConversationSegment {
   id: string;
-  startTime: string; // Absolute HH:mm:ss
+  startTime: string; // Local HH:mm:ss, derived from recordedAt when that is known
   offsetInAudio: number; // Seconds from start of the audio chunk
   duration: number; // Duration of this specific segment
-  speaker: string;
+  speaker: string; // Display name: the transcriber's label until the segment is assigned to a person
   text: string;
   confidence: number;
   audioId?: string;
   isCompressed?: boolean;
+  personId?: string;
+  speakerLabel?: string; // The transcriber's original label, kept once a person is assigned
+  machine?: MachineSegment[]; // What the transcriber produced, set on the first hand edit (see segmentEdits.ts)
+  recordedAt?: number; // Epoch ms the segment starts at: recording start + offsetInAudio (see localTime.ts)
+  timeZone?: string; // IANA zone the recording was made in; decides the day and the clock time shown
+  sentiment?: SegmentSentiment;
+  topics?: SegmentTopic[]; // See topics.ts
+  bookmarks?: SegmentBookmark[]; // Moments flagged while recording that fall on this segment
+}
+
+export interface SegmentBookmark {
+  id: string; // The Bookmark it came from
+  label?: string;
+}
+
+export interface SegmentTopic {
+  name: string;
+  source: 'auto' | 'manual'; // Automatic topics are replaced whenever the day is re-tagged; manual ones stay
+}
+
+// How a segment sounds, from -1 (very negative) to 1 (very positive); see sentiment.ts
+export interface SegmentSentiment {
+  score: number;
+  emotion?: string; // The model's one-word reading (e.g. "frustrated"); the lexicon doesn't give one
+  source: 'model' | 'lexicon';
+}
+
+// A segment as it came from the transcriber, kept so hand edits can be reverted
+export type MachineSegment = Pick<ConversationSegment, 'id' | 'startTime' | 'offsetInAudio' | 'duration' | 'speaker' | 'text' | 'confidence' | 'recordedAt' | 'timeZone'>;
+
+// Someone in the people registry; segments point at them through personId
+export interface Person {
+  id: string;
+  name: string;
+  createdAt: number;
+}
+
+export interface SpeechRegion {
+  start: number; // Seconds from start of the audio chunk
+  end: number;
 }
 
 export interface DailyLog {
@@ -23,6 +63,8 @@ export interface DailyLog {
   transcripts: ConversationSegment[];
   summary?: DailySummary;
   recordingDurationMinutes: number;
+  audioIds?: string[]; // Chunks already counted in recordingDurationMinutes, including ones that yielded no segments
+  starred?: boolean; // Marked by hand as worth keeping; retention rules can spare it (see retention.ts)
 }
 
 export interface DailySummary {
@@ -33,6 +75,52 @@ export interface DailySummary {
   topics: string[];
 }
 
+export type TaskStatus = 'open' | 'done';
+
+// An action item promoted out of a daily summary (see tasks.ts); it outlives the summary it came from
+export interface Task {
+  id: string;
+  text: string;
+  status: TaskStatus;
+  sourceDate: string; // Day whose summary first listed it
+  sourceSegmentId?: string; // Segment it was most likely said in, when one matches well enough
+  dueDate?: string; // YYYY-MM-DD
+  notes?: string;
+  createdAt: number;
+  updatedAt: number;
+  completedAt?: number;
+}
+
+// A moment flagged while recording (see bookmarks.ts). Once the audio around it is transcribed it is
+// attached to the segments it falls on; with nothing said around it, it stays unmatched.
+export interface Bookmark {
+  id: string;
+  at: number; // Epoch ms of the press
+  label?: string;
+  status: 'pending' | 'attached' | 'unmatched';
+  date?: string; // Day of the segments it was attached to
+  createdAt: number;
+}
+
+export type PeriodKind = 'week' | 'month' | 'custom';
+
+// A rollup over a date range (see periods.ts). Overview and themes come from the summary model; the rest
+// is gathered from the daily summaries in the range, so it stays exact whatever the model does.
+export interface PeriodSummary {
+  id: string; // `${from}_${to}`: one summary per range, regenerating replaces it
+  kind: PeriodKind;
+  from: string; // Inclusive YYYY-MM-DD bounds
+  to: string;
+  overview: string;
+  themes: string[];
+  recurringTopics: { topic: string; days: number }[]; // Topics on two or more days, most frequent first
+  openActionItems: { text: string; date: string }[];
+  moodTrend: { date: string; mood: string; score?: number }[]; // score: the day's normalized mood, see sentiment.ts
+  dayCount: number; // Days in the range with a log
+  summarizedDays: number; // Of those, how many had a daily summary; the rest went in as raw transcript
+  generatedAt: number;
+}
+
 export interface ModelStatus {
   id: string;
   name: string;
@@ -40,6 +128,131 @@ export interface ModelStatus {
   status: 'none' | 'downloading' | 'ready';
   progress: number;
   error?: string;
+  updateAvailable?: boolean;
+}
+
+export interface ModelFile {
+  path: string; // Relative to the model root, e.g. onnx/encoder_model_quantized.onnx
+  size: number;
+  sha256: string;
+  etag?: string; // Remote validator used to detect updates
+}
+
+export interface InstalledModel {
+  id: string;
+  name: string;
+  source: 'url' | 'file';
+  baseUrl?: string;
+  files: ModelFile[];
+  totalBytes: number;
+  installedAt: number;
+}
+
+// A record in the audio_files store, keyed by audioId
+export interface StoredAudio {
+  blob: Blob; // Gzip-compressed bytes when `compressed` is set (older builds gzipped archived audio)
+  compressed: boolean;
+  archived?: boolean; // Re-encoded to low-bitrate Opus (see archiveAudio.ts), or tried and not worth it
+  timestamp: number;
+  speechRegions?: SpeechRegion[];
+}
+
+export interface RecordingSession {
+  id: string; // Matches the chunk id, so a recovered session keeps its audioId
+  startedAt: number;
+  mimeType: string;
+  updatedAt: number; // Time of the last persisted slice
+  sliceCount: number;
+}
+
+export type TranscriptionJobStatus = 'pending' | 'running' | 'failed' | 'done';
+
+export type TranscriptionFailureKind = 
+  'network' | 'auth' | 'config' | 'quota' | 'invalid_response' | 'missing_audio' | 'model_unavailable' | 'unknown';
+
+export interface TranscriptionJob {
+  id: string; // Same as audioId, so re-enqueueing a chunk never duplicates work
+  audioId: string;
+  date: string; // Local day the recording started on; segments past midnight go to the next day's log
+  mimeType: string;
+  recordedMinutes: number;
+  startedAt?: number; // Epoch ms the recording started; missing on jobs queued by older builds
+  timeZone?: string;
+  status: TranscriptionJobStatus;
+  attempts: number;
+  nextAttemptAt: number;
+  createdAt: number;
+  updatedAt: number;
+  error?: { kind: TranscriptionFailureKind; message: string };
+}
+
+export interface SegmentEmbedding {
+  date: string;
+  segmentId: string;
+  signature: string; // Embedding model + hash of the text it was computed from; a mismatch means stale
+  vector: Float32Array;
+}
+
+export interface Citation {
+  date: string;
+  segmentId: string;
+  startTime: string;
+  speaker: string;
+  excerpt: string;
+}
+
+export interface ChatMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  text: string; // Assistant text refers to citations as [n], 1-based
+  citations?: Citation[];
+  failed?: boolean;
+  createdAt: number;
+}
+
+export type ProviderId = 'gemini' | 'openai' | 'local' | 'mock';
+
+export interface ProviderConfig {
+  provider: ProviderId;
+  model: string;
+  baseUrl?: string; // OpenAI-compatible only, e.g. http://192.168.1.20:11434/v1
+  apiKey?: string;
+}
+
+export interface AppSettings {
+  continuousMode: boolean; // Cut the stream into fixed-length chunks while recording
+  chunkMinutes: number; // Length of each chunk in continuous mode
+  transcription: ProviderConfig;
+  summary: ProviderConfig;
+  embedding: ProviderConfig; // Vectors for semantic search
+  localModelId?: string; // Installed speech model used in offline mode
+  customModelUrl?: string;
+  retention: RetentionPolicy;
+}
+
+// What the retention job removes and when (see retention.ts). Ages are whole days before today; null turns a rule off.
+export interface RetentionPolicy {
+  compressAudioAfterDays: number | null; // Re-encode the audio to low-bitrate Opus (see archiveAudio.ts)
+  deleteAudioAfterDays: number | null; // Transcripts stay, playback goes
+  deleteDaysAfterDays: number | null; // The whole day: log, audio and embeddings
+  maxAudioMB: number | null; // Oldest audio goes first once the total is over this
+  keepStarredDays: boolean; // Starred days are never touched
+  keepBookmarkedDays: boolean; // Nor days with a bookmarked segment
+}
+
+// One step of a retention run. A recording (one audioId) can span two days, so audio steps list every day it is on.
+export type RetentionAction =
+  | { kind: 'deleteDay'; date: string; audioIds: string[]; bytes: number }
+  | { kind: 'deleteAudio'; audioId: string; dates: string[]; bytes: number; reason: 'age' | 'cap' }
+  | { kind: 'compress'; audioId: string; dates: string[]; bytes: number };
+
+export interface RetentionRun {
+  policy: RetentionPolicy; // The rules it was planned with; a change of rules starts over
+  actions: RetentionAction[];
+  done: number; // Actions finished so far
+  freedBytes: number;
+  startedAt: number;
+  inBackground?: boolean; // Planned without the real-time re-encoder, see archiveAudio.ts
 }
 
-export type ViewType = 'timeline' | 'calendar' | 'summary' | 'search' | 'settings';
+export type ViewType = 'timeline' | 'calendar' | 'summary' | 'search' | 'settings' | 'queue' | 'ask' | 'people' | 'period' | 'tasks' | 'insights' | 'topics';
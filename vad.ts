@@ -0,0 +1,180 @@
+import { ConversationSegment, SpeechRegion } from './types';
+
+const FRAME_SECONDS = 0.03;
+const MIN_SPEECH_SECONDS = 0.25; // Shorter bursts are clicks and bumps, not speech
+const MAX_PAUSE_SECONDS = 1.5; // Pauses up to this long stay inside a speech region
+const REGION_PADDING_SECONDS = 0.2;
+const NOISE_MARGIN_DB = 10;
+const ABSOLUTE_FLOOR_DB = -60;
+const TRANSCRIBE_SAMPLE_RATE = 16000;
+// Above this share of speech, trimming saves too little to be worth re-encoding
+const TRIM_THRESHOLD = 0.85;
+
+export interface SpeechAnalysis {
+  buffer: AudioBuffer;
+  regions: SpeechRegion[];
+  speechSeconds: number;
+}
+
+const toMono = (buffer: AudioBuffer): Float32Array => {
+  const mono = new Float32Array(buffer.length);
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const data = buffer.getChannelData(c);
+    for (let i = 0; i < data.length; i++) mono[i] += data[i] / buffer.numberOfChannels;
+  }
+  return mono;
+};
+
+const frameEnergies = (samples: Float32Array, sampleRate: number): number[] => {
+  const frameSize = Math.max(1, Math.round(sampleRate * FRAME_SECONDS));
+  const energies: number[] = [];
+  for (let start = 0; start < samples.length; start += frameSize) {
+    const end = Math.min(start + frameSize, samples.length);
+    let sum = 0;
+    for (let i = start; i < end; i++) sum += samples[i] * samples[i];
+    const rms = Math.sqrt(sum / (end - start));
+    energies.push(20 * Math.log10(rms + 1e-10));
+  }
+  return energies;
+};
+
+// The noise floor is taken from the quietest frames, so the threshold adapts to the room
+const speechThreshold = (energies: number[]): number => {
+  const sorted = [...energies].sort((a, b) => a - b);
+  const noiseFloor = sorted[Math.floor(sorted.length * 0.1)] ?? ABSOLUTE_FLOOR_DB;
+  return Math.max(noiseFloor + NOISE_MARGIN_DB, ABSOLUTE_FLOOR_DB);
+};
+
+export const detectSpeechRegions = (buffer: AudioBuffer): SpeechRegion[] => {
+  const energies = frameEnergies(toMono(buffer), buffer.sampleRate);
+  if (energies.length === 0) return [];
+  const threshold = speechThreshold(energies);
+
+  const raw: SpeechRegion[] = [];
+  let regionStart: number | null = null;
+  energies.forEach((energy, i) => {
+    const t = i * FRAME_SECONDS;
+    if (energy >= threshold && regionStart === null) regionStart = t;
+    if (energy < threshold && regionStart !== null) {
+      raw.push({ start: regionStart, end: t });
+      regionStart = null;
+    }
+  });
+  if (regionStart !== null) raw.push({ start: regionStart, end: buffer.duration });
+
+  const merged: SpeechRegion[] = [];
+  for (const region of raw) {
+    const last = merged[merged.length - 1];
+    if (last && region.start - last.end <= MAX_PAUSE_SECONDS) last.end = region.end;
+    else merged.push({ ...region });
+  }
+
+  return merged
+    .filter(r => r.end - r.start >= MIN_SPEECH_SECONDS)
+    .map(r => ({
+      start: Math.max(0, r.start - REGION_PADDING_SECONDS),
+      end: Math.min(buffer.duration, r.end + REGION_PADDING_SECONDS)
+    }));
+};
+
+// Pass `knownRegions` to reuse a stored speech map instead of running detection again
+export const analyseSpeech = async (
+  blob: Blob, 
+  context: BaseAudioContext, 
+  knownRegions?: SpeechRegion[]
+): Promise<SpeechAnalysis> => {
+  const buffer = await context.decodeAudioData(await blob.arrayBuffer());
+  const regions = knownRegions || detectSpeechRegions(buffer);
+  const speechSeconds = regions.reduce((sum, r) => sum + (r.end - r.start), 0);
+  return { buffer, regions, speechSeconds };
+};
+
+// Maps a time in the speech-only audio back onto the original recording
+export const toOriginalTime = (regions: SpeechRegion[], trimmedSeconds: number): number => {
+  let elapsed = 0;
+  for (const region of regions) {
+    const length = region.end - region.start;
+    if (trimmedSeconds <= elapsed + length) return region.start + (trimmedSeconds - elapsed);
+    elapsed += length;
+  }
+  const last = regions[regions.length - 1];
+  return last ? last.end : trimmedSeconds;
+};
+
+export const remapSegments = (segments: ConversationSegment[], regions: SpeechRegion[]): ConversationSegment[] => {
+  return segments.map(s => {
+    const start = toOriginalTime(regions, s.offsetInAudio);
+    const end = toOriginalTime(regions, s.offsetInAudio + s.duration);
+    return { ...s, offsetInAudio: start, duration: end - start };
+  });
+};
+
+// Next point worth playing at or after `time`, or null when only silence remains
+export const nextSpeechTime = (regions: SpeechRegion[], time: number): number | null => {
+  for (const region of regions) {
+    if (time < region.start) return region.start;
+    if (time <= region.end) return time;
+  }
+  return null;
+};
+
+const encodeWav = (samples: Float32Array, sampleRate: number): Blob => {
+  const view = new DataView(new ArrayBuffer(44 + samples.length * 2));
+  const writeString = (offset: number, str: string) => {
+    for (let i = 0; i < str.length; i++) view.setUint8(offset + i, str.charCodeAt(i));
+  };
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + samples.length * 2, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // Mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  writeString(36, 'data');
+  view.setUint32(40, samples.length * 2, true);
+  samples.forEach((s, i) => {
+    const clamped = Math.max(-1, Math.min(1, s));
+    view.setInt16(44 + i * 2, clamped < 0 ? clamped * 0x8000 : clamped * 0x7fff, true);
+  });
+  return new Blob([view], { type: 'audio/wav' });
+};
+
+// Builds what actually gets sent for transcription: the original blob when it is mostly speech,
+// otherwise a 16 kHz mono WAV with the long silences cut out.
+export const buildSpeechPayload = async (
+  original: Blob,
+  mimeType: string,
+  analysis: SpeechAnalysis
+): Promise<{ blob: Blob; mimeType: string; trimmed: boolean }> => {
+  if (analysis.speechSeconds >= analysis.buffer.duration * TRIM_THRESHOLD) {
+    return { blob: original, mimeType, trimmed: false };
+  }
+
+  const { buffer, regions } = analysis;
+  const mono = toMono(buffer);
+  const speech = new Float32Array(regions.reduce((sum, r) => {
+    return sum + Math.round(r.end * buffer.sampleRate) - Math.round(r.start * buffer.sampleRate);
+  }, 0));
+  let cursor = 0;
+  for (const r of regions) {
+    const part = mono.subarray(Math.round(r.start * buffer.sampleRate), Math.round(r.end * buffer.sampleRate));
+    speech.set(part, cursor);
+    cursor += part.length;
+  }
+
+  const length = Math.ceil(speech.length * TRANSCRIBE_SAMPLE_RATE / buffer.sampleRate);
+  const offline = new OfflineAudioContext(1, Math.max(1, length), TRANSCRIBE_SAMPLE_RATE);
+  const speechBuffer = offline.createBuffer(1, Math.max(1, speech.length), buffer.sampleRate);
+  speechBuffer.copyToChannel(speech, 0);
+  const source = offline.createBufferSource();
+  source.buffer = speechBuffer;
+  source.connect(offline.destination);
+  source.start();
+  const resampled = await offline.startRendering();
+
+  return { blob: encodeWav(resampled.getChannelData(0), TRANSCRIBE_SAMPLE_RATE), mimeType: 'audio/wav', trimmed: true };
+};
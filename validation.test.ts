@@ -0,0 +1,129 @@
+import { describe, it, expect, vi } from 'vitest';
+import { normalizeLog, normalizeSegment, normalizeSegments, ValidationError } from './validation';
+
+describe('normalizeSegment', () => {
+  it.each([null, undefined, 'text', 42, [], {}, { text: '' }, { text: '   ' }, { text: {} }])('drops %j', (raw) => {
+    expect(normalizeSegment(raw, 'fallback')).toBeNull();
+  });
+
+  it('fills in what is missing', () => {
+    expect(normalizeSegment({ text: 'Hello' }, 'fallback')).toEqual({
+      id: 'fallback', startTime: '00:00:00', offsetInAudio: 0, duration: 0, speaker: 'Unknown', text: 'Hello', confidence: 0
+    });
+  });
+
+  it('turns numbers stored as strings back into numbers and clamps them', () => {
+    const segment = normalizeSegment({ id: 7, text: 42, offsetInAudio: '-3', duration: 'long', confidence: '1.5' }, 'fallback');
+    expect(segment).toMatchObject({ id: '7', text: '42', offsetInAudio: 0, duration: 0, confidence: 1 });
+  });
+
+  it.each([
+    ['9:05', '09:05:00'],
+    ['9:05:03', '09:05:03'],
+    ['09:05:03.250', '09:05:03'],
+    ['24:00', '00:00:00'],
+    ['12:60', '00:00:00'],
+    ['noon', '00:00:00'],
+    [930, '00:00:00']
+  ])('reads the clock time %j as %j', (startTime, expected) => {
+    expect(normalizeSegment({ text: 'x', startTime }, 'f')!.startTime).toBe(expected);
+  });
+
+  it('keeps an instant, but only a zone that exists', () => {
+    expect(normalizeSegment({ text: 'x', recordedAt: 1000, timeZone: 'Asia/Kolkata' }, 'f')).toMatchObject({ recordedAt: 1000, timeZone: 'Asia/Kolkata' });
+    expect(normalizeSegment({ text: 'x', recordedAt: 1000, timeZone: 'Mars/Olympus' }, 'f')!.timeZone).toBeUndefined();
+    expect(normalizeSegment({ text: 'x', recordedAt: '1000', timeZone: 'UTC' }, 'f')).not.toHaveProperty('recordedAt');
+    expect(normalizeSegment({ text: 'x', recordedAt: NaN }, 'f')).not.toHaveProperty('recordedAt');
+  });
+
+  it('drops optional fields that are malformed', () => {
+    const segment = normalizeSegment({
+      text: 'x',
+      audioId: 12,
+      isCompressed: 'yes',
+      sentiment: { score: 'very' },
+      topics: 'Budget',
+      bookmarks: [{ label: 'No id' }],
+      personId: ''
+    }, 'f');
+    expect(Object.keys(segment!).sort()).toEqual(['confidence', 'duration', 'id', 'offsetInAudio', 'speaker', 'startTime', 'text']);
+  });
+
+  it('repairs optional fields that can be read', () => {
+    const segment = normalizeSegment({
+      text: 'x',
+      speaker: 'Person 1',
+      sentiment: { score: '3', source: 'whatever', emotion: ' Happy ' },
+      topics: [{ name: ' Budget ' }, { name: '' }, null, { name: 'Food', source: 'manual' }],
+      bookmarks: [{ id: 'b1', label: '  ' }, { id: 'b2', label: 'Later' }, { id: '' }],
+      personId: 'p1'
+    }, 'f');
+    expect(segment).toMatchObject({
+      sentiment: { score: 1, source: 'lexicon', emotion: 'happy' },
+      topics: [{ name: 'Budget', source: 'auto' }, { name: 'Food', source: 'manual' }],
+      bookmarks: [{ id: 'b1' }, { id: 'b2', label: 'Later' }],
+      personId: 'p1',
+      speakerLabel: 'Person 1'
+    });
+  });
+
+  it('normalizes machine alternatives and drops the empty ones', () => {
+    const segment = normalizeSegment({ id: 's', text: 'x', machine: [{ text: 'raw', audioId: 'a', topics: [{ name: 'T' }] }, { text: '' }] }, 'f');
+    expect(segment!.machine).toEqual([
+      { id: 's-m0', startTime: '00:00:00', offsetInAudio: 0, duration: 0, speaker: 'Unknown', text: 'raw', confidence: 0 }
+    ]);
+  });
+});
+
+describe('normalizeSegments', () => {
+  it('throws when the input is not a list', () => {
+    expect(() => normalizeSegments({ text: 'x' })).toThrow(ValidationError);
+  });
+
+  it('renames repeated ids instead of dropping segments', () => {
+    const segments = normalizeSegments([
+      { id: '1', text: 'a', audioId: 'audio_1' },
+      { id: '1', text: 'b', audioId: 'audio_2' },
+      { id: '1', text: 'c', audioId: 'audio_2' },
+      { text: 'd' }
+    ], 'day');
+    expect(segments.map(s => s.id)).toEqual(['1', 'audio_2:1', 'audio_2:1~2', 'day-3']);
+  });
+});
+
+describe('normalizeLog', () => {
+  it.each([null, 'log', [], {}, { date: 20261001 }, { date: '2026-10-1' }, { date: 'yesterday' }])('rejects %j', (raw) => {
+    expect(normalizeLog(raw)).toBeNull();
+  });
+
+  it('gives a day with a malformed transcript list an empty one', () => {
+    expect(normalizeLog({ date: '2026-10-01', transcripts: 'lost', recordingDurationMinutes: -5 })).toEqual({
+      date: '2026-10-01', transcripts: [], recordingDurationMinutes: 0
+    });
+  });
+
+  it('drops an unreadable summary but keeps the day', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const log = normalizeLog({ date: '2026-10-01', transcripts: [{ text: 'x' }], summary: { overview: '' } });
+    expect(log).not.toHaveProperty('summary');
+    expect(log!.transcripts).toHaveLength(1);
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+
+  it('keeps the star only when it is really set', () => {
+    expect(normalizeLog({ date: '2026-10-01', starred: true })!.starred).toBe(true);
+    expect(normalizeLog({ date: '2026-10-01', starred: 'true' })).not.toHaveProperty('starred');
+  });
+
+  it('keeps the chunks already counted, without blanks', () => {
+    expect(normalizeLog({ date: '2026-10-01', audioIds: ['audio_1', '', 2] })!.audioIds).toEqual(['audio_1', '2']);
+    expect(normalizeLog({ date: '2026-10-01', audioIds: 'audio_1' })).not.toHaveProperty('audioIds');
+  });
+
+  it('fills in summary lists the model left out', () => {
+    expect(normalizeLog({ date: '2026-10-01', summary: { overview: 'Quiet', keyEvents: 'none', topics: [' Work ', null] } })!.summary).toEqual({
+      overview: 'Quiet', keyEvents: [], actionItems: [], mood: 'Neutral', topics: ['Work']
+    });
+  });
+});
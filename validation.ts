@@ -0,0 +1,182 @@
+import { DailyLog, ConversationSegment, DailySummary, MachineSegment, SegmentSentiment, SegmentTopic } from './types';
+import { PeriodNarrative, SentimentReading } from './providers/provider';
+
+// Normalization for everything that enters storage: model output, restored backups and records written
+// by older builds. Fixable problems are fixed (missing ids, numbers stored as strings, duplicate ids);
+// records that can't mean anything (no date, no text) are rejected.
+
+export class ValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ValidationError';
+  }
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const toNumber = (value: unknown, fallback: number) => {
+  const n = typeof value === 'number' ? value : typeof value === 'string' ? parseFloat(value) : NaN;
+  return Number.isFinite(n) ? n : fallback;
+};
+
+const toText = (value: unknown) => (typeof value === 'string' ? value : typeof value === 'number' ? String(value) : '').trim();
+
+const toStringList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.map(toText).filter(Boolean) : [];
+
+// "9:05" and "9:05:03" become "09:05:00" and "09:05:03"; anything else falls back
+const normalizeClock = (value: unknown, fallback: string) => {
+  const match = toText(value).match(/^(\d{1,2}):(\d{2})(?::(\d{2}))?/);
+  if (!match) return fallback;
+  const [, h, m, s = '00'] = match;
+  return Number(h) > 23 || Number(m) > 59 || Number(s) > 59 ? fallback : `${h.padStart(2, '0')}:${m}:${s}`;
+};
+
+const isTimeZone = (value: unknown): value is string => {
+  if (typeof value !== 'string' || !value) return false;
+  try {
+    new Intl.DateTimeFormat('en', { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const clampScore = (value: unknown) => Math.min(1, Math.max(-1, toNumber(value, 0)));
+
+const normalizeSentiment = (raw: any): SegmentSentiment | undefined => {
+  if (!raw || typeof raw !== 'object' || !Number.isFinite(toNumber(raw.score, NaN))) return undefined;
+  const sentiment: SegmentSentiment = { score: clampScore(raw.score), source: raw.source === 'model' ? 'model' : 'lexicon' };
+  const emotion = toText(raw.emotion).toLowerCase();
+  if (emotion) sentiment.emotion = emotion;
+  return sentiment;
+};
+
+// Null when there is nothing worth keeping (no text)
+export const normalizeSegment = (raw: any, fallbackId: string): ConversationSegment | null => {
+  if (!raw || typeof raw !== 'object') return null;
+  const text = toText(raw.text);
+  if (!text) return null;
+
+  const segment: ConversationSegment = {
+    id: toText(raw.id) || fallbackId,
+    startTime: normalizeClock(raw.startTime, '00:00:00'),
+    offsetInAudio: Math.max(0, toNumber(raw.offsetInAudio, 0)),
+    duration: Math.max(0, toNumber(raw.duration, 0)),
+    speaker: toText(raw.speaker) || 'Unknown',
+    text,
+    confidence: Math.min(1, Math.max(0, toNumber(raw.confidence, 0)))
+  };
+  if (typeof raw.audioId === 'string' && raw.audioId) segment.audioId = raw.audioId;
+  if (typeof raw.recordedAt === 'number' && Number.isFinite(raw.recordedAt)) {
+    segment.recordedAt = raw.recordedAt;
+    if (isTimeZone(raw.timeZone)) segment.timeZone = raw.timeZone;
+  }
+  if (raw.isCompressed === true) segment.isCompressed = true;
+  const sentiment = normalizeSentiment(raw.sentiment);
+  if (sentiment) segment.sentiment = sentiment;
+  if (Array.isArray(raw.topics)) {
+    const topics = raw.topics
+      .map((t: any): SegmentTopic => ({ name: toText(t?.name), source: t?.source === 'manual' ? 'manual' : 'auto' }))
+      .filter((t: SegmentTopic) => t.name);
+    if (topics.length > 0) segment.topics = topics;
+  }
+  if (Array.isArray(raw.bookmarks)) {
+    const bookmarks = raw.bookmarks
+      .filter((b: any) => typeof b?.id === 'string' && b.id)
+      .map((b: any) => (toText(b.label) ? { id: b.id, label: toText(b.label) } : { id: b.id }));
+    if (bookmarks.length > 0) segment.bookmarks = bookmarks;
+  }
+  if (typeof raw.personId === 'string' && raw.personId) {
+    segment.personId = raw.personId;
+    segment.speakerLabel = toText(raw.speakerLabel) || segment.speaker;
+  }
+  if (Array.isArray(raw.machine)) {
+    const machine = raw.machine
+      .map((m: any, i: number) => normalizeSegment(m, `${segment.id}-m${i}`))
+      .filter(Boolean)
+      .map(({ id, startTime, offsetInAudio, duration, speaker, text, confidence, recordedAt, timeZone }: ConversationSegment): MachineSegment =>
+        ({ id, startTime, offsetInAudio, duration, speaker, text, confidence, ...(recordedAt !== undefined ? { recordedAt, timeZone } : {}) }));
+    if (machine.length > 0) segment.machine = machine;
+  }
+  return segment;
+};
+
+// Later duplicates of an id get renamed: transcribers number segments per chunk, so "1", "2"... repeat
+// across chunks of the same day. The audio id is the natural qualifier; a counter covers the rest.
+export const withUniqueIds = (segments: ConversationSegment[], taken: Iterable<string> = []): ConversationSegment[] => {
+  const used = new Set(taken);
+  return segments.map(segment => {
+    if (!used.has(segment.id)) {
+      used.add(segment.id);
+      return segment;
+    }
+    let id = segment.audioId ? `${segment.audioId}:${segment.id}` : segment.id;
+    for (let n = 2; used.has(id); n++) id = `${segment.audioId || segment.id}:${segment.id}~${n}`;
+    used.add(id);
+    return { ...segment, id };
+  });
+};
+
+// For model output and stored transcripts alike; throws only when the input isn't a list at all
+export const normalizeSegments = (raw: unknown, idPrefix = 'seg'): ConversationSegment[] => {
+  if (!Array.isArray(raw)) throw new ValidationError("Expected a list of segments");
+  const segments = raw
+    .map((item, i) => normalizeSegment(item, `${idPrefix}-${i}`))
+    .filter((s): s is ConversationSegment => s !== null);
+  return withUniqueIds(segments);
+};
+
+export const normalizeSummary = (raw: any): DailySummary => {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) throw new ValidationError("Summary is not an object");
+  const overview = toText(raw.overview);
+  if (!overview) throw new ValidationError("Summary has no overview");
+  return {
+    overview,
+    keyEvents: toStringList(raw.keyEvents),
+    actionItems: toStringList(raw.actionItems),
+    mood: toText(raw.mood) || 'Neutral',
+    topics: toStringList(raw.topics)
+  };
+};
+
+export const normalizePeriodNarrative = (raw: any): PeriodNarrative => {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) throw new ValidationError("Period summary is not an object");
+  const overview = toText(raw.overview);
+  if (!overview) throw new ValidationError("Period summary has no overview");
+  return { overview, themes: toStringList(raw.themes) };
+};
+
+// One entry per text, null where the model gave no usable reading; a repeated index keeps its first reading
+export const normalizeSentimentReadings = (raw: unknown, count: number): (SentimentReading | null)[] => {
+  if (!Array.isArray(raw)) throw new ValidationError("Expected a list of sentiment scores");
+  const readings: (SentimentReading | null)[] = new Array(count).fill(null);
+  raw.forEach((item: any) => {
+    const index = Math.round(toNumber(item?.index, NaN));
+    if (!(index >= 1 && index <= count) || readings[index - 1] || !Number.isFinite(toNumber(item.score, NaN))) return;
+    const emotion = toText(item.emotion).toLowerCase();
+    readings[index - 1] = { index, score: clampScore(item.score), ...(emotion ? { emotion } : {}) };
+  });
+  return readings;
+};
+
+// Null when the record has no usable date; a summary that can't be read is dropped rather than the day
+export const normalizeLog = (raw: any): DailyLog | null => {
+  if (!raw || typeof raw !== 'object' || typeof raw.date !== 'string' || !DATE_PATTERN.test(raw.date)) return null;
+  const log: DailyLog = {
+    date: raw.date,
+    transcripts: Array.isArray(raw.transcripts) ? normalizeSegments(raw.transcripts, raw.date) : [],
+    recordingDurationMinutes: Math.max(0, toNumber(raw.recordingDurationMinutes, 0))
+  };
+  const audioIds = toStringList(raw.audioIds);
+  if (audioIds.length > 0) log.audioIds = audioIds;
+  if (raw.starred === true) log.starred = true;
+  if (raw.summary) {
+    try {
+      log.summary = normalizeSummary(raw.summary);
+    } catch (e) {
+      console.warn(`Dropping unreadable summary for ${raw.date}:`, e);
+    }
+  }
+  return log;
+};
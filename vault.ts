@@ -0,0 +1,214 @@
+// Optional at-rest encryption. Records are sealed with AES-GCM under a random data key; the data key
+// is stored wrapped with a key derived from the user's passphrase (PBKDF2-SHA-256), so unlocking is
+// one derivation and an unwrap, and the passphrase itself is never stored.
+// Keys only ever live in memory: reloading the page locks the vault again.
+
+export const KDF_ITERATIONS = 600000;
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+interface WrappedKey {
+  id: string;
+  wrapped: ArrayBuffer;
+  iv: Uint8Array;
+}
+
+export interface VaultConfig {
+  kdf: { iterations: number; salt: Uint8Array };
+  keys: WrappedKey[]; // More than one only while records are being re-encrypted under a new key
+  currentKeyId: string;
+  blindKey: WrappedKey; // HMAC key for search-index term keys
+  pending: boolean; // Some records may still be plaintext or sealed under an older key
+  createdAt: number;
+}
+
+// What a sealed JSON record carries next to its clear (key and index) fields
+export interface SealedBox {
+  keyId: string;
+  iv: Uint8Array;
+  data: ArrayBuffer;
+}
+
+// Sealed blobs keep the ciphertext in the record's blob field; this carries the rest
+export interface SealedBlobBox {
+  keyId: string;
+  iv: Uint8Array;
+  type: string;
+}
+
+export class WrongPassphraseError extends Error {
+  constructor() {
+    super("Wrong passphrase");
+    this.name = 'WrongPassphraseError';
+  }
+}
+
+let config: VaultConfig | null = null;
+let dataKeys = new Map<string, CryptoKey>();
+let blindKey: CryptoKey | null = null;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+export const getVaultState = (): 'off' | 'locked' | 'unlocked' =>
+  !config ? 'off' : dataKeys.has(config.currentKeyId) && blindKey ? 'unlocked' : 'locked';
+
+export const isVaultEnabled = () => config !== null;
+
+export const getLoadedConfig = () => config;
+
+// Called once on launch with whatever is stored; keys stay empty until unlockWith()
+export const setVaultConfig = (next: VaultConfig | null) => {
+  config = next;
+  if (!next) {
+    dataKeys = new Map();
+    blindKey = null;
+  }
+};
+
+const deriveWrappingKey = async (passphrase: string, salt: Uint8Array, iterations: number) => {
+  const material = await crypto.subtle.importKey('raw', encoder.encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['wrapKey', 'unwrapKey']
+  );
+};
+
+const wrap = async (key: CryptoKey, wrappingKey: CryptoKey, id: string): Promise<WrappedKey> => {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  return { id, iv, wrapped: await crypto.subtle.wrapKey('raw', key, wrappingKey, { name: 'AES-GCM', iv }) };
+};
+
+// Unwrapped keys stay extractable so a passphrase change can re-wrap them without the old passphrase
+const unwrap = (entry: WrappedKey, wrappingKey: CryptoKey, algorithm: AesKeyAlgorithm | HmacImportParams, usages: KeyUsage[]) =>
+  crypto.subtle.unwrapKey('raw', entry.wrapped, wrappingKey, { name: 'AES-GCM', iv: entry.iv }, algorithm, true, usages);
+
+const DATA_KEY_ALGORITHM = { name: 'AES-GCM', length: 256 };
+const BLIND_KEY_ALGORITHM = { name: 'HMAC', hash: 'SHA-256' };
+
+const newDataKey = () => crypto.subtle.generateKey(DATA_KEY_ALGORITHM, true, ['encrypt', 'decrypt']) as Promise<CryptoKey>;
+
+// Builds a config for `passphrase`: keys already unlocked (and the blind key) are carried over
+// re-wrapped, plus a fresh data key that becomes current. Nothing changes in memory until activate(),
+// which the caller runs only once the config is persisted, so nothing is sealed under an unsaved key.
+export const createVaultConfig = async (passphrase: string) => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const wrappingKey = await deriveWrappingKey(passphrase, salt, KDF_ITERATIONS);
+  const currentKeyId = crypto.randomUUID();
+  const nextDataKeys = new Map(dataKeys);
+  nextDataKeys.set(currentKeyId, await newDataKey());
+  // The blind key survives passphrase changes, so the search index keeps its term keys
+  const nextBlindKey = blindKey || await crypto.subtle.generateKey(BLIND_KEY_ALGORITHM, true, ['sign']) as CryptoKey;
+
+  const next: VaultConfig = {
+    kdf: { iterations: KDF_ITERATIONS, salt },
+    keys: await Promise.all([...nextDataKeys.entries()].map(([id, key]) => wrap(key, wrappingKey, id))),
+    currentKeyId,
+    blindKey: await wrap(nextBlindKey, wrappingKey, 'blind'),
+    pending: true,
+    createdAt: Date.now()
+  };
+  const activate = () => {
+    config = next;
+    dataKeys = nextDataKeys;
+    blindKey = nextBlindKey;
+  };
+  return { config: next, activate };
+};
+
+const unwrapAll = async (passphrase: string, target: VaultConfig) => {
+  const wrappingKey = await deriveWrappingKey(passphrase, target.kdf.salt, target.kdf.iterations);
+  try {
+    const keys = await Promise.all(target.keys.map(async entry =>
+      [entry.id, await unwrap(entry, wrappingKey, DATA_KEY_ALGORITHM, ['encrypt', 'decrypt'])] as const));
+    return { keys: new Map(keys), blind: await unwrap(target.blindKey, wrappingKey, BLIND_KEY_ALGORITHM, ['sign']) };
+  } catch (e) {
+    // AES-GCM authentication failing on the unwrap is what tells a wrong passphrase apart
+    throw new WrongPassphraseError();
+  }
+};
+
+export const unlockWith = async (passphrase: string) => {
+  if (!config) throw new Error("Encryption is not set up");
+  const { keys, blind } = await unwrapAll(passphrase, config);
+  dataKeys = keys;
+  blindKey = blind;
+};
+
+// For confirming the current passphrase before it is changed; leaves the unlocked keys alone
+export const verifyPassphrase = async (passphrase: string) => {
+  if (!config) throw new Error("Encryption is not set up");
+  await unwrapAll(passphrase, config);
+};
+
+// Drops data keys nothing is sealed under any more
+export const retireOldKeys = (): VaultConfig => {
+  if (!config) throw new Error("Encryption is not set up");
+  const keyId = config.currentKeyId;
+  config = { ...config, keys: config.keys.filter(k => k.id === keyId), pending: false };
+  dataKeys = new Map([[keyId, dataKeys.get(keyId)!]]);
+  return config;
+};
+
+const requireKey = (keyId: string) => {
+  const key = dataKeys.get(keyId);
+  if (!key) throw new Error(config ? "Encrypted data is locked" : "Record is encrypted but encryption is not set up");
+  return key;
+};
+
+// A record is in line with the vault when it is sealed under the current key (or the vault is off)
+export const needsReseal = (raw: any) => !!config && raw?.sealed?.keyId !== config.currentKeyId;
+
+// `context` (store and key) is bound in as associated data, so a sealed record can't be swapped for another
+export const sealRecord = async <T>(record: T, clear: object, context: string): Promise<T | any> => {
+  if (!config) return record;
+  const keyId = config.currentKeyId;
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: encoder.encode(context) },
+    requireKey(keyId),
+    encoder.encode(JSON.stringify(record))
+  );
+  const sealed: SealedBox = { keyId, iv, data };
+  return { ...clear, sealed };
+};
+
+// Plaintext records (written before encryption was turned on) pass through unchanged
+export const openRecord = async <T>(raw: any, context: string): Promise<T> => {
+  if (!raw?.sealed) return raw;
+  const { keyId, iv, data } = raw.sealed as SealedBox;
+  const plain = await crypto.subtle.decrypt({ name: 'AES-GCM', iv, additionalData: encoder.encode(context) }, requireKey(keyId), data);
+  return JSON.parse(decoder.decode(plain));
+};
+
+export const sealBlob = async (blob: Blob, context: string): Promise<{ blob: Blob; box: SealedBlobBox }> => {
+  const keyId = config!.currentKeyId;
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: encoder.encode(context) },
+    requireKey(keyId),
+    await blob.arrayBuffer()
+  );
+  return { blob: new Blob([data]), box: { keyId, iv, type: blob.type } };
+};
+
+export const openBlob = async (blob: Blob, box: SealedBlobBox, context: string): Promise<Blob> => {
+  const plain = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: box.iv, additionalData: encoder.encode(context) },
+    requireKey(box.keyId),
+    await blob.arrayBuffer()
+  );
+  return new Blob([plain], { type: box.type });
+};
+
+// Search-index term keys are HMACs when the vault is on, so the vocabulary isn't readable from key names
+export const blindTerm = async (term: string): Promise<string> => {
+  if (!config) return term;
+  if (!blindKey) throw new Error("Encrypted data is locked");
+  const mac = new Uint8Array(await crypto.subtle.sign('HMAC', blindKey, encoder.encode(term)));
+  let binary = '';
+  mac.forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary);
+};
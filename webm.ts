@@ -0,0 +1,271 @@
+// Minimal WebM writer for a single Opus audio track, enough for what WebCodecs' AudioEncoder hands back
+// (see archiveAudio.ts). It writes a SeekHead, Info with the duration, the track, clusters of
+// SimpleBlocks and trailing Cues, so the result seeks properly, which MediaRecorder's own files don't.
+// The matching reader takes the packets back out of a MediaRecorder file so they can be written again.
+
+export interface OpusPacket {
+  data: Uint8Array;
+  timestamp: number; // Microseconds from the start, as the encoder reports it
+}
+
+export interface OpusTrack {
+  channels: number;
+  inputSampleRate: number; // Rate the encoder was fed; Opus itself always decodes at 48 kHz
+  codecPrivate?: Uint8Array; // OpusHead from the encoder's decoderConfig, when it gives one
+  durationMs: number;
+}
+
+// libopus' lookahead at 48 kHz, for when the encoder doesn't say
+const DEFAULT_PRE_SKIP = 312;
+// Chosen so a block's 16-bit relative timecode never overflows
+const CLUSTER_MS = 5000;
+
+const ID = {
+  EBML: [0x1a, 0x45, 0xdf, 0xa3],
+  EBMLVersion: [0x42, 0x86],
+  EBMLReadVersion: [0x42, 0xf7],
+  EBMLMaxIDLength: [0x42, 0xf2],
+  EBMLMaxSizeLength: [0x42, 0xf3],
+  DocType: [0x42, 0x82],
+  DocTypeVersion: [0x42, 0x87],
+  DocTypeReadVersion: [0x42, 0x85],
+  Segment: [0x18, 0x53, 0x80, 0x67],
+  SeekHead: [0x11, 0x4d, 0x9b, 0x74],
+  Seek: [0x4d, 0xbb],
+  SeekID: [0x53, 0xab],
+  SeekPosition: [0x53, 0xac],
+  Info: [0x15, 0x49, 0xa9, 0x66],
+  TimecodeScale: [0x2a, 0xd7, 0xb1],
+  Duration: [0x44, 0x89],
+  MuxingApp: [0x4d, 0x80],
+  WritingApp: [0x57, 0x41],
+  Tracks: [0x16, 0x54, 0xae, 0x6b],
+  TrackEntry: [0xae],
+  TrackNumber: [0xd7],
+  TrackUID: [0x73, 0xc5],
+  TrackType: [0x83],
+  CodecID: [0x86],
+  CodecPrivate: [0x63, 0xa2],
+  CodecDelay: [0x56, 0xaa],
+  SeekPreRoll: [0x56, 0xbb],
+  Audio: [0xe1],
+  SamplingFrequency: [0xb5],
+  Channels: [0x9f],
+  Cluster: [0x1f, 0x43, 0xb6, 0x75],
+  Timecode: [0xe7],
+  SimpleBlock: [0xa3],
+  BlockGroup: [0xa0],
+  Block: [0xa1],
+  Cues: [0x1c, 0x53, 0xbb, 0x6b],
+  CuePoint: [0xbb],
+  CueTime: [0xb3],
+  CueTrackPositions: [0xb7],
+  CueTrack: [0xf7],
+  CueClusterPosition: [0xf1]
+};
+
+const concat = (parts: Uint8Array[]) => {
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
+
+// EBML variable-length size: the shortest form whose all-ones value (reserved for "unknown") isn't hit
+const vintSize = (size: number) => {
+  let length = 1;
+  while (size >= 2 ** (7 * length) - 1) length++;
+  const bytes = new Uint8Array(length);
+  let rest = size;
+  for (let i = length - 1; i >= 0; i--) {
+    bytes[i] = rest % 256;
+    rest = Math.floor(rest / 256);
+  }
+  bytes[0] |= 0x80 >> (length - 1);
+  return bytes;
+};
+
+const element = (id: number[], ...children: Uint8Array[]) => {
+  const body = concat(children);
+  return concat([Uint8Array.from(id), vintSize(body.length), body]);
+};
+
+// Big-endian, shortest form unless a fixed width is asked for (the SeekHead needs one, see below)
+const uint = (id: number[], value: number, width?: number) => {
+  const bytes: number[] = [];
+  let rest = value;
+  do {
+    bytes.unshift(rest % 256);
+    rest = Math.floor(rest / 256);
+  } while (rest > 0);
+  while (width && bytes.length < width) bytes.unshift(0);
+  return element(id, Uint8Array.from(bytes));
+};
+
+const float = (id: number[], value: number) => {
+  const view = new DataView(new ArrayBuffer(8));
+  view.setFloat64(0, value);
+  return element(id, new Uint8Array(view.buffer));
+};
+
+const text = (id: number[], value: string) => element(id, new TextEncoder().encode(value));
+
+// Identification header from RFC 7845, mapping family 0 (mono or stereo)
+const opusHead = (channels: number, inputSampleRate: number) => {
+  const head = new DataView(new ArrayBuffer(19));
+  new TextEncoder().encode('OpusHead').forEach((byte, i) => head.setUint8(i, byte));
+  head.setUint8(8, 1); // Version
+  head.setUint8(9, channels);
+  head.setUint16(10, DEFAULT_PRE_SKIP, true);
+  head.setUint32(12, inputSampleRate, true);
+  head.setInt16(16, 0, true); // Output gain
+  head.setUint8(18, 0);
+  return new Uint8Array(head.buffer);
+};
+
+const simpleBlock = (packet: OpusPacket, clusterMs: number) => {
+  const header = new DataView(new ArrayBuffer(4));
+  header.setUint8(0, 0x81); // Track 1 as a one-byte vint
+  header.setInt16(1, Math.round(packet.timestamp / 1000) - clusterMs);
+  header.setUint8(3, 0x80); // Keyframe: every Opus packet decodes on its own
+  return element(ID.SimpleBlock, new Uint8Array(header.buffer), packet.data);
+};
+
+export const createOpusWebm = (packets: OpusPacket[], track: OpusTrack): Blob => {
+  const codecPrivate = track.codecPrivate && track.codecPrivate.length >= 19 ? track.codecPrivate : opusHead(track.channels, track.inputSampleRate);
+  const preSkip = new DataView(codecPrivate.buffer, codecPrivate.byteOffset, codecPrivate.byteLength).getUint16(10, true);
+
+  const header = element(ID.EBML,
+    uint(ID.EBMLVersion, 1),
+    uint(ID.EBMLReadVersion, 1),
+    uint(ID.EBMLMaxIDLength, 4),
+    uint(ID.EBMLMaxSizeLength, 8),
+    text(ID.DocType, 'webm'),
+    uint(ID.DocTypeVersion, 4),
+    uint(ID.DocTypeReadVersion, 2)
+  );
+
+  const info = element(ID.Info,
+    uint(ID.TimecodeScale, 1000000), // Timecodes in milliseconds
+    float(ID.Duration, track.durationMs),
+    text(ID.MuxingApp, 'DayTrack'),
+    text(ID.WritingApp, 'DayTrack')
+  );
+
+  const tracks = element(ID.Tracks, element(ID.TrackEntry,
+    uint(ID.TrackNumber, 1),
+    uint(ID.TrackUID, 1),
+    uint(ID.TrackType, 2), // Audio
+    text(ID.CodecID, 'A_OPUS'),
+    element(ID.CodecPrivate, codecPrivate),
+    uint(ID.CodecDelay, Math.round(preSkip / 48000 * 1e9)), // Nanoseconds
+    uint(ID.SeekPreRoll, 80000000),
+    element(ID.Audio, float(ID.SamplingFrequency, 48000), uint(ID.Channels, track.channels))
+  ));
+
+  const clusters: { timecode: number; bytes: Uint8Array }[] = [];
+  let blocks: Uint8Array[] = [];
+  let clusterMs = -1;
+  const closeCluster = () => {
+    if (blocks.length > 0) clusters.push({ timecode: clusterMs, bytes: element(ID.Cluster, uint(ID.Timecode, clusterMs), ...blocks) });
+    blocks = [];
+  };
+  for (const packet of packets) {
+    const ms = Math.round(packet.timestamp / 1000);
+    if (clusterMs < 0 || ms - clusterMs >= CLUSTER_MS) {
+      closeCluster();
+      clusterMs = ms;
+    }
+    blocks.push(simpleBlock(packet, clusterMs));
+  }
+  closeCluster();
+
+  // Positions are relative to the start of the Segment's body. SeekPositions use a fixed width so the
+  // SeekHead's own size, which every later position depends on, is known before they are.
+  const seekHeadFor = (positions: { id: number[]; at: number }[]) => element(ID.SeekHead,
+    ...positions.map(p => element(ID.Seek, element(ID.SeekID, Uint8Array.from(p.id)), uint(ID.SeekPosition, p.at, 8))));
+  const seekHeadSize = seekHeadFor([{ id: ID.Info, at: 0 }, { id: ID.Tracks, at: 0 }, { id: ID.Cues, at: 0 }]).length;
+  const infoAt = seekHeadSize;
+  const tracksAt = infoAt + info.length;
+  let offset = tracksAt + tracks.length;
+  const cuePoints = clusters.map(cluster => {
+    const point = element(ID.CuePoint,
+      uint(ID.CueTime, cluster.timecode),
+      element(ID.CueTrackPositions, uint(ID.CueTrack, 1), uint(ID.CueClusterPosition, offset)));
+    offset += cluster.bytes.length;
+    return point;
+  });
+  const cues = element(ID.Cues, ...cuePoints);
+  const seekHead = seekHeadFor([{ id: ID.Info, at: infoAt }, { id: ID.Tracks, at: tracksAt }, { id: ID.Cues, at: offset }]);
+
+  const segment = element(ID.Segment, seekHead, info, tracks, ...clusters.map(c => c.bytes), cues);
+  return new Blob([header, segment], { type: 'audio/webm;codecs=opus' });
+};
+
+// --- Reading ---
+
+const idValue = (id: number[]) => id.reduce((value, byte) => value * 256 + byte, 0);
+
+// An ID keeps its length marker, a size doesn't; a size of all ones means "unknown"
+const readVint = (bytes: Uint8Array, at: number, isId: boolean) => {
+  const first = bytes[at];
+  let length = 1;
+  while (length <= 8 && !(first & (0x80 >> (length - 1)))) length++;
+  if (length > 8 || at + length > bytes.length) throw new Error("Not a WebM file");
+  let value = isId ? first : first & (0xff >> length);
+  let unknown = !isId && value === 0xff >> length;
+  for (let i = 1; i < length; i++) {
+    value = value * 256 + bytes[at + i];
+    if (bytes[at + i] !== 0xff) unknown = false;
+  }
+  return { value, length, unknown };
+};
+
+const readUint = (data: Uint8Array) => data.reduce((value, byte) => value * 256 + byte, 0);
+
+// Entered rather than skipped; recorders write the Segment and its Clusters with unknown sizes
+const CONTAINERS = new Set([ID.Segment, ID.Info, ID.Tracks, ID.TrackEntry, ID.Cluster, ID.BlockGroup].map(idValue));
+
+// The Opus packets of a single-track WebM file, such as MediaRecorder writes. Laced blocks don't occur
+// in recorder output and aren't read.
+export const readOpusWebm = (bytes: Uint8Array): { packets: OpusPacket[]; codecPrivate?: Uint8Array } => {
+  const packets: OpusPacket[] = [];
+  let codecPrivate: Uint8Array | undefined;
+  let timecodeScale = 1000000;
+  let clusterTime = 0;
+  let at = 0;
+  while (at < bytes.length) {
+    const id = readVint(bytes, at, true);
+    const size = readVint(bytes, at + id.length, false);
+    const body = at + id.length + size.length;
+    if (CONTAINERS.has(id.value)) {
+      at = body;
+      continue;
+    }
+    if (size.unknown) throw new Error("Unexpected element of unknown size in WebM file");
+    const end = body + size.value;
+    if (end > bytes.length) break; // A file cut short keeps the blocks before the cut
+    const data = bytes.subarray(body, end);
+    switch (id.value) {
+      case idValue(ID.TimecodeScale): timecodeScale = readUint(data); break;
+      case idValue(ID.CodecPrivate): codecPrivate = data.slice(); break;
+      case idValue(ID.Timecode): clusterTime = readUint(data); break;
+      case idValue(ID.SimpleBlock):
+      case idValue(ID.Block): {
+        const track = readVint(data, 0, false);
+        const header = new DataView(data.buffer, data.byteOffset + track.length, 3);
+        if (header.getUint8(2) & 0x06) throw new Error("Laced blocks are not supported");
+        packets.push({
+          data: data.slice(track.length + 3),
+          timestamp: Math.round((clusterTime + header.getInt16(0)) * timecodeScale / 1000)
+        });
+        break;
+      }
+    }
+    at = end;
+  }
+  return { packets, codecPrivate };
+};
@@ -0,0 +1,54 @@
+import { pipeline, env } from '@huggingface/transformers';
+
+// Runs Whisper entirely in this worker. Weights never come from the network: every model file
+// request is answered from the Cache Storage bucket the model manager filled.
+
+export interface LocalWhisperRequest {
+  requestId: number;
+  modelId: string;
+  cacheName: string;
+  samples?: Float32Array; // 16 kHz mono; omitted to only load (warm up) the model
+}
+
+export interface LocalWhisperResponse {
+  requestId: number;
+  chunks?: { text: string; timestamp: [number, number | null] }[];
+  error?: string;
+}
+
+let cacheName = '';
+let transcriber: any = null;
+let loadedModelId: string | null = null;
+
+env.allowRemoteModels = false;
+env.allowLocalModels = true;
+env.localModelPath = '/__models/';
+env.useBrowserCache = false;
+env.fetch = async (input: string | URL) => {
+  const url = new URL(input.toString(), self.location.origin).href;
+  const cached = await (await caches.open(cacheName)).match(url);
+  return cached || new Response(null, { status: 404, statusText: 'Not in model cache' });
+};
+
+const loadModel = async (modelId: string) => {
+  if (transcriber && loadedModelId === modelId) return transcriber;
+  transcriber = await pipeline('automatic-speech-recognition', modelId, { dtype: 'q8' });
+  loadedModelId = modelId;
+  return transcriber;
+};
+
+self.onmessage = async (event: MessageEvent<LocalWhisperRequest>) => {
+  const { requestId, modelId, samples } = event.data;
+  cacheName = event.data.cacheName;
+  try {
+    const model = await loadModel(modelId);
+    if (!samples) {
+      self.postMessage({ requestId, chunks: [] } as LocalWhisperResponse);
+      return;
+    }
+    const output = await model(samples, { return_timestamps: true, chunk_length_s: 30, stride_length_s: 5 });
+    self.postMessage({ requestId, chunks: output.chunks || [{ text: output.text, timestamp: [0, null] }] } as LocalWhisperResponse);
+  } catch (e: any) {
+    self.postMessage({ requestId, error: e?.message || String(e) } as LocalWhisperResponse);
+  }
+};
@@ -0,0 +1,24 @@
+import { describe, it, expect } from 'vitest';
+import { createZip, readZip } from './zip';
+
+describe('zip', () => {
+  it('reads back what it writes', async () => {
+    const archive = await createZip([
+      { name: 'manifest.json', data: '{"a":1}' },
+      { name: 'audio/0.bin', data: new Blob([new Uint8Array([1, 2, 3])]) }
+    ]);
+    const entries = await readZip(archive);
+    expect([...entries.keys()]).toEqual(['manifest.json', 'audio/0.bin']);
+    expect(await entries.get('manifest.json')!.data.text()).toBe('{"a":1}');
+    expect(new Uint8Array(await entries.get('audio/0.bin')!.data.arrayBuffer())).toEqual(new Uint8Array([1, 2, 3]));
+  });
+
+  it('keeps every entry past the 65,535 the plain end record can count', async () => {
+    const count = 0xffff + 2;
+    const archive = await createZip(Array.from({ length: count }, (_, i) => ({ name: `audio/${i}.bin`, data: String(i) })));
+    // Read back as one buffer, like a file picked from disk; slicing a Blob of 200,000 parts is slow in itself
+    const entries = await readZip(new Blob([await archive.arrayBuffer()]));
+    expect(entries.size).toBe(count);
+    expect(await entries.get(`audio/${count - 1}.bin`)!.data.text()).toBe(String(count - 1));
+  }, 60000);
+});
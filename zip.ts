@@ -0,0 +1,238 @@
+// Minimal ZIP writer and reader, "stored" entries only (no deflate). Exports are mostly text and audio
+// that is already compressed, so this keeps files openable everywhere without pulling in a zip library.
+// Blob data is streamed for the checksum and referenced rather than copied, so archives of several
+// hundred MB don't have to fit in memory.
+
+export interface ZipEntry {
+  name: string;
+  data: Blob | string;
+  modifiedAt?: Date;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const updateCrc = (crc: number, bytes: Uint8Array) => {
+  for (let i = 0; i < bytes.length; i++) crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  return crc;
+};
+
+export const crc32OfBlob = async (blob: Blob) => {
+  const reader = blob.stream().getReader();
+  let crc = 0xffffffff;
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    crc = updateCrc(crc, value);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const dosDateTime = (date: Date) => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+  date: ((Math.max(1980, date.getFullYear()) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+});
+
+const UTF8_FLAG = 0x0800;
+
+// Fields that don't fit their 16- or 32-bit slot hold all ones and the real value moves to ZIP64
+// records: the 0x0001 extra field per entry and the ZIP64 end record. Continuous recording passes
+// 65,535 files within a couple of years, and long archives pass 4 GiB.
+const MAX_16 = 0xffff;
+const MAX_32 = 0xffffffff;
+const ZIP64_EXTRA = 0x0001;
+const ZIP64_VERSION = 45;
+
+const uint64 = (value: number) => {
+  const view = new DataView(new ArrayBuffer(8));
+  view.setBigUint64(0, BigInt(value), true);
+  return new Uint8Array(view.buffer);
+};
+
+const zip64Extra = (values: number[]) => {
+  const extra = new Uint8Array(4 + values.length * 8);
+  const view = new DataView(extra.buffer);
+  view.setUint16(0, ZIP64_EXTRA, true);
+  view.setUint16(2, values.length * 8, true);
+  values.forEach((value, i) => extra.set(uint64(value), 4 + i * 8));
+  return extra;
+};
+
+export const createZip = async (entries: ZipEntry[]): Promise<Blob> => {
+  const encoder = new TextEncoder();
+  const parts: BlobPart[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    const data = typeof entry.data === 'string' ? new Blob([encoder.encode(entry.data)]) : entry.data;
+    const size = data.size;
+    const crc = await crc32OfBlob(data);
+    const { time, date } = dosDateTime(entry.modifiedAt || new Date());
+    const bigSize = size >= MAX_32;
+    const bigOffset = offset >= MAX_32;
+
+    const localExtra = bigSize ? zip64Extra([size, size]) : new Uint8Array(0);
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, bigSize ? ZIP64_VERSION : 20, true); // Version needed
+    local.setUint16(6, UTF8_FLAG, true);
+    local.setUint16(8, 0, true); // Stored
+    local.setUint16(10, time, true);
+    local.setUint16(12, date, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, bigSize ? MAX_32 : size, true);
+    local.setUint32(22, bigSize ? MAX_32 : size, true);
+    local.setUint16(26, name.length, true);
+    local.setUint16(28, localExtra.length, true);
+    parts.push(local.buffer, name, localExtra, data);
+
+    const centralExtra = bigSize || bigOffset
+      ? zip64Extra([...(bigSize ? [size, size] : []), ...(bigOffset ? [offset] : [])])
+      : new Uint8Array(0);
+    const header = new DataView(new ArrayBuffer(46));
+    header.setUint32(0, 0x02014b50, true);
+    const version = bigSize || bigOffset ? ZIP64_VERSION : 20;
+    header.setUint16(4, version, true); // Version made by
+    header.setUint16(6, version, true);
+    header.setUint16(8, UTF8_FLAG, true);
+    header.setUint16(10, 0, true);
+    header.setUint16(12, time, true);
+    header.setUint16(14, date, true);
+    header.setUint32(16, crc, true);
+    header.setUint32(20, bigSize ? MAX_32 : size, true);
+    header.setUint32(24, bigSize ? MAX_32 : size, true);
+    header.setUint16(28, name.length, true);
+    header.setUint16(30, centralExtra.length, true);
+    header.setUint32(42, bigOffset ? MAX_32 : offset, true);
+    const record = new Uint8Array(46 + name.length + centralExtra.length);
+    record.set(new Uint8Array(header.buffer), 0);
+    record.set(name, 46);
+    record.set(centralExtra, 46 + name.length);
+    central.push(record);
+
+    offset += 30 + name.length + localExtra.length + size;
+  }
+
+  const centralSize = central.reduce((sum, c) => sum + c.length, 0);
+  const trailer: BlobPart[] = [];
+  const isZip64 = entries.length >= MAX_16 || centralSize >= MAX_32 || offset >= MAX_32;
+  if (isZip64) {
+    const record = new DataView(new ArrayBuffer(56));
+    record.setUint32(0, 0x06064b50, true);
+    record.setBigUint64(4, 44n, true); // Size of the rest of the record
+    record.setUint16(12, ZIP64_VERSION, true);
+    record.setUint16(14, ZIP64_VERSION, true);
+    record.setBigUint64(24, BigInt(entries.length), true);
+    record.setBigUint64(32, BigInt(entries.length), true);
+    record.setBigUint64(40, BigInt(centralSize), true);
+    record.setBigUint64(48, BigInt(offset), true);
+    const locator = new DataView(new ArrayBuffer(20));
+    locator.setUint32(0, 0x07064b50, true);
+    locator.setBigUint64(8, BigInt(offset + centralSize), true);
+    locator.setUint32(16, 1, true); // Total disks
+    trailer.push(record.buffer, locator.buffer);
+  }
+
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, Math.min(entries.length, MAX_16), true);
+  end.setUint16(10, Math.min(entries.length, MAX_16), true);
+  end.setUint32(12, Math.min(centralSize, MAX_32), true);
+  end.setUint32(16, Math.min(offset, MAX_32), true);
+
+  return new Blob([...parts, ...central, ...trailer, end.buffer], { type: 'application/zip' });
+};
+
+export interface ZipReadEntry {
+  name: string;
+  size: number;
+  crc: number;
+  data: Blob; // A slice of the archive, read lazily
+}
+
+const readView = async (blob: Blob, start: number, length: number) =>
+  new DataView(await blob.slice(start, start + length).arrayBuffer());
+
+const readUint64 = (view: DataView, at: number) => {
+  const value = view.getBigUint64(at, true);
+  if (value > BigInt(Number.MAX_SAFE_INTEGER)) throw new Error("Zip archive is too large");
+  return Number(value);
+};
+
+// Reads the central directory; throws on anything this writer wouldn't have produced
+export const readZip = async (archive: Blob): Promise<Map<string, ZipReadEntry>> => {
+  // The end record sits in the last 22 bytes, followed by a comment of up to 64 KB
+  const tailStart = Math.max(0, archive.size - 22 - 0xffff);
+  const tail = await readView(archive, tailStart, archive.size - tailStart);
+  let endOffset = -1;
+  for (let i = tail.byteLength - 22; i >= 0; i--) {
+    if (tail.getUint32(i, true) === 0x06054b50) {
+      endOffset = i;
+      break;
+    }
+  }
+  if (endOffset < 0) throw new Error("Not a zip archive");
+
+  let count = tail.getUint16(endOffset + 10, true);
+  let centralSize = tail.getUint32(endOffset + 12, true);
+  let centralOffset = tail.getUint32(endOffset + 16, true);
+  if (count === MAX_16 || centralSize === MAX_32 || centralOffset === MAX_32) {
+    // The ZIP64 locator sits right before the end record and points at the ZIP64 end record
+    const locatorAt = endOffset - 20;
+    if (locatorAt < 0 || tail.getUint32(locatorAt, true) !== 0x07064b50) throw new Error("Corrupt zip64 end record");
+    const record = await readView(archive, readUint64(tail, locatorAt + 8), 56);
+    if (record.getUint32(0, true) !== 0x06064b50) throw new Error("Corrupt zip64 end record");
+    count = readUint64(record, 32);
+    centralSize = readUint64(record, 40);
+    centralOffset = readUint64(record, 48);
+  }
+  const central = await readView(archive, centralOffset, centralSize);
+  const decoder = new TextDecoder();
+  const entries = new Map<string, ZipReadEntry>();
+
+  let pos = 0;
+  for (let i = 0; i < count; i++) {
+    if (central.getUint32(pos, true) !== 0x02014b50) throw new Error("Corrupt zip directory");
+    const method = central.getUint16(pos + 10, true);
+    const crc = central.getUint32(pos + 16, true);
+    let size = central.getUint32(pos + 20, true);
+    const nameLength = central.getUint16(pos + 28, true);
+    const extraLength = central.getUint16(pos + 30, true);
+    const commentLength = central.getUint16(pos + 32, true);
+    let localOffset = central.getUint32(pos + 42, true);
+    const name = decoder.decode(new Uint8Array(central.buffer, central.byteOffset + pos + 46, nameLength));
+    if (method !== 0) throw new Error(`${name} is compressed; only stored entries are supported`);
+
+    // Only the fields that overflowed are in the ZIP64 extra, in this order
+    for (let at = pos + 46 + nameLength; at + 4 <= pos + 46 + nameLength + extraLength;) {
+      const id = central.getUint16(at, true);
+      const length = central.getUint16(at + 2, true);
+      if (id === ZIP64_EXTRA) {
+        let field = at + 4;
+        if (size === MAX_32) {
+          size = readUint64(central, field);
+          field += 16; // Compressed size too, which is the same for stored entries
+        }
+        if (localOffset === MAX_32) localOffset = readUint64(central, field);
+      }
+      at += 4 + length;
+    }
+
+    const local = await readView(archive, localOffset, 30);
+    if (local.getUint32(0, true) !== 0x04034b50) throw new Error(`Corrupt zip entry ${name}`);
+    const dataStart = localOffset + 30 + local.getUint16(26, true) + local.getUint16(28, true);
+    entries.set(name, { name, size, crc, data: archive.slice(dataStart, dataStart + size) });
+
+    pos += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+};